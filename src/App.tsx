@@ -1,7 +1,12 @@
 import { DemoOne } from './components/demo'
+import { I18nProvider } from './hooks/useI18n'
 
 function App() {
-  return <DemoOne />
+  return (
+    <I18nProvider>
+      <DemoOne />
+    </I18nProvider>
+  )
 }
 
 export default App
\ No newline at end of file
@@ -0,0 +1,211 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Check, ChevronLeft, ChevronRight, Copy, Download, FolderCode, GitCompare, Pencil, X } from 'lucide-react';
+import { artifactFileName, type ArtifactDraft } from '../lib/canvas';
+import { diffLines } from '../lib/diff';
+import { downloadFile } from '../lib/export';
+import { useI18n } from '../hooks/useI18n';
+import type { Artifact } from '../types/chat';
+
+interface CanvasPanelProps {
+  artifact?: Artifact;
+  // Set while a canvas reply is streaming; shown read-only in place of the selected version
+  draft?: ArtifactDraft;
+  // 1-based version to show; null follows the latest
+  version: number | null;
+  onSelectVersion: (version: number | null) => void;
+  // Saves an edit as a new version
+  onSave: (content: string) => void;
+  onClose: () => void;
+}
+
+const WIDTH_KEY = 'endlessclaude:canvasWidth';
+const MIN_WIDTH = 320;
+// Room always left for the chat column
+const MIN_CHAT_WIDTH = 360;
+const DEFAULT_WIDTH = 560;
+
+const clampWidth = (width: number) =>
+  Math.round(Math.max(MIN_WIDTH, Math.min(width, window.innerWidth - MIN_CHAT_WIDTH)));
+
+const readStoredWidth = () => {
+  const stored = Number(localStorage.getItem(WIDTH_KEY));
+  return Number.isFinite(stored) && stored > 0 ? stored : DEFAULT_WIDTH;
+};
+
+const DIFF_STYLES = {
+  same: 'text-fg-muted',
+  added: 'bg-green-500/10 text-green-300',
+  removed: 'bg-red-500/10 text-red-300',
+} as const;
+
+const DIFF_MARKERS = { same: ' ', added: '+', removed: '-' } as const;
+
+/**
+ * Resizable side panel holding the conversation's canvas artifact, with
+ * version history, a diff against the previous version, copy and download.
+ */
+const CanvasPanel: React.FC<CanvasPanelProps> = ({ artifact, draft, version, onSelectVersion, onSave, onClose }) => {
+  const { t } = useI18n();
+  const [width, setWidth] = useState(readStoredWidth);
+  const [mode, setMode] = useState<'edit' | 'diff'>('edit');
+  const [copied, setCopied] = useState(false);
+
+  const versions = artifact?.versions ?? [];
+  const selected = version === null ? versions.length : Math.min(version, versions.length);
+  const current = versions[selected - 1];
+  const previous = versions[selected - 2];
+  const isWriting = !!draft && !draft.isComplete;
+
+  const title = (draft?.title ?? artifact?.title ?? t('composer.canvas')) || t('canvas.untitled');
+  const language = draft?.language ?? artifact?.language ?? 'text';
+  const content = draft ? draft.content : current?.content ?? '';
+
+  const [text, setText] = useState(content);
+  // Reset the editor whenever a different version (or new streamed text) is shown
+  useEffect(() => setText(content), [content]);
+  const isDirty = !draft && text !== content;
+
+  const diff = useMemo(
+    () => (mode === 'diff' && previous && current ? diffLines(previous.content, current.content) : []),
+    [mode, previous, current]
+  );
+
+  const startResize = useCallback((event: React.PointerEvent) => {
+    event.preventDefault();
+    let latest = width;
+    const onMove = (moveEvent: PointerEvent) => {
+      // The panel sits on the left when the page is mirrored
+      const isRtl = getComputedStyle(document.documentElement).direction === 'rtl';
+      latest = clampWidth(isRtl ? moveEvent.clientX : window.innerWidth - moveEvent.clientX);
+      setWidth(latest);
+    };
+    const onUp = () => {
+      window.removeEventListener('pointermove', onMove);
+      window.removeEventListener('pointerup', onUp);
+      localStorage.setItem(WIDTH_KEY, String(latest));
+    };
+    window.addEventListener('pointermove', onMove);
+    window.addEventListener('pointerup', onUp);
+  }, [width]);
+
+  const copyContent = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy canvas:', error);
+    }
+  };
+
+  const downloadContent = () => downloadFile(artifactFileName({ title, language }), text, 'text/plain;charset=utf-8');
+
+  const iconButton = 'p-1.5 rounded text-fg-muted hover:bg-fg/10 hover:text-fg transition-colors disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-fg-muted';
+
+  return (
+    <aside
+      className="fixed inset-0 z-40 flex flex-col bg-surface-sunken md:relative md:inset-auto md:z-auto md:h-screen md:flex-shrink-0 md:w-[var(--canvas-width)] border-s border-fg/10"
+      style={{ '--canvas-width': `${clampWidth(width)}px` } as React.CSSProperties}
+    >
+      <div
+        onPointerDown={startResize}
+        className="absolute start-0 top-0 hidden h-full w-1.5 -translate-x-1/2 rtl:translate-x-1/2 cursor-col-resize hover:bg-mode-canvas/40 md:block"
+        title={t('canvas.resize')}
+      />
+
+      {/* Header */}
+      <div className="flex items-center gap-2 border-b border-fg/10 px-4 py-3">
+        <FolderCode className="w-4 h-4 flex-shrink-0 text-mode-canvas" />
+        <div className="min-w-0 flex-1">
+          <div className="truncate text-sm font-medium text-fg">{title}</div>
+          <div className="text-xs text-fg-subtle">
+            {language}
+            {isWriting && ` · ${t('canvas.writing')}`}
+          </div>
+        </div>
+
+        {versions.length > 0 && !draft && (
+          <div className="flex items-center text-xs text-fg-muted">
+            <button
+              onClick={() => onSelectVersion(selected - 1)}
+              disabled={selected <= 1}
+              className={iconButton}
+              title={t('message.previousVersion')}
+            >
+              <ChevronLeft className="w-4 h-4 rtl:-scale-x-100" />
+            </button>
+            <span className="tabular-nums">{t('canvas.versionOf', { version: selected, count: versions.length })}</span>
+            <button
+              onClick={() => onSelectVersion(selected + 1 >= versions.length ? null : selected + 1)}
+              disabled={selected >= versions.length}
+              className={iconButton}
+              title={t('message.nextVersion')}
+            >
+              <ChevronRight className="w-4 h-4 rtl:-scale-x-100" />
+            </button>
+          </div>
+        )}
+
+        <button
+          onClick={() => setMode(mode === 'edit' ? 'diff' : 'edit')}
+          disabled={!!draft || !previous}
+          className={iconButton}
+          title={t(mode === 'edit' ? 'canvas.compare' : 'canvas.backToEditor')}
+        >
+          {mode === 'edit' ? <GitCompare className="w-4 h-4" /> : <Pencil className="w-4 h-4" />}
+        </button>
+        <button onClick={copyContent} disabled={!text} className={iconButton} title={t('canvas.copy')}>
+          {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+        </button>
+        <button onClick={downloadContent} disabled={!text} className={iconButton} title={t('canvas.download', { file: artifactFileName({ title, language }) })}>
+          <Download className="w-4 h-4" />
+        </button>
+        <button onClick={onClose} className={iconButton} title={t('canvas.close')}>
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Body */}
+      {mode === 'diff' && !draft && previous ? (
+        <div className="flex-1 overflow-auto py-2 font-mono text-sm" dir="ltr">
+          <div className="px-4 pb-2 text-xs text-fg-subtle">{t('canvas.changes', { from: selected - 1, to: selected })}</div>
+          {diff.map((line, index) => (
+            <div key={index} className={`whitespace-pre-wrap break-all px-4 ${DIFF_STYLES[line.type]}`}>
+              <span className="select-none pr-2 opacity-60">{DIFF_MARKERS[line.type]}</span>
+              {line.text}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <textarea
+          value={text}
+          onChange={(event) => setText(event.target.value)}
+          readOnly={!!draft}
+          spellCheck={false}
+          dir="ltr"
+          placeholder={draft ? '' : t('canvas.empty')}
+          className="flex-1 resize-none bg-transparent p-4 font-mono text-sm leading-relaxed text-fg outline-none placeholder:text-fg-subtle"
+        />
+      )}
+
+      {isDirty && (
+        <div className="flex items-center justify-end gap-2 border-t border-fg/10 px-4 py-2">
+          <button
+            onClick={() => setText(content)}
+            className="rounded px-3 py-1 text-xs text-fg-muted hover:bg-fg/10 hover:text-fg transition-colors"
+          >
+            {t('canvas.discard')}
+          </button>
+          <button
+            onClick={() => onSave(text)}
+            className="rounded bg-mode-canvas px-3 py-1 text-xs font-medium text-black hover:bg-mode-canvas/90 transition-colors"
+          >
+            {t('canvas.saveAs', { version: versions.length + 1 })}
+          </button>
+        </div>
+      )}
+    </aside>
+  );
+};
+
+export default CanvasPanel;
@@ -1,197 +1,587 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { motion } from 'framer-motion';
+import React, { useState, useRef, useEffect, useLayoutEffect, useCallback, useMemo } from 'react';
+import { AnimatePresence, MotionConfig, motion } from 'framer-motion';
 import { PromptInputBox } from './ui/ai-prompt-box';
-import { Copy, User, Bot, Check } from 'lucide-react';
-// remove: import * as puter from '@puter/js';
+import { ArrowDown, Bot } from 'lucide-react';
+import { MessageBubble, TypingDots } from './MessageBubble';
+import ConversationSidebar from './ConversationSidebar';
+import CanvasPanel from './CanvasPanel';
+import { useConversations } from '../hooks/useConversations';
+import { usePromptTemplates } from '../hooks/usePromptTemplates';
+import { useShortcuts } from '../hooks/useShortcuts';
+import { useTheme } from '../hooks/useTheme';
+import { useI18n } from '../hooks/useI18n';
+import { useVirtualList } from '../hooks/useVirtualList';
+import { extractText, isImageFile, labelAttachment } from '../lib/attachments';
+import { loadAttachment, saveAttachment } from '../lib/storage/attachments';
+import { exportConversations, parseConversationExport, restoreConversations, type ExportFormat, type TextExportOptions } from '../lib/export';
+import { ROOT_ID, activePath, branchPosition, childrenOf } from '../lib/tree';
+import { buildHistory, type HistoryOptions, type HistoryTurn } from '../lib/history';
+import { createFrameBatcher } from '../lib/frame-batcher';
+import { isAbortError } from '../lib/abortable';
+import { MAX_RETRIES, classifyError, isRetryable, retryDelay, sleep, type ChatError } from '../lib/errors';
+import { CANVAS_INSTRUCTION, addArtifactVersion, canvasPrompt, splitArtifact, type ArtifactDraft } from '../lib/canvas';
+import { THINK_INSTRUCTION, createThinkingTagParser } from '../lib/reasoning';
+import { SLASH_COMMANDS, type AppCommandActions, type AppPaletteActions } from '../lib/commands';
+import { conversationTitle } from '../lib/storage/conversations';
+import { createProviderFromEnv, type ChatProvider, type ChatStreamPart, type ModelInfo, type TokenUsage, type ProviderContentPart, type ProviderMessage, type UploadedAttachment } from '../lib/providers';
+import { createTranscriberFromEnv, type Transcriber } from '../lib/voice/transcribers';
+import { createSearchProviderFromEnv, groundPrompt, type SearchProvider, type SearchResult } from '../lib/search';
+import { contextWindowFor, estimateHistoryTokens, estimateTextTokens } from '../lib/tokens';
+import type { GenerationSettings, Message, MessageStats, SendOptions } from '../types/chat';
 
-declare global {
-  interface Window { puter?: any; }
-}
+// Resolved once from the VITE_CHAT_* environment; pass `provider` to override
+const defaultProvider = createProviderFromEnv();
+const defaultTranscriber = createTranscriberFromEnv();
+const defaultSearchProvider = createSearchProviderFromEnv();
+
+// Number of search results injected into a grounded request
+const SEARCH_RESULT_LIMIT = 5;
+// Screen readers hear the start of a finished reply; the rest can be read in the message itself
+const ANNOUNCEMENT_LENGTH = 300;
 
-// helper to lazily obtain puter
-const getPuter = async (): Promise<any> => {
-  // prefer a global puter (CDN script)
-  if (typeof window !== 'undefined' && (window as any).puter) {
-    return (window as any).puter;
-  }
-
-  // otherwise try dynamic import (works if package is installed)
-  try {
-    const mod = await import('@puter/js');
-    // depending on package export style, it might be default or named
-    return (mod && (mod.default || mod));
-  } catch (err) {
-    console.warn('Failed to dynamically import @puter.js, and window.puter not found.', err);
-    throw err;
-  }
+const announcementText = (content: string) => {
+  const text = content.replace(/\s+/g, ' ').trim();
+  return text.length > ANNOUNCEMENT_LENGTH ? `${text.slice(0, ANNOUNCEMENT_LENGTH)}…` : text;
 };
 
-interface Message {
-  id: string;
-  content: string;
-  sender: 'user' | 'ai';
-  timestamp: Date;
-  files?: File[];
+// Moves between messages from the keyboard; other keys belong to the focused control
+const MESSAGE_NAVIGATION_KEYS = ['ArrowUp', 'ArrowDown', 'Home', 'End'];
+// Height assumed for a message before it has been rendered, including the gap above it
+const ESTIMATED_MESSAGE_HEIGHT = 140;
+
+interface StreamedResponse {
+  text: string;
+  reasoning: string;
+  reasoningMs?: number;
+  // Set once the stream has finished
+  stats?: MessageStats;
+}
+
+interface ResponseOptions {
+  settings?: GenerationSettings;
+  // Ask for reasoning: natively when the provider supports it, otherwise through <thinking> tags
+  think?: boolean;
+  // Ask for the reply's file content inside an <artifact> block for the canvas
+  canvas?: boolean;
+  // Called once the model starts streaming, before the first token
+  onStart?: () => void;
+  // Called with the accumulated answer and reasoning after every streamed part
+  onUpdate?: (response: StreamedResponse) => void;
+  // Called before waiting to retry a transient failure; `attempt` counts from 1
+  onRetry?: (error: ChatError, attempt: number, delayMs: number) => void;
+  // Aborting stops the stream early; the partial text is returned
+  signal?: AbortSignal;
 }
 
-const ChatInterface: React.FC = () => {
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
+const toMessageChanges = (response: StreamedResponse): Partial<Message> => ({
+  content: response.text,
+  reasoning: response.reasoning ? { text: response.reasoning, durationMs: response.reasoningMs } : undefined,
+  ...(response.stats && { stats: response.stats })
+});
+
+interface ChatInterfaceProps {
+  provider?: ChatProvider;
+  transcriber?: Transcriber | null;
+  searchProvider?: SearchProvider;
+  // Context budget for the history sent with each request
+  historyOptions?: Partial<HistoryOptions>;
+}
+
+const ChatInterface: React.FC<ChatInterfaceProps> = ({ provider = defaultProvider, transcriber = defaultTranscriber, searchProvider = defaultSearchProvider, historyOptions }) => {
+  const {
+    conversations,
+    activeConversation,
+    activeId,
+    selectConversation,
+    newConversation,
+    renameConversation,
+    removeConversation,
+    addConversations,
+    updateMessages,
+    clearMessages,
+    updateSettings,
+    updateArtifact,
+    selectBranch,
+    revealMessage
+  } = useConversations();
+  const promptTemplates = usePromptTemplates();
+  const shortcuts = useShortcuts();
+  const theme = useTheme();
+  const { t } = useI18n();
+  // The conversation a reply is currently being generated for, if any
+  const [loadingConversationId, setLoadingConversationId] = useState<string | null>(null);
+  const [models, setModels] = useState<ModelInfo[]>([]);
+  const [loadingLabel, setLoadingLabel] = useState<string | undefined>(undefined);
+  // Shown in a waiting reply while a failed request is retried
+  const [retryNotice, setRetryNotice] = useState<{ messageId: string; text: string } | null>(null);
+  const [isSidebarOpen, setIsSidebarOpen] = useState(() => typeof window === 'undefined' || window.innerWidth >= 768);
   const [copiedId, setCopiedId] = useState<string | null>(null);
-  const chatContainerRef = useRef<HTMLDivElement>(null);
+  const [isCanvasOpen, setIsCanvasOpen] = useState(false);
+  // 1-based canvas version on display; null follows the latest
+  const [canvasVersion, setCanvasVersion] = useState<number | null>(null);
+  // Artifact text streaming in for a canvas reply, before it is saved as a version
+  const [canvasDraft, setCanvasDraft] = useState<{ conversationId: string; draft: ArtifactDraft } | null>(null);
+  // Message briefly highlighted after jumping to it from search
+  const [flashedMessageId, setFlashedMessageId] = useState<string | null>(null);
+  // Read out by the live region when a reply finishes or fails
+  const [announcement, setAnnouncement] = useState('');
+  // The message that takes focus when tabbing into the list; defaults to the newest
+  const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null);
+  // Set by a search jump; scrolled to once the message is on the active branch
+  const pendingScrollRef = useRef<string | null>(null);
+  // Set by arrow-key navigation; focused once the message is rendered
+  const pendingFocusRef = useRef<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
-    // optional: warm up puter at mount so first call is faster
+    // optional: warm up the provider at mount so first call is faster
     (async () => {
       try {
-        await getPuter();
+        await provider.prepare?.();
       } catch (e) {
         // ignore, will show user-friendly error later when used
       }
     })();
-  }, []);
+    return () => provider.cancel();
+  }, [provider]);
 
-  const scrollToBottom = () => {
-    if (chatContainerRef.current) {
-      chatContainerRef.current.scrollTop = chatContainerRef.current.scrollHeight;
-    }
-  };
+  useEffect(() => {
+    let cancelled = false;
+    provider.listModels()
+      .then(list => {
+        if (!cancelled) setModels(list);
+      })
+      .catch(error => console.warn('Failed to load models:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [provider]);
+
+  // The branch on screen; other branches stay in `activeConversation.messages`
+  const messages = useMemo(() => (activeConversation ? activePath(activeConversation) : []), [activeConversation]);
+  const messageIds = useMemo(() => messages.map(message => message.id), [messages]);
+  const focusTargetId = messageIds.includes(focusedMessageId ?? '')
+    ? focusedMessageId
+    : messageIds[messageIds.length - 1];
+  // Only messages near the viewport are rendered; the focus target stays mounted so Tab can reach it
+  const messageList = useVirtualList({
+    keys: messageIds,
+    estimateSize: ESTIMATED_MESSAGE_HEIGHT,
+    pinnedKeys: [focusTargetId]
+  });
+  const { scrollToBottom, scrollToKey } = messageList;
+  const settings = activeConversation?.settings ?? {};
+  const isLoading = loadingConversationId !== null;
+
+  // What the next request would carry before the draft is added; the composer adds the draft itself
+  const contextUsage = useMemo(() => ({
+    historyTokens: estimateHistoryTokens(buildHistory(messages, historyOptions)) + estimateTextTokens(settings.systemPrompt ?? ''),
+    limit: contextWindowFor(settings.model || provider.defaultModel, models)
+  }), [messages, historyOptions, settings.systemPrompt, settings.model, provider.defaultModel, models]);
+
+  // A conversation opens at its latest message, unless a search result asked for another
+  useLayoutEffect(() => {
+    if (!pendingScrollRef.current) scrollToBottom();
+  }, [activeId, scrollToBottom]);
 
   useEffect(() => {
-    scrollToBottom();
-  }, [messages]);
+    const target = pendingScrollRef.current;
+    if (!target || !messageIds.includes(target)) return;
+    pendingScrollRef.current = null;
+    scrollToKey(target);
+    setFlashedMessageId(target);
+  }, [messageIds, scrollToKey]);
 
-  const getAIResponse = async (userMessage: string, files?: File[]): Promise<string> => {
-    let puter: any;
-    try {
-      puter = await getPuter();
-    } catch (err) {
-      console.error('Puter not available:', err);
-      throw new Error('AI service is unavailable. Make sure puter is included or @puter/js is installed.');
-    }
+  useEffect(() => {
+    const target = pendingFocusRef.current;
+    if (!target) return;
+    pendingFocusRef.current = null;
+    messageList.scrollRef.current
+      ?.querySelector<HTMLElement>(`[data-message-id="${CSS.escape(target)}"]`)
+      ?.focus({ preventScroll: true });
+  }, [focusTargetId, messageList.scrollRef]);
+
+  useEffect(() => {
+    if (!flashedMessageId) return;
+    const timer = setTimeout(() => setFlashedMessageId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [flashedMessageId]);
 
-    // Array to keep track of uploaded files for cleanup
-    const uploadedFiles: string[] = [];
+  const getAIResponse = async (history: HistoryTurn[], options: ResponseOptions = {}): Promise<StreamedResponse> => {
+    // Array to keep track of uploaded attachments for cleanup
+    const uploaded: UploadedAttachment[] = [];
+
+    const { model, systemPrompt, temperature, maxTokens } = options.settings ?? {};
 
     try {
-      let response;
-      
-      // Check if we have files to process (multimodal input)
-      if (files && files.length > 0) {
-        // Upload files to Puter's file system temporarily
-        const fileContent = [];
-        
-        for (const file of files) {
-          // Only process image files
-          if (file.type.startsWith('image/')) {
-            const fileName = `temp_image_${Date.now()}_${file.name}`;
-            const uploadedFile = await puter.fs.write(fileName, file);
-            uploadedFiles.push(uploadedFile.path);
-            
-            fileContent.push({
-              type: 'file',
-              puter_path: uploadedFile.path
-            });
+      // Build the role-tagged history, uploading images through the provider and inlining documents
+      const chatMessages: ProviderMessage[] = [];
+      if (systemPrompt?.trim()) {
+        chatMessages.push({ role: 'system', content: [{ type: 'text', text: systemPrompt }] });
+      }
+      const nativeReasoning = !!options.think && provider.supportsReasoning;
+      const tagParser = options.think && !nativeReasoning ? createThinkingTagParser() : null;
+      if (tagParser) {
+        chatMessages.push({ role: 'system', content: [{ type: 'text', text: THINK_INSTRUCTION }] });
+      }
+      if (options.canvas) {
+        chatMessages.push({ role: 'system', content: [{ type: 'text', text: CANVAS_INSTRUCTION }] });
+      }
+      for (const turn of history) {
+        const content: ProviderContentPart[] = [];
+        for (const stored of turn.attachments ?? []) {
+          let file: File;
+          try {
+            file = await loadAttachment(stored);
+          } catch (loadError) {
+            console.warn('Attachment unavailable:', stored.name, loadError);
+            content.push({ type: 'text', text: `[Attachment ${stored.name} is no longer available]` });
+            continue;
+          }
+          if (isImageFile(file)) {
+            const attachment = await provider.uploadAttachment(file);
+            uploaded.push(attachment);
+            content.push({ type: 'attachment', attachment });
+            continue;
+          }
+          // Documents are read in the browser and sent as labeled text
+          try {
+            content.push({ type: 'text', text: labelAttachment(file, await extractText(file)) });
+          } catch (extractError) {
+            console.warn('Failed to read attachment:', file.name, extractError);
+            content.push({ type: 'text', text: `[Attachment ${file.name} could not be read]` });
           }
         }
-        
+
         // Add text content
-        if (userMessage.trim()) {
-          fileContent.push({
-            type: 'text',
-            text: userMessage
-          });
+        if (turn.content.trim() || content.length === 0) {
+          content.push({ type: 'text', text: turn.content });
         }
-        
-        // Create multimodal message array
-        const messages = [{
-          role: 'user',
-          content: fileContent
-        }];
-        
-        response = await puter.ai.chat(messages, {
-          model: "claude-sonnet-4",
-          stream: true
-        });
-      } else {
-        // Standard text-only chat
-        response = await puter.ai.chat(userMessage, {
-          model: "claude-sonnet-4",
-          stream: true
-        });
+
+        chatMessages.push({ role: turn.role, content });
       }
 
+      options.onStart?.();
+
       let fullResponse = '';
-      for await (const part of response) {
-        fullResponse += part?.text || "";
-      }
+      let reasoning = '';
+      let reasoningStartedAt: number | undefined;
+      let reasoningMs: number | undefined;
+      let usage: TokenUsage = {};
+      let requestedAt = performance.now();
+      let firstTokenAt: number | undefined;
+      const snapshot = (): StreamedResponse => ({ text: fullResponse.trimStart(), reasoning: reasoning.trim(), reasoningMs });
+      const apply = (part: ChatStreamPart) => {
+        if (part.type === 'usage') {
+          usage = { ...usage, ...part.usage };
+          return;
+        }
+        firstTokenAt ??= performance.now();
+        if (part.type === 'reasoning') {
+          reasoningStartedAt ??= performance.now();
+          reasoning += part.text;
+          return;
+        }
+        // Reasoning ends when the first answer token arrives
+        if (reasoningStartedAt !== undefined && reasoningMs === undefined) {
+          reasoningMs = performance.now() - reasoningStartedAt;
+        }
+        fullResponse += part.text;
+      };
 
-      // Clean up uploaded files
-      for (const filePath of uploadedFiles) {
+      for (let attempt = 0; ; attempt++) {
+        let received = false;
+        requestedAt = performance.now();
         try {
-          await puter.fs.delete(filePath);
-        } catch (cleanupError) {
-          console.warn('Failed to clean up uploaded file:', filePath, cleanupError);
+          const stream = provider.streamChat({
+            model: model || provider.defaultModel,
+            messages: chatMessages,
+            temperature,
+            maxTokens,
+            reasoning: nativeReasoning || undefined,
+            signal: options.signal
+          });
+          for await (const part of stream) {
+            received = true;
+            const parts = tagParser && part.type === 'text' ? tagParser.push(part.text) : [part];
+            parts.forEach(apply);
+            options.onUpdate?.(snapshot());
+          }
+          break;
+        } catch (error) {
+          // Stopping mid-stream keeps whatever arrived so far
+          if (isAbortError(error)) break;
+          const chatError = classifyError(error);
+          // Only failures before the first token are retried; a restart would repeat streamed text
+          if (received || attempt >= MAX_RETRIES || !isRetryable(chatError)) throw chatError;
+          const delayMs = retryDelay(attempt, chatError);
+          console.warn(`Retrying in ${delayMs}ms after:`, chatError);
+          options.onRetry?.(chatError, attempt + 1, delayMs);
+          try {
+            await sleep(delayMs, options.signal);
+          } catch {
+            // Stopped while waiting; nothing was received
+            break;
+          }
         }
       }
+      tagParser?.flush().forEach(apply);
+      if (reasoningStartedAt !== undefined && reasoningMs === undefined) {
+        reasoningMs = performance.now() - reasoningStartedAt;
+      }
 
-      return fullResponse || "I apologize, but I didn't receive a proper response. Please try again.";
+      // Services that report no usage get a local estimate
+      const estimated = usage.inputTokens === undefined || usage.outputTokens === undefined;
+      const stats: MessageStats = {
+        inputTokens: usage.inputTokens ?? estimateHistoryTokens(history) + estimateTextTokens(systemPrompt ?? ''),
+        outputTokens: usage.outputTokens ?? estimateTextTokens(fullResponse + reasoning),
+        latencyMs: firstTokenAt === undefined ? undefined : firstTokenAt - requestedAt,
+        durationMs: performance.now() - requestedAt,
+        estimated: estimated || undefined
+      };
+
+      const response = { ...snapshot(), stats };
+      if (options.signal?.aborted || response.text) return response;
+      return { ...response, text: t('chat.noResponse') };
     } catch (error) {
-      // Clean up uploaded files in case of error
-      for (const filePath of uploadedFiles) {
+      console.error('AI API Error:', error);
+      throw classifyError(error);
+    } finally {
+      // Clean up uploaded attachments
+      for (const attachment of uploaded) {
         try {
-          await puter.fs.delete(filePath);
+          await provider.releaseAttachment(attachment);
         } catch (cleanupError) {
-          console.warn('Failed to clean up uploaded file during error:', filePath, cleanupError);
+          console.warn('Failed to clean up uploaded file:', attachment.ref, cleanupError);
         }
       }
-      console.error('AI API Error:', error);
-      throw new Error(`Failed to get AI response: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   };
 
-  const handleSendMessage = async (content: string, files?: File[]) => {
-    if (!content.trim() && (!files || files.length === 0)) return;
+  const updateMessage = useCallback((conversationId: string, id: string, changes: Partial<Message>) => {
+    updateMessages(conversationId, prev => prev.map(message => (message.id === id ? { ...message, ...changes } : message)));
+  }, [updateMessages]);
+
+  // Streams a reply to the last message of `path` (a user turn) into a new child of it
+  const generateReply = async (conversationId: string, path: Message[], options: SendOptions = {}) => {
+    const setMessages = (updater: (prev: Message[]) => Message[]) => updateMessages(conversationId, updater);
+    const question = path[path.length - 1];
+
+    setLoadingConversationId(conversationId);
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    const aiMessageId = (Date.now() + 1).toString();
+    const model = settings.model || provider.defaultModel;
+    let streamStarted = false;
+    const artifact = activeConversation?.artifact;
+    // Canvas replies keep the artifact block out of the chat bubble and stream it into the panel
+    let draft: ArtifactDraft | undefined;
+    const applyResponse = (response: StreamedResponse): Partial<Message> => {
+      const changes = toMessageChanges(response);
+      if (!options.canvas) return changes;
+      const split = splitArtifact(response.text);
+      draft = split.draft;
+      if (draft) setCanvasDraft({ conversationId, draft });
+      return { ...changes, content: split.message };
+    };
+    // Streamed text is applied at most once per animation frame
+    const batcher = createFrameBatcher((response: StreamedResponse) => updateMessage(conversationId, aiMessageId, applyResponse(response)));
+    const addReply = (reply: Message) => {
+      setMessages(prev => [...prev, reply]);
+      selectBranch(conversationId, question.id, reply.id);
+    };
+    if (options.canvas) {
+      setIsCanvasOpen(true);
+      setCanvasVersion(null);
+    }
+
+    try {
+      let sources: SearchResult[] = [];
+      if (options.search && question.content.trim()) {
+        setLoadingLabel(t('chat.searching'));
+        try {
+          sources = await searchProvider.search(question.content, { limit: SEARCH_RESULT_LIMIT, signal: controller.signal });
+        } catch (searchError) {
+          // Fall back to an ungrounded answer rather than failing the whole turn
+          if (!isAbortError(searchError)) console.warn('Search failed:', searchError);
+        } finally {
+          setLoadingLabel(undefined);
+        }
+        if (controller.signal.aborted) return;
+      }
+
+      // Send the active branch so follow-up questions keep their context
+      const history = buildHistory(path, historyOptions);
+      if (sources.length > 0) {
+        // Search results only ride along with this request; the stored message stays as typed
+        const turn = history[history.length - 1];
+        history[history.length - 1] = { ...turn, content: groundPrompt(turn.content, sources) };
+      }
+      if (options.canvas) {
+        const turn = history[history.length - 1];
+        history[history.length - 1] = { ...turn, content: canvasPrompt(turn.content, artifact) };
+      }
+      const aiResponse = await getAIResponse(history, {
+        onStart: () => {
+          streamStarted = true;
+          addReply({
+            id: aiMessageId,
+            parentId: question.id,
+            content: '',
+            sender: 'ai',
+            timestamp: new Date(),
+            status: 'streaming',
+            model,
+            sources: sources.length > 0 ? sources : undefined
+          });
+        },
+        settings: { ...settings, model },
+        think: options.think,
+        canvas: options.canvas,
+        onUpdate: batcher.push,
+        onRetry: (error, attempt, delayMs) => setRetryNotice({
+          messageId: aiMessageId,
+          text: t('chat.retrying', {
+            error: t(`error.${error.kind}.title`),
+            seconds: Math.ceil(delayMs / 1000),
+            attempt,
+            max: MAX_RETRIES
+          })
+        }),
+        signal: controller.signal
+      });
+
+      batcher.cancel();
+      const changes = applyResponse(aiResponse);
+      const finalDraft = draft;
+      if (finalDraft?.content.trim()) {
+        updateArtifact(conversationId, current => addArtifactVersion(current, {
+          title: finalDraft.title,
+          language: finalDraft.language,
+          content: finalDraft.content,
+          author: 'ai',
+          messageId: aiMessageId
+        }));
+        if (!changes.content) changes.content = t('chat.canvasUpdated', { title: finalDraft.title || t('canvas.untitled') });
+      }
+      updateMessage(conversationId, aiMessageId, {
+        ...changes,
+        status: controller.signal.aborted ? 'stopped' : 'complete'
+      });
+      setAnnouncement(
+        controller.signal.aborted
+          ? t('chat.announceStopped')
+          : t('chat.announceReply', { text: announcementText(changes.content ?? '') })
+      );
+    } catch (error) {
+      const chatError = classifyError(error);
+      console.error('Error generating AI response:', chatError);
+      batcher.flush();
+      // Any partial text stays visible; the bubble explains the failure and offers a retry
+      const failure: Partial<Message> = { status: 'error', error: { kind: chatError.kind, message: chatError.message } };
+      setAnnouncement(t('chat.announceFailed', { error: t(`error.${chatError.kind}.title`) }));
+      if (streamStarted) {
+        updateMessage(conversationId, aiMessageId, failure);
+      } else {
+        addReply({
+          id: aiMessageId,
+          parentId: question.id,
+          content: '',
+          sender: 'ai',
+          timestamp: new Date(),
+          model,
+          ...failure
+        });
+      }
+    } finally {
+      if (abortControllerRef.current === controller) abortControllerRef.current = null;
+      setLoadingConversationId(null);
+      setRetryNotice(null);
+      setCanvasDraft(current => (current?.conversationId === conversationId ? null : current));
+    }
+  };
 
-    // Add user message
+  // Adds a user turn under `parentId` (as a new branch if it already has children) and answers it
+  const sendUserTurn = async (conversationId: string, parentPath: Message[], turn: Pick<Message, 'content' | 'attachments' | 'options'>) => {
+    const parentId = parentPath.length > 0 ? parentPath[parentPath.length - 1].id : ROOT_ID;
     const userMessage: Message = {
       id: Date.now().toString(),
-      content,
+      parentId,
       sender: 'user',
       timestamp: new Date(),
-      files
+      ...turn
     };
 
-    setMessages(prev => [...prev, userMessage]);
-    setIsLoading(true);
+    // Your own message always brings the list back to the bottom
+    scrollToBottom();
+    updateMessages(conversationId, prev => [...prev, userMessage]);
+    selectBranch(conversationId, parentId, userMessage.id);
+    await generateReply(conversationId, [...parentPath, userMessage], turn.options);
+  };
 
-    try {
-      // Get real AI response
-      const aiResponse = await getAIResponse(content, files);
-      
-      const aiMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        content: aiResponse,
-        sender: 'ai',
-        timestamp: new Date()
-      };
+  const handleSendMessage = async (content: string, files?: File[], options: SendOptions = {}) => {
+    if (!content.trim() && (!files || files.length === 0)) return;
+    if (!activeId) return;
 
-      setMessages(prev => [...prev, aiMessage]);
-    } catch (error) {
-      console.error('Error generating AI response:', error);
-      const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        content: "I apologize, but I encountered an error while processing your message. Please try again.",
-        sender: 'ai',
-        timestamp: new Date()
-      };
-      setMessages(prev => [...prev, errorMessage]);
-    } finally {
-      setIsLoading(false);
+    // Replies land in the conversation they were asked in, even if the user switches away
+    const conversationId = activeId;
+
+    // Attachments are stored by content hash so they survive reloads
+    const attachments = files && files.length > 0 ? await Promise.all(files.map(saveAttachment)) : undefined;
+    await sendUserTurn(conversationId, messages, { content, attachments, options });
+  };
+
+  // Editing a sent message keeps the original and answers the edit on a sibling branch
+  const handleEditMessage = (message: Message, content: string) => {
+    if (!activeId || isLoading || !content.trim()) return;
+    const index = messages.findIndex(item => item.id === message.id);
+    if (index === -1) return;
+    sendUserTurn(activeId, messages.slice(0, index), { content, attachments: message.attachments, options: message.options });
+  };
+
+  // Regenerating asks the same question again; the new reply becomes a sibling of the old one
+  const handleRegenerate = (message: Message) => {
+    if (!activeId || isLoading) return;
+    const index = messages.findIndex(item => item.id === message.id);
+    if (index <= 0) return;
+    const path = messages.slice(0, index);
+    generateReply(activeId, path, path[path.length - 1].options);
+  };
+
+  // A failed reply is replaced by the retry, unless the conversation already continued from it
+  const handleRetry = (message: Message) => {
+    if (!activeId || !activeConversation || isLoading) return;
+    const index = messages.findIndex(item => item.id === message.id);
+    if (index <= 0) return;
+    if (childrenOf(activeConversation.messages, message.id).length === 0) {
+      updateMessages(activeId, prev => prev.filter(item => item.id !== message.id));
     }
+    const path = messages.slice(0, index);
+    generateReply(activeId, path, path[path.length - 1].options);
+  };
+
+  const handleNavigateBranch = (message: Message, direction: -1 | 1) => {
+    if (!activeConversation) return;
+    const { index, siblings } = branchPosition(activeConversation.messages, message);
+    const target = siblings[index - 1 + direction];
+    if (target) selectBranch(activeConversation.id, message.parentId ?? ROOT_ID, target.id);
   };
 
-  const copyMessage = async (content: string, messageId: string) => {
+  // Bubbles are memoized, so they get stable callbacks that forward to the latest handlers
+  const messageActionsRef = useRef({ edit: handleEditMessage, regenerate: handleRegenerate, retry: handleRetry, navigate: handleNavigateBranch });
+  messageActionsRef.current = { edit: handleEditMessage, regenerate: handleRegenerate, retry: handleRetry, navigate: handleNavigateBranch };
+  const editMessage = useCallback((message: Message, content: string) => messageActionsRef.current.edit(message, content), []);
+  const regenerateMessage = useCallback((message: Message) => messageActionsRef.current.regenerate(message), []);
+  const retryMessage = useCallback((message: Message) => messageActionsRef.current.retry(message), []);
+  const navigateBranch = useCallback((message: Message, direction: -1 | 1) => messageActionsRef.current.navigate(message, direction), []);
+
+  const handleStop = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  const copyMessage = useCallback(async (content: string, messageId: string) => {
     try {
       await navigator.clipboard.writeText(content);
       setCopiedId(messageId);
@@ -199,207 +589,311 @@ const ChatInterface: React.FC = () => {
     } catch (error) {
       console.error('Failed to copy message:', error);
     }
-  };
+  }, []);
 
-  const formatTime = (date: Date) => {
-    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-  };
+  const isStreaming = messages.some(message => message.status === 'streaming');
 
-  return (
-    <div className="flex flex-col h-screen max-w-4xl mx-auto bg-transparent">
-      {/* Header */}
-      <div className="flex-shrink-0 p-6 border-b border-white/10 flex justify-center items-center">
-        <motion.h1 
-          className="text-4xl md:text-6xl font-black text-white tracking-wider select-none"
-          style={{
-            textShadow: `
-              0 1px 0 #ccc,
-              0 2px 0 #c9c9c9,
-              0 3px 0 #bbb,
-              0 4px 0 #b9b9b9,
-              0 5px 0 #aaa,
-              0 6px 1px rgba(0,0,0,.1),
-              0 0 5px rgba(0,0,0,.1),
-              0 1px 3px rgba(0,0,0,.3),
-              0 3px 5px rgba(0,0,0,.2),
-              0 5px 10px rgba(0,0,0,.25),
-              0 10px 10px rgba(0,0,0,.2),
-              0 20px 20px rgba(0,0,0,.15)
-            `
-          }}
-          initial={{ y: -50, opacity: 0, scale: 0.8 }}
-          animate={{ y: 0, opacity: 1, scale: 1 }}
-          transition={{ 
-            duration: 1.2,
-            ease: "easeOut",
-            type: "spring",
-            stiffness: 100
-          }}
-          whileHover={{ 
-            scale: 1.05,
-            textShadow: `
-              0 1px 0 #ddd,
-              0 2px 0 #d9d9d9,
-              0 3px 0 #ccc,
-              0 4px 0 #c9c9c9,
-              0 5px 0 #bbb,
-              0 6px 1px rgba(0,0,0,.2),
-              0 0 8px rgba(0,0,0,.2),
-              0 1px 3px rgba(0,0,0,.4),
-              0 3px 5px rgba(0,0,0,.3),
-              0 5px 10px rgba(0,0,0,.35),
-              0 10px 10px rgba(0,0,0,.3),
-              0 20px 20px rgba(0,0,0,.25)
-            `,
-            transition: { duration: 0.3 }
-          }}
-        >
-          <motion.span
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            transition={{ delay: 0.5, duration: 0.8 }}
-          >
-            MANDOBOT
-          </motion.span>
-          {" "}
-          <motion.span
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            transition={{ delay: 0.8, duration: 0.8 }}
-            className="bg-gradient-to-r from-blue-400 via-purple-500 to-pink-500 bg-clip-text text-transparent"
-          >
-            PRIME
-          </motion.span>
-        </motion.h1>
-      </div>
+  const activeArtifact = activeConversation?.artifact;
+  const activeDraft = canvasDraft?.conversationId === activeId ? canvasDraft.draft : undefined;
+  const showCanvas = isCanvasOpen && (!!activeArtifact || !!activeDraft);
 
-      {/* Chat Messages */}
-      <div 
-        ref={chatContainerRef}
-        className="flex-1 overflow-y-auto p-6 space-y-6"
-        style={{ 
-          scrollbarWidth: 'thin',
-          scrollbarColor: '#444444 transparent'
-        }}
-      >
-        {messages.length === 0 ? (
-          <div className="flex flex-col items-center justify-center h-full text-center">
-            <div className="w-16 h-16 bg-gradient-to-br from-purple-500 to-blue-500 rounded-full flex items-center justify-center mb-4">
-              <Bot className="w-8 h-8 text-white" />
-            </div>
-            <h2 className="text-xl font-semibold text-white mb-2">Start a conversation</h2>
-            <p className="text-gray-400 max-w-md">
-              Ask me anything! I can help with questions, provide information, or just have a friendly chat.
-              Try using different modes like Search, Think, or Canvas.
-            </p>
+  // Which canvas version each reply produced, for the "Open in canvas" links
+  const artifactVersions = useMemo(() => {
+    const versions = new Map<string, number>();
+    activeArtifact?.versions.forEach((version, index) => {
+      if (version.messageId) versions.set(version.messageId, index + 1);
+    });
+    return versions;
+  }, [activeArtifact]);
+
+  const openArtifactVersion = useCallback((version: number) => {
+    setCanvasVersion(version);
+    setIsCanvasOpen(true);
+  }, []);
+
+  const saveCanvasEdit = useCallback((content: string) => {
+    if (!activeId) return;
+    updateArtifact(activeId, current => addArtifactVersion(current, {
+      title: current?.title ?? '',
+      language: current?.language ?? 'text',
+      content,
+      author: 'user'
+    }));
+    setCanvasVersion(null);
+  }, [activeId, updateArtifact]);
+
+  const handleSettingsChange = useCallback((next: GenerationSettings) => {
+    if (activeId) updateSettings(activeId, next);
+  }, [activeId, updateSettings]);
+
+  const handleNewConversation = useCallback(() => {
+    newConversation();
+    setCanvasVersion(null);
+    if (window.innerWidth < 768) setIsSidebarOpen(false);
+  }, [newConversation]);
+
+  const handleSelectConversation = useCallback((id: string) => {
+    selectConversation(id);
+    setCanvasVersion(null);
+    if (window.innerWidth < 768) setIsSidebarOpen(false);
+  }, [selectConversation]);
+
+  const handleOpenMessage = useCallback((conversationId: string, messageId: string) => {
+    pendingScrollRef.current = messageId;
+    selectConversation(conversationId);
+    // The match may sit on a branch that is not currently shown
+    revealMessage(conversationId, messageId);
+    if (window.innerWidth < 768) setIsSidebarOpen(false);
+  }, [selectConversation, revealMessage]);
+
+  const handleExport = useCallback(async (ids: string[] | null, format: ExportFormat, options: TextExportOptions) => {
+    const selected = conversations.filter(conversation =>
+      ids ? ids.includes(conversation.id) : conversation.messages.length > 0
+    );
+    if (selected.length === 0) return;
+    await exportConversations(selected, format, options);
+  }, [conversations]);
+
+  const handleImport = useCallback(async (file: File) => {
+    const data = parseConversationExport(await file.text());
+    const result = await restoreConversations(data, conversations);
+    await addConversations(result.conversations);
+
+    const summary = t('chat.imported', { count: result.conversations.length });
+    return result.skipped > 0 ? `${summary} ${t('chat.importSkipped', { count: result.skipped })}` : summary;
+  }, [conversations, addConversations, t]);
+
+  const commandActions = useMemo<AppCommandActions>(() => ({
+    newConversation: handleNewConversation,
+    clearConversation: () => {
+      if (activeId) clearMessages(activeId);
+    },
+    exportConversation: format => {
+      if (activeId) handleExport([activeId], format, {}).catch(error => console.error('Export failed:', error));
+    }
+  }), [activeId, handleNewConversation, clearMessages, handleExport]);
+
+  const paletteActions = useMemo<AppPaletteActions>(() => ({
+    conversations: conversations.map(conversation => ({ id: conversation.id, title: conversationTitle(conversation, t('chat.untitled')) })),
+    activeConversationId: activeId,
+    openConversation: handleSelectConversation,
+    copyLastReply: () => {
+      const reply = [...messages].reverse().find(message => message.sender === 'ai' && message.content);
+      if (reply) copyMessage(reply.content, reply.id);
+    }
+  }), [conversations, activeId, handleSelectConversation, messages, copyMessage, t]);
+
+  // Arrow keys, Home and End move focus between messages while a message itself is focused.
+  // Most messages are not rendered, so the next one is scrolled to and focused once it mounts.
+  const handleMessageListKeyDown = useCallback((e: React.KeyboardEvent<HTMLDivElement>) => {
+    const target = e.target as HTMLElement;
+    if (!MESSAGE_NAVIGATION_KEYS.includes(e.key) || !target.matches('[data-message-id]')) return;
+    e.preventDefault();
+    const index = messageIds.indexOf(target.dataset.messageId ?? '');
+    const next = e.key === 'Home' ? 0 : e.key === 'End' ? messageIds.length - 1 : index + (e.key === 'ArrowDown' ? 1 : -1);
+    const id = messageIds[Math.max(0, Math.min(messageIds.length - 1, next))];
+    if (!id || id === target.dataset.messageId) return;
+    pendingFocusRef.current = id;
+    setFocusedMessageId(id);
+    scrollToKey(id, 'nearest');
+  }, [messageIds, scrollToKey]);
+
+  // The message holding focus, or the control inside it, stays mounted while scrolled away
+  const handleMessageListFocus = useCallback((e: React.FocusEvent<HTMLDivElement>) => {
+    const id = (e.target as HTMLElement).closest<HTMLElement>('[data-message-id]')?.dataset.messageId;
+    if (id) setFocusedMessageId(id);
+  }, []);
+
+  return (
+    <MotionConfig reducedMotion="user">
+      <div className="flex h-screen">
+        <ConversationSidebar
+          conversations={conversations}
+          activeId={activeId}
+          isOpen={isSidebarOpen}
+          onToggle={() => setIsSidebarOpen(open => !open)}
+          onNew={handleNewConversation}
+          onSelect={handleSelectConversation}
+          onRename={renameConversation}
+          onDelete={removeConversation}
+          onExport={handleExport}
+          onImport={handleImport}
+          onOpenMessage={handleOpenMessage}
+          theme={theme}
+        />
+        <div className="flex-1 min-w-0 flex flex-col h-screen max-w-4xl mx-auto bg-transparent">
+          {/* Header */}
+          <div className="flex-shrink-0 p-6 border-b border-fg/10 flex justify-center items-center">
+            <motion.h1 
+              className="title-extruded text-4xl md:text-6xl font-black text-fg tracking-wider select-none"
+              initial={{ y: -50, opacity: 0, scale: 0.8 }}
+              animate={{ y: 0, opacity: 1, scale: 1 }}
+              transition={{ 
+                duration: 1.2,
+                ease: "easeOut",
+                type: "spring",
+                stiffness: 100
+              }}
+              whileHover={{ 
+                scale: 1.05,
+                transition: { duration: 0.3 }
+              }}
+            >
+              <motion.span
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                transition={{ delay: 0.5, duration: 0.8 }}
+              >
+                MANDOBOT
+              </motion.span>
+              {" "}
+              <motion.span
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                transition={{ delay: 0.8, duration: 0.8 }}
+                className="bg-gradient-to-r from-blue-400 via-purple-500 to-pink-500 bg-clip-text text-transparent"
+              >
+                PRIME
+              </motion.span>
+            </motion.h1>
           </div>
-        ) : (
-          messages.map((message) => (
+
+          {/* Chat Messages */}
+          <div className="relative flex-1 min-h-0">
             <div
-              key={message.id}
-              className={`flex gap-4 ${
-                message.sender === 'user' ? 'justify-end' : 'justify-start'
-              }`}
+              ref={messageList.scrollRef}
+              className="relative h-full overflow-y-auto"
+              style={{
+                scrollbarWidth: 'thin',
+                scrollbarColor: 'rgb(var(--color-line-strong)) transparent',
+                // The list keeps its own place when messages above change height
+                overflowAnchor: 'none'
+              }}
+              role="region"
+              aria-label={t('chat.messages')}
+              aria-describedby="message-list-hint"
+              onKeyDown={handleMessageListKeyDown}
+              onFocus={handleMessageListFocus}
             >
-              {message.sender === 'ai' && (
-                <div className="flex-shrink-0 w-8 h-8 bg-gradient-to-br from-purple-500 to-blue-500 rounded-full flex items-center justify-center">
-                  <Bot className="w-4 h-4 text-white" />
-                </div>
-              )}
-              
-              <div
-                className={`max-w-[80%] rounded-2xl px-4 py-3 ${
-                  message.sender === 'user'
-                    ? 'bg-white text-black'
-                    : 'bg-[#1F2023] text-gray-100 border border-[#333333]'
-                }`}
-              >
-                {/* Message Files */}
-                {message.files && message.files.length > 0 && (
-                  <div className="mb-3 flex flex-wrap gap-2">
-                    {message.files.map((file, index) => (
-                      <div key={index} className="text-xs bg-black/20 px-2 py-1 rounded">
-                        📎 {file.name}
-                      </div>
-                    ))}
+              <div ref={messageList.contentRef} className="flex min-h-full flex-col p-6 space-y-6">
+                <p id="message-list-hint" className="sr-only">
+                  {t('chat.messagesHint')}
+                </p>
+                {messages.length === 0 ? (
+                  <div className="flex flex-1 flex-col items-center justify-center text-center">
+                    <div className="w-16 h-16 bg-gradient-to-br from-purple-500 to-blue-500 rounded-full flex items-center justify-center mb-4">
+                      <Bot className="w-8 h-8 text-white" />
+                    </div>
+                    <h2 className="text-xl font-semibold text-fg mb-2">{t('chat.emptyTitle')}</h2>
+                    <p className="text-fg-muted max-w-md">{t('chat.emptyBody')}</p>
+                  </div>
+                ) : (
+                  <div ref={messageList.listRef} className="relative" style={{ height: messageList.totalSize }}>
+                    {messageList.items.map(({ key, index, offset }) => {
+                      const message = messages[index];
+                      const branch = branchPosition(activeConversation?.messages ?? [], message);
+                      return (
+                        <div
+                          key={key}
+                          ref={messageList.measureElement}
+                          data-virtual-key={key}
+                          className={`absolute inset-x-0 top-0 ${index > 0 ? 'pt-6' : ''}`}
+                          style={{ transform: `translateY(${offset}px)` }}
+                        >
+                          <MessageBubble
+                            message={message}
+                            copied={copiedId === message.id}
+                            onCopy={copyMessage}
+                            artifactVersion={artifactVersions.get(message.id)}
+                            onOpenArtifact={openArtifactVersion}
+                            branchIndex={branch.index}
+                            branchCount={branch.count}
+                            onNavigateBranch={navigateBranch}
+                            onEdit={editMessage}
+                            onRegenerate={regenerateMessage}
+                            onRetry={retryMessage}
+                            statusLabel={retryNotice?.messageId === message.id ? retryNotice.text : undefined}
+                            canModify={!isLoading}
+                            highlighted={flashedMessageId === message.id}
+                            isFocusTarget={focusTargetId === message.id}
+                          />
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+
+                {/* Loading Indicator */}
+                {loadingConversationId === activeId && !isStreaming && (
+                  <div className="flex gap-4 justify-start">
+                    <div className="flex-shrink-0 w-8 h-8 bg-gradient-to-br from-purple-500 to-blue-500 rounded-full flex items-center justify-center">
+                      <Bot className="w-4 h-4 text-white" />
+                    </div>
+                    <div className="bg-surface text-fg border border-line rounded-2xl px-4 py-3">
+                      <TypingDots label={loadingLabel} />
+                    </div>
                   </div>
                 )}
-                
-                {/* Message Content */}
-                <div className="whitespace-pre-wrap break-words">
-                  {message.content}
-                </div>
-                
-                {/* Message Footer */}
-                <div className={`flex items-center justify-between mt-2 pt-2 border-t ${
-                  message.sender === 'user' 
-                    ? 'border-black/10' 
-                    : 'border-white/10'
-                }`}>
-                  <span className={`text-xs ${
-                    message.sender === 'user' 
-                      ? 'text-black/60' 
-                      : 'text-gray-400'
-                  }`}>
-                    {formatTime(message.timestamp)}
-                  </span>
-                  
-                  <button
-                    onClick={() => copyMessage(message.content, message.id)}
-                    className={`p-1 rounded transition-colors ${
-                      message.sender === 'user'
-                        ? 'hover:bg-black/10 text-black/60 hover:text-black'
-                        : 'hover:bg-white/10 text-gray-400 hover:text-white'
-                    }`}
-                    title="Copy message"
-                  >
-                    {copiedId === message.id ? (
-                      <Check className="w-3 h-3" />
-                    ) : (
-                      <Copy className="w-3 h-3" />
-                    )}
-                  </button>
-                </div>
               </div>
-              
-              {message.sender === 'user' && (
-                <div className="flex-shrink-0 w-8 h-8 bg-white rounded-full flex items-center justify-center">
-                  <User className="w-4 h-4 text-black" />
-                </div>
-              )}
             </div>
-          ))
-        )}
-        
-        {/* Loading Indicator */}
-        {isLoading && (
-          <div className="flex gap-4 justify-start">
-            <div className="flex-shrink-0 w-8 h-8 bg-gradient-to-br from-purple-500 to-blue-500 rounded-full flex items-center justify-center">
-              <Bot className="w-4 h-4 text-white" />
-            </div>
-            <div className="bg-[#1F2023] text-gray-100 border border-[#333333] rounded-2xl px-4 py-3">
-              <div className="flex items-center space-x-2">
-                <div className="flex space-x-1">
-                  <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0ms' }}></div>
-                  <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '150ms' }}></div>
-                  <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '300ms' }}></div>
+
+            {/* Shown when a reply arrives while scrolled up */}
+            <AnimatePresence>
+              {messageList.hasNewContent && (
+                <div className="pointer-events-none absolute inset-x-0 bottom-3 flex justify-center">
+                  <motion.button
+                    type="button"
+                    onClick={scrollToBottom}
+                    initial={{ opacity: 0, y: 8 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, y: 8 }}
+                    transition={{ duration: 0.15 }}
+                    className="pointer-events-auto flex items-center gap-1.5 rounded-full border border-line-strong bg-surface-raised px-3 py-1.5 text-xs text-fg shadow-lg hover:bg-surface-hover transition-colors"
+                  >
+                    <ArrowDown className="w-3.5 h-3.5" />
+                    {t('chat.jumpToLatest')}
+                  </motion.button>
                 </div>
-                <span className="text-sm text-gray-400">Thinking...</span>
-              </div>
-            </div>
+              )}
+            </AnimatePresence>
           </div>
-        )}
-      </div>
 
-      {/* Input Area */}
-      <div className="flex-shrink-0 p-6">
-        <PromptInputBox
-          onSend={handleSendMessage}
-          isLoading={isLoading}
-          placeholder="Type your message here..."
-        />
+          {/* Input Area */}
+          <div className="flex-shrink-0 p-6">
+            <PromptInputBox
+              onSend={handleSendMessage}
+              isLoading={isLoading}
+              onStop={handleStop}
+              placeholder={t('chat.placeholder')}
+              settings={settings}
+              models={models}
+              defaultModel={provider.defaultModel}
+              onSettingsChange={handleSettingsChange}
+              transcriber={transcriber}
+              commands={SLASH_COMMANDS}
+              commandActions={commandActions}
+              templates={promptTemplates}
+              contextUsage={contextUsage}
+              shortcuts={shortcuts}
+              paletteActions={paletteActions}
+            />
+          </div>
+        </div>
+        {showCanvas && (
+          <CanvasPanel
+            artifact={activeArtifact}
+            draft={activeDraft}
+            version={canvasVersion}
+            onSelectVersion={setCanvasVersion}
+            onSave={saveCanvasEdit}
+            onClose={() => setIsCanvasOpen(false)}
+          />
+        )}
+        <div role="status" aria-live="polite" className="sr-only">
+          {announcement}
+        </div>
       </div>
-    </div>
+    </MotionConfig>
   );
 };
 
@@ -0,0 +1,108 @@
+import React, { useEffect, useId, useRef, useState } from 'react';
+import { Search } from 'lucide-react';
+import { Dialog, DialogContent, DialogTitle, cn } from './ui/ai-prompt-box';
+import ShortcutKeys from './ShortcutKeys';
+import { useI18n } from '../hooks/useI18n';
+import { filterPaletteItems, type PaletteItem } from '../lib/commands';
+import type { ShortcutBindings } from '../lib/shortcuts';
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  items: PaletteItem[];
+  bindings?: ShortcutBindings;
+}
+
+// Ctrl/Cmd+K palette listing every action the composer and chat view offer
+const CommandPalette: React.FC<CommandPaletteProps> = ({ open, onOpenChange, items, bindings }) => {
+  const { t } = useI18n();
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listId = useId();
+  const listRef = useRef<HTMLUListElement>(null);
+  const visible = filterPaletteItems(items, query);
+  const active = Math.min(activeIndex, visible.length - 1);
+
+  useEffect(() => {
+    if (!open) return;
+    setQuery('');
+    setActiveIndex(0);
+  }, [open]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`#${CSS.escape(`${listId}-${active}`)}`)?.scrollIntoView({ block: 'nearest' });
+  }, [active, listId]);
+
+  const runItem = (item: PaletteItem) => {
+    onOpenChange(false);
+    item.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (visible.length === 0) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex((active + step + visible.length) % visible.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      runItem(visible[active]);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[90vw] md:max-w-lg gap-0 overflow-hidden">
+        <DialogTitle className="sr-only">{t('palette.title')}</DialogTitle>
+        <div className="flex items-center gap-2 border-b border-line py-3 ps-4 pe-14">
+          <Search className="h-4 w-4 flex-shrink-0 text-fg-muted" />
+          <input
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setActiveIndex(0);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder={t('palette.placeholder')}
+            className="flex-1 bg-transparent text-sm text-fg placeholder:text-fg-subtle focus:outline-none"
+            role="combobox"
+            aria-expanded
+            aria-controls={listId}
+            aria-activedescendant={visible.length > 0 ? `${listId}-${active}` : undefined}
+          />
+        </div>
+        {visible.length === 0 ? (
+          <p className="px-4 py-6 text-center text-sm text-fg-subtle">{t('palette.noResults')}</p>
+        ) : (
+          <ul ref={listRef} id={listId} role="listbox" className="max-h-80 overflow-y-auto py-1">
+            {visible.map((item, index) => (
+              <React.Fragment key={item.id}>
+                {(index === 0 || visible[index - 1].group !== item.group) && (
+                  <li role="presentation" className="px-4 pb-1 pt-2 text-[11px] font-medium uppercase tracking-wide text-fg-subtle">
+                    {item.group}
+                  </li>
+                )}
+                <li
+                  id={`${listId}-${index}`}
+                  role="option"
+                  aria-selected={index === active}
+                  onClick={() => runItem(item)}
+                  onMouseMove={() => setActiveIndex(index)}
+                  className={cn(
+                    'flex cursor-pointer items-center justify-between gap-3 px-4 py-2 text-sm',
+                    index === active ? 'bg-fg/10 text-fg' : 'text-fg-soft'
+                  )}
+                >
+                  <span className="truncate">{item.label}</span>
+                  {item.shortcut && bindings?.[item.shortcut] && <ShortcutKeys keys={bindings[item.shortcut]} />}
+                </li>
+              </React.Fragment>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CommandPalette;
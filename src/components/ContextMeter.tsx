@@ -0,0 +1,63 @@
+import React from 'react';
+import { PromptInputAction, cn } from './ui/ai-prompt-box';
+import { useI18n } from '../hooks/useI18n';
+import { CONTEXT_WARNING_RATIO, formatTokenCount, type ContextUsage } from '../lib/tokens';
+
+interface ContextMeterProps {
+  draftTokens: number;
+  usage: ContextUsage;
+}
+
+const CONTEXT_RING_RADIUS = 7;
+const CONTEXT_RING_LENGTH = 2 * Math.PI * CONTEXT_RING_RADIUS;
+
+// Ring showing how much of the model's context window the next request would use
+const ContextMeter: React.FC<ContextMeterProps> = ({ draftTokens, usage }) => {
+  const { t } = useI18n();
+  const total = usage.historyTokens + draftTokens;
+  const ratio = total / usage.limit;
+  const tone = ratio > 1 ? 'text-red-400' : ratio >= CONTEXT_WARNING_RATIO ? 'text-amber-400' : 'text-fg-muted';
+  return (
+    <PromptInputAction
+      tooltip={
+        <div className="space-y-0.5">
+          <p>{t('context.draft', { count: formatTokenCount(draftTokens) })}</p>
+          <p>{t('context.history', { count: formatTokenCount(usage.historyTokens) })}</p>
+          <p>
+            {t('context.total', {
+              total: formatTokenCount(total),
+              limit: formatTokenCount(usage.limit),
+              percent: Math.round(ratio * 100),
+            })}
+          </p>
+        </div>
+      }
+    >
+      <button
+        type="button"
+        className={cn('flex h-8 items-center gap-1.5 rounded-full px-2 text-xs tabular-nums transition-colors hover:bg-fg-subtle/30', tone)}
+        aria-label={t('context.label', { total: formatTokenCount(total), limit: formatTokenCount(usage.limit) })}
+      >
+        <svg viewBox="0 0 18 18" className="h-4 w-4 -rotate-90" aria-hidden="true">
+          <circle cx="9" cy="9" r={CONTEXT_RING_RADIUS} fill="none" stroke="currentColor" strokeOpacity={0.25} strokeWidth={2} />
+          <circle
+            cx="9"
+            cy="9"
+            r={CONTEXT_RING_RADIUS}
+            fill="none"
+            stroke="currentColor"
+            strokeWidth={2}
+            strokeLinecap="round"
+            strokeDasharray={CONTEXT_RING_LENGTH}
+            strokeDashoffset={CONTEXT_RING_LENGTH * (1 - Math.min(ratio, 1))}
+          />
+        </svg>
+        <span className="hidden sm:inline">
+          {formatTokenCount(total)}/{formatTokenCount(usage.limit)}
+        </span>
+      </button>
+    </PromptInputAction>
+  );
+};
+
+export default ContextMeter;
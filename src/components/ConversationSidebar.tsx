@@ -0,0 +1,291 @@
+import React, { useRef, useState } from 'react';
+import { Download, MessageSquare, Palette, PanelLeftClose, PanelLeftOpen, Pencil, Plus, Trash2, Upload } from 'lucide-react';
+import type { Conversation } from '../types/chat';
+import { conversationTitle } from '../lib/storage/conversations';
+import type { ExportFormat, TextExportOptions } from '../lib/export';
+import type { ThemeSettings } from '../hooks/useTheme';
+import { useI18n } from '../hooks/useI18n';
+import { LocalizedError } from '../lib/i18n';
+import MessageSearch from './MessageSearch';
+import ThemeMenu from './ThemeMenu';
+
+interface ConversationSidebarProps {
+  conversations: Conversation[];
+  activeId: string | null;
+  isOpen: boolean;
+  onToggle: () => void;
+  onNew: () => void;
+  onSelect: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  // Exports the given conversations; null means all of them
+  onExport: (ids: string[] | null, format: ExportFormat, options: TextExportOptions) => Promise<void>;
+  // Resolves with a short summary of what was imported
+  onImport: (file: File) => Promise<string>;
+  // Opens a search result: the conversation, scrolled to the message
+  onOpenMessage: (conversationId: string, messageId: string) => void;
+  theme: ThemeSettings;
+}
+
+const EXPORT_FORMATS: ExportFormat[] = ['markdown', 'json', 'html'];
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat, options: TextExportOptions) => void;
+  onClose: () => void;
+  className?: string;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ onExport, onClose, className = '' }) => {
+  const { t } = useI18n();
+  const [includeReasoning, setIncludeReasoning] = useState(false);
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40" onClick={onClose} />
+      <div className={`absolute z-50 w-52 rounded-lg border border-line-strong bg-surface p-1 text-sm shadow-xl ${className}`}>
+        {EXPORT_FORMATS.map((format) => (
+          <button
+            key={format}
+            onClick={() => {
+              onExport(format, { includeReasoning });
+              onClose();
+            }}
+            className="block w-full rounded px-3 py-1.5 text-start text-fg-soft hover:bg-fg/10"
+          >
+            {t(`export.${format}`)}
+          </button>
+        ))}
+        {/* JSON is a full backup and always keeps reasoning */}
+        <label className="flex items-center gap-2 border-t border-fg/10 mt-1 px-3 pt-2 pb-1 text-xs text-fg-muted">
+          <input type="checkbox" checked={includeReasoning} onChange={(e) => setIncludeReasoning(e.target.checked)} />
+          {t('export.includeReasoning')}
+        </label>
+      </div>
+    </>
+  );
+};
+
+const ConversationSidebar: React.FC<ConversationSidebarProps> = ({
+  conversations,
+  activeId,
+  isOpen,
+  onToggle,
+  onNew,
+  onSelect,
+  onRename,
+  onDelete,
+  onExport,
+  onImport,
+  onOpenMessage,
+  theme,
+}) => {
+  const { t } = useI18n();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  // Id of the conversation whose export menu is open, or 'all' for the footer menu
+  const [exportMenu, setExportMenu] = useState<string | null>(null);
+  const [isThemeMenuOpen, setIsThemeMenuOpen] = useState(false);
+  const [notice, setNotice] = useState<{ text: string; isError: boolean } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // Hide chats that were opened but never used, except the one being shown
+  const visible = conversations
+    .filter((conversation) => conversation.messages.length > 0 || conversation.title || conversation.id === activeId)
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+
+  const startEditing = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setDraftTitle(conversationTitle(conversation, t('chat.untitled')));
+  };
+
+  const commitEditing = () => {
+    if (editingId) onRename(editingId, draftTitle);
+    setEditingId(null);
+  };
+
+  const handleDelete = (conversation: Conversation) => {
+    if (window.confirm(t('sidebar.confirmDelete', { title: conversationTitle(conversation, t('chat.untitled')) }))) {
+      onDelete(conversation.id);
+    }
+  };
+
+  const runExport = async (ids: string[] | null, format: ExportFormat, options: TextExportOptions) => {
+    try {
+      await onExport(ids, format, options);
+      setNotice(null);
+    } catch (error) {
+      console.error('Export failed:', error);
+      setNotice({ text: t('sidebar.exportFailed'), isError: true });
+    }
+  };
+
+  const runImport = async (file: File) => {
+    try {
+      setNotice({ text: await onImport(file), isError: false });
+    } catch (error) {
+      console.error('Import failed:', error);
+      setNotice({ text: error instanceof LocalizedError ? t(error.text.key, error.text.params) : t('sidebar.importFailed'), isError: true });
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <div className="flex-shrink-0 p-3">
+        <button
+          onClick={onToggle}
+          className="p-2 rounded-lg text-fg/80 hover:text-fg hover:bg-fg/10 transition-colors"
+          title={t('sidebar.show')}
+        >
+          <PanelLeftOpen className="w-5 h-5 rtl:-scale-x-100" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {/* Mobile backdrop */}
+      <div className="fixed inset-0 z-30 bg-black/40 md:hidden" onClick={onToggle} />
+
+      <aside className="fixed inset-y-0 start-0 z-40 w-72 md:static md:z-auto flex-shrink-0 flex flex-col bg-surface/95 md:bg-surface/80 border-e border-line backdrop-blur-sm">
+        <div className="flex items-center justify-between gap-2 p-3 border-b border-fg/10">
+          <button
+            onClick={onNew}
+            className="flex-1 flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-fg border border-line-strong hover:bg-surface-hover transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            {t('sidebar.newChat')}
+          </button>
+          <button
+            onClick={onToggle}
+            className="p-2 rounded-lg text-fg-muted hover:text-fg hover:bg-fg/10 transition-colors"
+            title={t('sidebar.hide')}
+          >
+            <PanelLeftClose className="w-5 h-5 rtl:-scale-x-100" />
+          </button>
+        </div>
+
+        <MessageSearch conversations={conversations} onOpenMessage={onOpenMessage}>
+          <nav className="flex-1 overflow-y-auto p-2 space-y-1" style={{ scrollbarWidth: 'thin', scrollbarColor: 'rgb(var(--color-line-strong)) transparent' }}>
+            {visible.map((conversation) => (
+              <div
+                key={conversation.id}
+                className={`group flex items-center gap-2 rounded-lg px-2 py-2 text-sm transition-colors ${
+                  conversation.id === activeId ? 'bg-fg/10 text-fg' : 'text-fg-soft hover:bg-fg/5'
+                }`}
+              >
+                <MessageSquare className="w-4 h-4 flex-shrink-0 text-fg-muted" />
+                {editingId === conversation.id ? (
+                  <input
+                    autoFocus
+                    value={draftTitle}
+                    onChange={(e) => setDraftTitle(e.target.value)}
+                    onBlur={commitEditing}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitEditing();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="flex-1 min-w-0 bg-transparent border-b border-line-strong text-fg focus:outline-none"
+                  />
+                ) : (
+                  <button
+                    onClick={() => onSelect(conversation.id)}
+                    className="flex-1 min-w-0 text-start truncate"
+                    title={conversationTitle(conversation, t('chat.untitled'))}
+                  >
+                    {conversationTitle(conversation, t('chat.untitled'))}
+                  </button>
+                )}
+                <div className={`relative flex items-center group-hover:opacity-100 focus-within:opacity-100 transition-opacity ${
+                  exportMenu === conversation.id ? 'opacity-100' : 'opacity-0'
+                }`}>
+                  <button
+                    onClick={() => setExportMenu(conversation.id)}
+                    className="p-1 rounded text-fg-muted hover:text-fg hover:bg-fg/10"
+                    title={t('sidebar.export')}
+                  >
+                    <Download className="w-3.5 h-3.5" />
+                  </button>
+                  {exportMenu === conversation.id && (
+                    <ExportMenu
+                      className="end-0 top-full mt-1"
+                      onExport={(format, options) => runExport([conversation.id], format, options)}
+                      onClose={() => setExportMenu(null)}
+                    />
+                  )}
+                  <button
+                    onClick={() => startEditing(conversation)}
+                    className="p-1 rounded text-fg-muted hover:text-fg hover:bg-fg/10"
+                    title={t('sidebar.rename')}
+                  >
+                    <Pencil className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(conversation)}
+                    className="p-1 rounded text-fg-muted hover:text-red-400 hover:bg-fg/10"
+                    title={t('sidebar.delete')}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </nav>
+        </MessageSearch>
+
+        <div className="border-t border-fg/10 p-3 space-y-2">
+          {notice && (
+            <p className={`text-xs ${notice.isError ? 'text-red-400' : 'text-fg-muted'}`}>{notice.text}</p>
+          )}
+          <div className="relative flex gap-2">
+            <button
+              onClick={() => setExportMenu('all')}
+              className="flex-1 flex items-center justify-center gap-2 px-3 py-1.5 rounded-lg text-xs text-fg-soft border border-line-strong hover:bg-fg/5 transition-colors"
+            >
+              <Download className="w-3.5 h-3.5" />
+              {t('sidebar.exportAll')}
+            </button>
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="flex-1 flex items-center justify-center gap-2 px-3 py-1.5 rounded-lg text-xs text-fg-soft border border-line-strong hover:bg-fg/5 transition-colors"
+              title={t('sidebar.importHint')}
+            >
+              <Upload className="w-3.5 h-3.5" />
+              {t('sidebar.import')}
+            </button>
+            <button
+              onClick={() => setIsThemeMenuOpen(true)}
+              className="flex items-center justify-center px-2 py-1.5 rounded-lg text-fg-soft border border-line-strong hover:bg-fg/5 transition-colors"
+              title={t('sidebar.appearance')}
+            >
+              <Palette className="w-3.5 h-3.5" />
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) runImport(file);
+                e.target.value = '';
+              }}
+            />
+            {exportMenu === 'all' && (
+              <ExportMenu
+                className="start-0 bottom-full mb-1"
+                onExport={(format, options) => runExport(null, format, options)}
+                onClose={() => setExportMenu(null)}
+              />
+            )}
+            {isThemeMenuOpen && (
+              <ThemeMenu className="end-0 bottom-full mb-1" theme={theme} onClose={() => setIsThemeMenuOpen(false)} />
+            )}
+          </div>
+        </div>
+      </aside>
+    </>
+  );
+};
+
+export default ConversationSidebar;
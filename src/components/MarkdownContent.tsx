@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import ReactMarkdown, { type Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeHighlight from 'rehype-highlight';
+import { Check, Copy } from 'lucide-react';
+import 'highlight.js/styles/github-dark.css';
+import { useI18n } from '../hooks/useI18n';
+
+interface MarkdownContentProps {
+  content: string;
+  // While streaming, an unterminated code fence is closed so the block renders as code
+  isStreaming?: boolean;
+}
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+
+// Appends a closing fence when the text ends inside an open fenced code block
+const closeOpenFence = (markdown: string) => {
+  let open: string | null = null;
+  for (const line of markdown.split('\n')) {
+    const match = FENCE_PATTERN.exec(line);
+    if (!match) continue;
+    const fence = match[1];
+    if (!open) open = fence;
+    else if (fence[0] === open[0] && fence.length >= open.length && line.trim() === fence) open = null;
+  }
+  if (!open) return markdown;
+  return `${markdown}${markdown.endsWith('\n') ? '' : '\n'}${open}`;
+};
+
+// Flattens rendered children (including highlight spans) back into plain text
+const textOf = (node: React.ReactNode): string => {
+  if (typeof node === 'string' || typeof node === 'number') return String(node);
+  if (Array.isArray(node)) return node.map(textOf).join('');
+  if (React.isValidElement<{ children?: React.ReactNode }>(node)) return textOf(node.props.children);
+  return '';
+};
+
+const languageOf = (node: React.ReactNode) => {
+  const child = React.Children.toArray(node).find(React.isValidElement) as React.ReactElement<{ className?: string }> | undefined;
+  return /language-([\w+#-]+)/.exec(child?.props.className ?? '')?.[1] ?? '';
+};
+
+const CodeBlock: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
+  const { t } = useI18n();
+  const [copied, setCopied] = useState(false);
+  const language = languageOf(children);
+
+  const copyCode = async () => {
+    try {
+      await navigator.clipboard.writeText(textOf(children).replace(/\n$/, ''));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy code:', error);
+    }
+  };
+
+  // Code reads left to right even when the page is mirrored
+  return (
+    <div className="my-3 rounded-lg border border-line bg-code overflow-hidden" dir="ltr">
+      {/* Code blocks stay dark in every theme, to match the highlight colors */}
+      <div className="flex items-center justify-between px-3 py-1.5 border-b border-white/10 text-xs text-gray-400">
+        <span className="font-mono">{language || 'text'}</span>
+        <button
+          onClick={copyCode}
+          className="flex items-center gap-1 p-1 rounded hover:bg-white/10 hover:text-white transition-colors"
+          title={t('code.copy')}
+        >
+          {copied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+          {copied ? t('message.copied') : t('code.copyShort')}
+        </button>
+      </div>
+      <pre className="overflow-x-auto p-3 text-sm text-gray-100 leading-relaxed [&_code.hljs]:p-0 [&_code.hljs]:bg-transparent">{children}</pre>
+    </div>
+  );
+};
+
+const components: Components = {
+  pre: ({ children }) => <CodeBlock>{children}</CodeBlock>,
+  // Fenced blocks always end in a newline, which inline code can never contain
+  code: ({ className, children }) =>
+    className || textOf(children).includes('\n') ? (
+      <code className={`${className ?? ''} font-mono`}>{children}</code>
+    ) : (
+      <code className="rounded bg-fg/10 px-1 py-0.5 font-mono text-[0.9em]">{children}</code>
+    ),
+  h1: ({ children }) => <h1 className="mt-4 mb-2 text-2xl font-bold first:mt-0">{children}</h1>,
+  h2: ({ children }) => <h2 className="mt-4 mb-2 text-xl font-semibold first:mt-0">{children}</h2>,
+  h3: ({ children }) => <h3 className="mt-3 mb-2 text-lg font-semibold first:mt-0">{children}</h3>,
+  p: ({ children }) => <p className="my-2 first:mt-0 last:mb-0">{children}</p>,
+  ul: ({ children }) => <ul className="my-2 ms-5 list-disc space-y-1">{children}</ul>,
+  ol: ({ children }) => <ol className="my-2 ms-5 list-decimal space-y-1">{children}</ol>,
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer" className="text-accent underline hover:text-accent/80">
+      {children}
+    </a>
+  ),
+  blockquote: ({ children }) => (
+    <blockquote className="my-2 border-s-2 border-line-strong ps-3 text-fg-soft">{children}</blockquote>
+  ),
+  table: ({ children }) => (
+    <div className="my-3 overflow-x-auto">
+      <table className="w-full border-collapse text-sm">{children}</table>
+    </div>
+  ),
+  th: ({ children }) => <th className="border border-line-strong bg-fg/5 px-3 py-1.5 text-start font-semibold">{children}</th>,
+  td: ({ children }) => <td className="border border-line-strong px-3 py-1.5">{children}</td>,
+  hr: () => <hr className="my-4 border-fg/10" />,
+};
+
+/**
+ * Renders AI replies as GitHub-flavored Markdown. Raw HTML in the source is
+ * never injected, and unsafe link protocols are stripped by react-markdown.
+ */
+const MarkdownContent: React.FC<MarkdownContentProps> = React.memo(({ content, isStreaming = false }) => (
+  <div className="break-words" dir="auto">
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm]}
+      rehypePlugins={[rehypeHighlight]}
+      components={components}
+      skipHtml
+    >
+      {isStreaming ? closeOpenFence(content) : content}
+    </ReactMarkdown>
+  </div>
+));
+MarkdownContent.displayName = 'MarkdownContent';
+
+export default MarkdownContent;
@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { ImageOff } from 'lucide-react';
+import { FileChip, ImageViewDialog } from './ui/ai-prompt-box';
+import { useAttachmentUrl } from '../hooks/useAttachmentUrl';
+import { isImageFile } from '../lib/attachments';
+import { useI18n } from '../hooks/useI18n';
+import type { MessageAttachment } from '../types/chat';
+
+interface MessageAttachmentsProps {
+  attachments: MessageAttachment[];
+  isUser: boolean;
+}
+
+const ImageThumbnail: React.FC<{ attachment: MessageAttachment; onOpen: (url: string) => void }> = ({ attachment, onOpen }) => {
+  const { t } = useI18n();
+  const { url, error } = useAttachmentUrl(attachment);
+
+  if (error) {
+    return (
+      <div
+        className="flex w-20 h-20 flex-col items-center justify-center gap-1 rounded-xl bg-fg/10 p-1 text-center text-[10px] opacity-70"
+        title={t(error.key, error.params)}
+      >
+        <ImageOff className="w-4 h-4" />
+        <span className="w-full truncate">{attachment.name}</span>
+      </div>
+    );
+  }
+
+  return (
+    <button
+      onClick={() => url && onOpen(url)}
+      className="w-20 h-20 rounded-xl overflow-hidden bg-fg/10"
+      title={attachment.name}
+      aria-label={t('attachment.view', { name: attachment.name })}
+    >
+      {url && <img src={url} alt={attachment.name} className="h-full w-full object-cover" />}
+    </button>
+  );
+};
+
+// Image thumbnails (click to enlarge) followed by chips for documents
+const MessageAttachments: React.FC<MessageAttachmentsProps> = ({ attachments, isUser }) => {
+  const [selectedImage, setSelectedImage] = useState<string | null>(null);
+
+  return (
+    <div className="mb-3 flex flex-wrap gap-2">
+      {attachments.map((attachment, index) =>
+        isImageFile(attachment) ? (
+          <ImageThumbnail key={`${attachment.hash}-${index}`} attachment={attachment} onOpen={setSelectedImage} />
+        ) : (
+          <FileChip
+            key={`${attachment.hash}-${index}`}
+            file={attachment}
+            className={isUser ? 'border-on-accent/10 bg-on-accent/5 text-on-accent' : undefined}
+          />
+        )
+      )}
+      <ImageViewDialog imageUrl={selectedImage} onClose={() => setSelectedImage(null)} />
+    </div>
+  );
+};
+
+export default MessageAttachments;
@@ -0,0 +1,318 @@
+import React, { useState } from 'react';
+import { Copy, User, Bot, Check, FolderCode, ChevronLeft, ChevronRight, Pencil, RefreshCw, AlertTriangle, RotateCcw } from 'lucide-react';
+import MarkdownContent from './MarkdownContent';
+import SourceList from './SourceList';
+import ReasoningPanel from './ReasoningPanel';
+import MessageAttachments from './MessageAttachments';
+import { formatTokenCount } from '../lib/tokens';
+import type { Translator } from '../lib/i18n';
+import { useI18n } from '../hooks/useI18n';
+import type { Message, MessageStats } from '../types/chat';
+
+interface MessageBubbleProps {
+  message: Message;
+  copied: boolean;
+  onCopy: (content: string, messageId: string) => void;
+  // Canvas version this reply produced, if any
+  artifactVersion?: number;
+  onOpenArtifact?: (version: number) => void;
+  // 1-based position among sibling branches, shown as "< 2/3 >" when there is more than one
+  branchIndex?: number;
+  branchCount?: number;
+  onNavigateBranch?: (message: Message, direction: -1 | 1) => void;
+  // Edits of user turns and regenerated replies become new sibling branches
+  onEdit?: (message: Message, content: string) => void;
+  onRegenerate?: (message: Message) => void;
+  // Offered on failed replies
+  onRetry?: (message: Message) => void;
+  // Replaces "Thinking..." while the reply waits, e.g. during a retry
+  statusLabel?: string;
+  // False while a reply is being generated
+  canModify?: boolean;
+  // Flashed after jumping here from search
+  highlighted?: boolean;
+  // The one message in the list reachable with Tab; arrow keys move between the rest
+  isFocusTarget?: boolean;
+}
+
+const formatSeconds = ({ t, formatNumber }: Translator, ms: number) =>
+  t('message.seconds', { seconds: formatNumber(ms / 1000, { minimumFractionDigits: 1, maximumFractionDigits: 1 }) });
+
+// Tooltip for the footer's token count
+const describeStats = (i18n: Translator, stats: MessageStats) =>
+  [
+    i18n.t('message.statsInput', { count: stats.inputTokens }),
+    i18n.t('message.statsOutput', { count: stats.outputTokens }),
+    stats.latencyMs !== undefined && i18n.t('message.statsLatency', { time: formatSeconds(i18n, stats.latencyMs) }),
+    stats.durationMs !== undefined && i18n.t('message.statsDuration', { time: formatSeconds(i18n, stats.durationMs) }),
+    stats.estimated && i18n.t('message.statsEstimated'),
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+const TypingDots: React.FC<{ label?: string }> = ({ label }) => {
+  const { t } = useI18n();
+  return (
+    <div className="flex items-center gap-2">
+      <div className="flex gap-1">
+        <div className="w-2 h-2 bg-fg-muted rounded-full animate-bounce" style={{ animationDelay: '0ms' }}></div>
+        <div className="w-2 h-2 bg-fg-muted rounded-full animate-bounce" style={{ animationDelay: '150ms' }}></div>
+        <div className="w-2 h-2 bg-fg-muted rounded-full animate-bounce" style={{ animationDelay: '300ms' }}></div>
+      </div>
+      <span className="text-sm text-fg-muted">{label ?? t('message.thinking')}</span>
+    </div>
+  );
+};
+
+// Memoized so a streaming reply only re-renders its own bubble
+const MessageBubble: React.FC<MessageBubbleProps> = React.memo(({
+  message,
+  copied,
+  onCopy,
+  artifactVersion,
+  onOpenArtifact,
+  branchIndex = 1,
+  branchCount = 1,
+  onNavigateBranch,
+  onEdit,
+  onRegenerate,
+  onRetry,
+  statusLabel,
+  canModify = true,
+  highlighted = false,
+  isFocusTarget = false,
+}) => {
+  const i18n = useI18n();
+  const { t, formatTime } = i18n;
+  const isStreaming = message.status === 'streaming';
+  const isUser = message.sender === 'user';
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+
+  const startEditing = () => {
+    setDraft(message.content);
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    if (!draft.trim() || draft === message.content) return;
+    onEdit?.(message, draft);
+    setIsEditing(false);
+  };
+
+  const actionClass = `p-1 rounded transition-colors disabled:opacity-40 disabled:pointer-events-none ${
+    isUser
+      ? 'hover:bg-on-accent/10 text-on-accent/60 hover:text-on-accent'
+      : 'hover:bg-fg/10 text-fg-muted hover:text-fg'
+  }`;
+
+  return (
+    <div
+      id={`message-${message.id}`}
+      data-message-id={message.id}
+      role="article"
+      aria-label={t('message.label', {
+        sender: t(isUser ? 'message.you' : 'message.assistant'),
+        time: formatTime(message.timestamp),
+      })}
+      aria-busy={isStreaming}
+      tabIndex={isFocusTarget ? 0 : -1}
+      className={`flex gap-4 rounded-2xl focus:outline-none focus-visible:ring-2 focus-visible:ring-accent/60 ${
+        message.sender === 'user' ? 'justify-end' : 'justify-start'
+      }`}
+    >
+      {message.sender === 'ai' && (
+        <div className="flex-shrink-0 w-8 h-8 bg-gradient-to-br from-purple-500 to-blue-500 rounded-full flex items-center justify-center" aria-hidden="true">
+          <Bot className="w-4 h-4 text-white" />
+        </div>
+      )}
+
+      <div
+        className={`max-w-[80%] rounded-2xl px-4 py-3 transition-shadow duration-500 ${
+          highlighted ? 'ring-2 ring-yellow-400/80' : ''
+        } ${
+          message.sender === 'user'
+            ? 'bg-accent text-on-accent'
+            : message.status === 'error'
+            ? 'bg-surface text-fg border border-red-500/50'
+            : 'bg-surface text-fg border border-line'
+        }`}
+      >
+        {/* Message Files */}
+        {message.attachments && message.attachments.length > 0 && (
+          <MessageAttachments attachments={message.attachments} isUser={message.sender === 'user'} />
+        )}
+
+        {message.reasoning && (
+          <ReasoningPanel reasoning={message.reasoning} isThinking={isStreaming && !message.content} />
+        )}
+
+        {/* Message Content */}
+        {isStreaming && !message.content ? (
+          message.reasoning ? null : <TypingDots label={statusLabel} />
+        ) : message.status === 'stopped' && !message.content ? (
+          <div className="text-sm italic text-fg-muted">{t('message.stoppedEmpty')}</div>
+        ) : message.sender === 'ai' ? (
+          <>
+            <MarkdownContent content={message.content} isStreaming={isStreaming} />
+            {isStreaming && (
+              <span className="inline-block w-2 h-4 mt-1 bg-fg-muted animate-pulse" />
+            )}
+            {artifactVersion !== undefined && onOpenArtifact && (
+              <button
+                onClick={() => onOpenArtifact(artifactVersion)}
+                className="mt-3 flex items-center gap-2 rounded-lg border border-mode-canvas/40 bg-mode-canvas/10 px-3 py-2 text-xs text-mode-canvas hover:bg-mode-canvas/20 transition-colors"
+              >
+                <FolderCode className="w-3 h-3" />
+                {t('message.openCanvas', { version: artifactVersion })}
+              </button>
+            )}
+            {message.sources && message.sources.length > 0 && (
+              <SourceList sources={message.sources} />
+            )}
+            {message.error && (
+              <div role="alert" className={`${message.content ? 'mt-3' : ''} rounded-lg border border-red-500/30 bg-red-500/10 px-3 py-2 text-sm`}>
+                <div className="flex items-center gap-2 font-medium text-red-300">
+                  <AlertTriangle className="w-4 h-4" />
+                  {t(`error.${message.error.kind}.title`)}
+                </div>
+                <p className="mt-1 text-fg-soft">{t(`error.${message.error.kind}.description`)}</p>
+                {message.error.message && (
+                  <p className="mt-1 text-xs text-fg-subtle break-words">{message.error.message}</p>
+                )}
+                {onRetry && (
+                  <button
+                    onClick={() => onRetry(message)}
+                    disabled={!canModify}
+                    className="mt-2 flex items-center gap-1.5 rounded-lg border border-red-500/40 px-3 py-1 text-xs text-red-200 hover:bg-red-500/20 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                  >
+                    <RotateCcw className="w-3 h-3" />
+                    {t('message.retry')}
+                  </button>
+                )}
+              </div>
+            )}
+          </>
+        ) : isEditing ? (
+          <div className="space-y-2">
+            <textarea
+              autoFocus
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  submitEdit();
+                }
+                if (e.key === 'Escape') setIsEditing(false);
+              }}
+              rows={Math.min(10, Math.max(2, draft.split('\n').length))}
+              className="w-full min-w-[16rem] resize-y rounded-lg border border-on-accent/20 bg-accent p-2 text-on-accent focus:outline-none focus:border-on-accent/40"
+            />
+            <div className="flex justify-end gap-2 text-sm">
+              <button
+                onClick={() => setIsEditing(false)}
+                className="rounded-lg px-3 py-1 text-on-accent/70 hover:bg-on-accent/10"
+              >
+                {t('message.cancel')}
+              </button>
+              <button
+                onClick={submitEdit}
+                disabled={!canModify || !draft.trim() || draft === message.content}
+                className="rounded-lg bg-on-accent px-3 py-1 text-accent hover:bg-on-accent/80 disabled:opacity-40"
+              >
+                {t('message.send')}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="whitespace-pre-wrap break-words" dir="auto">
+            {message.content}
+          </div>
+        )}
+
+        {/* Message Footer */}
+        {!isStreaming && !isEditing && (
+          <div className={`flex items-center justify-between mt-2 pt-2 border-t ${
+            message.sender === 'user'
+              ? 'border-on-accent/10'
+              : 'border-fg/10'
+          }`}>
+            <span className={`text-xs ${
+              message.sender === 'user'
+                ? 'text-on-accent/60'
+                : 'text-fg-muted'
+            }`}>
+              {formatTime(message.timestamp)}
+              {message.model && ` · ${message.model}`}
+              {message.stats && (
+                <span title={describeStats(i18n, message.stats)}>
+                  {` · ${message.stats.estimated ? '~' : ''}${t('message.tokenCount', { count: formatTokenCount(message.stats.outputTokens) })}`}
+                  {message.stats.durationMs !== undefined && ` · ${formatSeconds(i18n, message.stats.durationMs)}`}
+                </span>
+              )}
+              {message.status === 'stopped' && ` · ${t('message.stopped')}`}
+            </span>
+
+            <div className="flex items-center gap-1">
+              {branchCount > 1 && onNavigateBranch && (
+                <div className={`flex items-center text-xs tabular-nums ${isUser ? 'text-on-accent/60' : 'text-fg-muted'}`}>
+                  <button
+                    onClick={() => onNavigateBranch(message, -1)}
+                    disabled={branchIndex <= 1 || !canModify}
+                    className={actionClass}
+                    title={t('message.previousVersion')}
+                  >
+                    <ChevronLeft className="w-3 h-3 rtl:-scale-x-100" />
+                  </button>
+                  <span>{branchIndex}/{branchCount}</span>
+                  <button
+                    onClick={() => onNavigateBranch(message, 1)}
+                    disabled={branchIndex >= branchCount || !canModify}
+                    className={actionClass}
+                    title={t('message.nextVersion')}
+                  >
+                    <ChevronRight className="w-3 h-3 rtl:-scale-x-100" />
+                  </button>
+                </div>
+              )}
+
+              {isUser && onEdit && (
+                <button onClick={startEditing} disabled={!canModify} className={actionClass} title={t('message.edit')}>
+                  <Pencil className="w-3 h-3" />
+                </button>
+              )}
+              {!isUser && onRegenerate && (
+                <button onClick={() => onRegenerate(message)} disabled={!canModify} className={actionClass} title={t('message.regenerate')}>
+                  <RefreshCw className="w-3 h-3" />
+                </button>
+              )}
+
+              <button
+                onClick={() => onCopy(message.content, message.id)}
+                className={actionClass}
+                title={t('message.copy')}
+                aria-label={copied ? t('message.copied') : t('message.copy')}
+              >
+                {copied ? (
+                  <Check className="w-3 h-3" />
+                ) : (
+                  <Copy className="w-3 h-3" />
+                )}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {message.sender === 'user' && (
+        <div className="flex-shrink-0 w-8 h-8 bg-accent rounded-full flex items-center justify-center" aria-hidden="true">
+          <User className="w-4 h-4 text-on-accent" />
+        </div>
+      )}
+    </div>
+  );
+});
+MessageBubble.displayName = 'MessageBubble';
+
+export { MessageBubble, TypingDots };
@@ -0,0 +1,170 @@
+import React, { useMemo, useState } from 'react';
+import { Search, SlidersHorizontal, X } from 'lucide-react';
+import type { Conversation, Message } from '../types/chat';
+import { conversationTitle } from '../lib/storage/conversations';
+import { hasActiveFilters, type MessageSearchFilters } from '../lib/message-search';
+import { useMessageSearch } from '../hooks/useMessageSearch';
+import { useI18n } from '../hooks/useI18n';
+
+interface MessageSearchProps {
+  conversations: Conversation[];
+  onOpenMessage: (conversationId: string, messageId: string) => void;
+  // Shown in place of the results while nothing is being searched
+  children: React.ReactNode;
+}
+
+// Form values as typed; dates are yyyy-mm-dd from the date inputs
+interface FilterForm {
+  from: string;
+  to: string;
+  sender: '' | Message['sender'];
+  model: string;
+}
+
+const EMPTY_FORM: FilterForm = { from: '', to: '', sender: '', model: '' };
+
+const toFilters = (form: FilterForm): MessageSearchFilters => ({
+  from: form.from ? new Date(`${form.from}T00:00:00`) : undefined,
+  // The end date counts as a whole day
+  to: form.to ? new Date(`${form.to}T23:59:59.999`) : undefined,
+  sender: form.sender || undefined,
+  model: form.model || undefined,
+});
+
+const fieldClass = 'w-full rounded-md border border-line-strong bg-surface px-2 py-1 text-xs text-fg-soft focus:outline-none focus:border-line-focus';
+
+/**
+ * Search box for the sidebar. While a query or filter is set, matching
+ * messages from every conversation replace `children`.
+ */
+const MessageSearch: React.FC<MessageSearchProps> = ({ conversations, onOpenMessage, children }) => {
+  const { t, formatDate } = useI18n();
+  const [query, setQuery] = useState('');
+  const [form, setForm] = useState<FilterForm>(EMPTY_FORM);
+  const [showFilters, setShowFilters] = useState(false);
+
+  const filters = useMemo(() => toFilters(form), [form]);
+  const isSearching = query.trim() !== '' || hasActiveFilters(filters);
+  const { results, models } = useMessageSearch(conversations, query, filters, isSearching || showFilters);
+  const titles = useMemo(
+    () => new Map(conversations.map((conversation) => [conversation.id, conversationTitle(conversation, t('chat.untitled'))])),
+    [conversations, t]
+  );
+
+  const updateForm = (changes: Partial<FilterForm>) => setForm((prev) => ({ ...prev, ...changes }));
+
+  const clear = () => {
+    setQuery('');
+    setForm(EMPTY_FORM);
+  };
+
+  return (
+    <>
+      <div className="p-2 border-b border-fg/10 space-y-2">
+        <div className="flex items-center gap-1">
+          <div className="flex-1 flex items-center gap-2 rounded-lg border border-line-strong px-2 py-1.5 focus-within:border-line-focus">
+            <Search className="w-3.5 h-3.5 flex-shrink-0 text-fg-muted" />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Escape') clear();
+              }}
+              placeholder={t('search.placeholder')}
+              className="flex-1 min-w-0 bg-transparent text-sm text-fg placeholder:text-fg-subtle focus:outline-none"
+            />
+            {isSearching && (
+              <button onClick={clear} className="text-fg-muted hover:text-fg" title={t('search.clear')}>
+                <X className="w-3.5 h-3.5" />
+              </button>
+            )}
+          </div>
+          <button
+            onClick={() => setShowFilters((open) => !open)}
+            className={`p-2 rounded-lg transition-colors hover:bg-fg/10 ${
+              showFilters || hasActiveFilters(filters) ? 'text-fg' : 'text-fg-muted hover:text-fg'
+            }`}
+            title={t('search.filters')}
+          >
+            <SlidersHorizontal className="w-4 h-4" />
+          </button>
+        </div>
+
+        {showFilters && (
+          <div className="grid grid-cols-2 gap-2 text-xs text-fg-muted">
+            <label className="space-y-1">
+              <span>{t('search.from')}</span>
+              <input type="date" value={form.from} onChange={(e) => updateForm({ from: e.target.value })} className={fieldClass} />
+            </label>
+            <label className="space-y-1">
+              <span>{t('search.to')}</span>
+              <input type="date" value={form.to} onChange={(e) => updateForm({ to: e.target.value })} className={fieldClass} />
+            </label>
+            <label className="space-y-1">
+              <span>{t('search.sender')}</span>
+              <select
+                value={form.sender}
+                onChange={(e) => updateForm({ sender: e.target.value as FilterForm['sender'] })}
+                className={fieldClass}
+              >
+                <option value="">{t('search.anyone')}</option>
+                <option value="user">{t('message.you')}</option>
+                <option value="ai">{t('message.assistant')}</option>
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span>{t('search.model')}</span>
+              <select value={form.model} onChange={(e) => updateForm({ model: e.target.value })} className={fieldClass}>
+                <option value="">{t('search.anyModel')}</option>
+                {models.map((model) => (
+                  <option key={model} value={model}>
+                    {model}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+        )}
+      </div>
+
+      {isSearching ? (
+        <div className="flex-1 overflow-y-auto p-2 space-y-1" style={{ scrollbarWidth: 'thin', scrollbarColor: 'rgb(var(--color-line-strong)) transparent' }}>
+          <p className="px-2 py-1 text-xs text-fg-subtle">
+            {results.length === 0 ? t('search.noResults') : t('search.resultCount', { count: results.length })}
+          </p>
+          {results.map((result) => (
+            <button
+              key={`${result.conversationId}/${result.messageId}`}
+              onClick={() => onOpenMessage(result.conversationId, result.messageId)}
+              className="block w-full rounded-lg px-2 py-2 text-start hover:bg-fg/5 transition-colors"
+            >
+              <div className="flex items-center justify-between gap-2 text-xs text-fg-muted">
+                <span className="truncate text-fg-soft">{titles.get(result.conversationId)}</span>
+                <span className="flex-shrink-0">{formatDate(result.timestamp)}</span>
+              </div>
+              <div className="mt-0.5 text-xs text-fg-subtle">
+                {t(result.sender === 'user' ? 'message.you' : 'message.assistant')}
+                {result.model && ` · ${result.model}`}
+              </div>
+              <p className="mt-1 text-sm text-fg-soft break-words line-clamp-3">
+                {result.snippet.map((part, index) =>
+                  part.match ? (
+                    <mark key={index} className="rounded bg-yellow-400/30 px-0.5 text-fg">
+                      {part.text}
+                    </mark>
+                  ) : (
+                    <React.Fragment key={index}>{part.text}</React.Fragment>
+                  )
+                )}
+              </p>
+            </button>
+          ))}
+        </div>
+      ) : (
+        children
+      )}
+    </>
+  );
+};
+
+export default MessageSearch;
@@ -0,0 +1,46 @@
+import React, { useState } from 'react';
+import { BrainCog, ChevronDown, ChevronRight } from 'lucide-react';
+import type { MessageReasoning } from '../types/chat';
+import { useI18n } from '../hooks/useI18n';
+import type { Translator } from '../lib/i18n';
+
+interface ReasoningPanelProps {
+  reasoning: MessageReasoning;
+  // True until the first answer token arrives
+  isThinking: boolean;
+}
+
+const formatDuration = ({ t }: Translator, durationMs?: number) => {
+  if (durationMs === undefined) return t('reasoning.moment');
+  return t('reasoning.duration', { count: Math.max(1, Math.round(durationMs / 1000)) });
+};
+
+// Collapsible reasoning shown above an answer; collapsed by default once the answer starts
+const ReasoningPanel: React.FC<ReasoningPanelProps> = ({ reasoning, isThinking }) => {
+  const i18n = useI18n();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const showText = isThinking || isExpanded;
+
+  return (
+    <div className="mb-3 rounded-lg border border-mode-think/30 bg-mode-think/5">
+      <button
+        onClick={() => setIsExpanded(expanded => !expanded)}
+        className="flex w-full items-center gap-2 px-3 py-2 text-xs text-fg-muted hover:text-fg transition-colors"
+        aria-expanded={showText}
+        disabled={isThinking}
+      >
+        {showText ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        <BrainCog className={`w-3 h-3 text-mode-think ${isThinking ? 'animate-pulse' : ''}`} />
+        <span>{isThinking ? i18n.t('message.thinking') : formatDuration(i18n, reasoning.durationMs)}</span>
+      </button>
+
+      {showText && (
+        <div className="max-h-64 overflow-y-auto whitespace-pre-wrap break-words px-3 pb-3 text-sm text-fg-muted">
+          {reasoning.text}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReasoningPanel;
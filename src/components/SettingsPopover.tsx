@@ -0,0 +1,113 @@
+import React from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger, cn } from './ui/ai-prompt-box';
+import { useI18n } from '../hooks/useI18n';
+import type { ModelInfo } from '../lib/providers';
+import type { GenerationSettings } from '../types/chat';
+
+interface SettingsPopoverProps {
+  settings: GenerationSettings;
+  models: ModelInfo[];
+  defaultModel?: string;
+  onChange: (settings: GenerationSettings) => void;
+  disabled?: boolean;
+}
+
+// Model picker and sampling options for the current conversation
+const SettingsPopover: React.FC<SettingsPopoverProps> = ({ settings, models, defaultModel, onChange, disabled }) => {
+  const { t } = useI18n();
+  const selectedModel = settings.model ?? defaultModel ?? '';
+  // Keep a model that is no longer listed selectable rather than silently switching
+  const options = models.some((model) => model.id === selectedModel) || !selectedModel
+    ? models
+    : [{ id: selectedModel }, ...models];
+  const update = (changes: Partial<GenerationSettings>) => onChange({ ...settings, ...changes });
+  const fieldClass = 'w-full rounded-lg border border-line-strong bg-transparent px-2 py-1.5 text-sm text-fg focus:outline-none focus:border-line-focus';
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          disabled={disabled}
+          className="flex h-8 items-center gap-1 rounded-full px-2 text-fg-muted transition-colors hover:bg-fg-subtle/30 hover:text-fg-soft disabled:opacity-50"
+          title={t('settings.title')}
+          aria-label={t('settings.label', { model: selectedModel })}
+        >
+          <SlidersHorizontal className="h-4 w-4" />
+          <span className="hidden sm:inline max-w-[8rem] truncate text-xs">{selectedModel}</span>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent>
+        <div className="space-y-3">
+          <label className="block space-y-1">
+            <span className="text-xs text-fg-muted">{t('settings.model')}</span>
+            <select
+              value={selectedModel}
+              onChange={(e) => update({ model: e.target.value })}
+              className={cn(fieldClass, 'bg-surface')}
+            >
+              {options.map((model) => (
+                <option key={model.id} value={model.id}>
+                  {model.label ?? model.id}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block space-y-1">
+            <span className="text-xs text-fg-muted">{t('settings.systemPrompt')}</span>
+            <textarea
+              value={settings.systemPrompt ?? ''}
+              onChange={(e) => update({ systemPrompt: e.target.value || undefined })}
+              rows={3}
+              placeholder={t('settings.systemPromptPlaceholder')}
+              className={cn(fieldClass, 'resize-none')}
+            />
+          </label>
+
+          <div className="space-y-1">
+            <div className="flex items-center justify-between text-xs text-fg-muted">
+              <span>{t('settings.temperature')}</span>
+              <span>
+                {settings.temperature ?? t('settings.default')}
+                {settings.temperature !== undefined && (
+                  <button type="button" onClick={() => update({ temperature: undefined })} className="ms-2 underline hover:text-fg">
+                    {t('settings.reset')}
+                  </button>
+                )}
+              </span>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={settings.temperature ?? 0.7}
+              onChange={(e) => update({ temperature: Number(e.target.value) })}
+              className="w-full accent-accent"
+            />
+          </div>
+
+          <label className="block space-y-1">
+            <span className="text-xs text-fg-muted">{t('settings.maxTokens')}</span>
+            <input
+              type="number"
+              min={1}
+              step={256}
+              value={settings.maxTokens ?? ''}
+              placeholder={t('settings.default')}
+              onChange={(e) => {
+                const value = parseInt(e.target.value, 10);
+                update({ maxTokens: Number.isFinite(value) && value > 0 ? value : undefined });
+              }}
+              className={fieldClass}
+            />
+          </label>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default SettingsPopover;
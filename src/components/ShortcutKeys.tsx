@@ -0,0 +1,19 @@
+import React from 'react';
+import { cn } from './ui/ai-prompt-box';
+import { formatKeys } from '../lib/shortcuts';
+
+// Key caps for a shortcut, e.g. ⌘ K
+const ShortcutKeys: React.FC<{ keys: string; className?: string }> = ({ keys, className }) => (
+  <span className={cn('flex items-center gap-1', className)}>
+    {formatKeys(keys).map((key, index) => (
+      <kbd
+        key={index}
+        className="min-w-[1.25rem] rounded border border-line-strong bg-surface-raised px-1 py-0.5 text-center font-sans text-[10px] leading-none text-fg-soft"
+      >
+        {key}
+      </kbd>
+    ))}
+  </span>
+);
+
+export default ShortcutKeys;
@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogTitle, cn } from './ui/ai-prompt-box';
+import ShortcutKeys from './ShortcutKeys';
+import type { ShortcutSettings } from '../hooks/useShortcuts';
+import { useI18n } from '../hooks/useI18n';
+import { SHORTCUTS, keysFromEvent, type ShortcutId } from '../lib/shortcuts';
+
+interface ShortcutSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  shortcuts: ShortcutSettings;
+}
+
+// Cheat sheet of every shortcut; a row can be rebound by pressing the new keys
+const ShortcutSheet: React.FC<ShortcutSheetProps> = ({ open, onOpenChange, shortcuts }) => {
+  const { t } = useI18n();
+  const [recording, setRecording] = useState<ShortcutId | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) return;
+    setRecording(null);
+    setNotice(null);
+  }, [open]);
+
+  // While recording, the next combination becomes the shortcut; Backspace removes it
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!recording || e.key === 'Escape') return;
+    e.preventDefault();
+    e.stopPropagation();
+    const keys = e.key === 'Backspace' || e.key === 'Delete' ? '' : keysFromEvent(e);
+    if (keys === null) return;
+    const taken = shortcuts.rebind(recording, keys);
+    setRecording(null);
+    setNotice(taken ? t('shortcuts.moved', { from: t(`shortcut.${taken}`), to: t(`shortcut.${recording}`) }) : null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="max-w-[90vw] md:max-w-md gap-0 p-5 text-fg"
+        onKeyDown={handleKeyDown}
+        onEscapeKeyDown={(e) => {
+          // Escape cancels recording instead of closing the sheet
+          if (!recording) return;
+          e.preventDefault();
+          setRecording(null);
+        }}
+      >
+        <DialogTitle className="pe-10 text-base">{t('shortcuts.title')}</DialogTitle>
+        <p className="mt-1 text-xs text-fg-muted">{t('shortcuts.hint')}</p>
+        <ul className="mt-4 space-y-1">
+          {SHORTCUTS.map((shortcut) => (
+            <li key={shortcut.id} className="flex items-center justify-between gap-3 text-sm">
+              <span className="text-fg-soft">{t(`shortcut.${shortcut.id}`)}</span>
+              <button
+                type="button"
+                onClick={() => setRecording(recording === shortcut.id ? null : shortcut.id)}
+                className={cn(
+                  'flex h-7 min-w-[5rem] items-center justify-end rounded-md border px-2 transition-colors',
+                  recording === shortcut.id ? 'border-mode-think text-mode-think' : 'border-transparent hover:border-line-strong'
+                )}
+                aria-label={t('shortcuts.change', { action: t(`shortcut.${shortcut.id}`) })}
+              >
+                {recording === shortcut.id ? (
+                  <span className="text-xs">{t('shortcuts.recording')}</span>
+                ) : shortcuts.bindings[shortcut.id] ? (
+                  <ShortcutKeys keys={shortcuts.bindings[shortcut.id]} />
+                ) : (
+                  <span className="text-xs text-fg-subtle">{t('shortcuts.none')}</span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+        <div className="mt-4 flex items-center justify-between gap-2 text-xs">
+          <span className="text-fg-muted" aria-live="polite">
+            {notice}
+          </span>
+          <button type="button" onClick={shortcuts.resetShortcuts} className="text-fg-muted hover:text-fg">
+            {t('shortcuts.reset')}
+          </button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ShortcutSheet;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { cn } from './ui/ai-prompt-box';
+import { useI18n } from '../hooks/useI18n';
+import type { CommandSuggestion, CommandSuggestions } from '../lib/commands';
+
+interface SlashCommandMenuProps {
+  id: string;
+  suggestions: CommandSuggestions;
+  activeIndex: number;
+  onSelect: (suggestion: CommandSuggestion) => void;
+  onHighlight: (index: number) => void;
+}
+
+// Slash command suggestions, shown above the input box
+const SlashCommandMenu: React.FC<SlashCommandMenuProps> = ({ id, suggestions, activeIndex, onSelect, onHighlight }) => {
+  const { t } = useI18n();
+  const { command, items } = suggestions;
+  return (
+    <div className="absolute bottom-full left-0 right-0 z-50 mb-2 overflow-hidden rounded-2xl border border-line-strong bg-surface shadow-[0_8px_30px_rgba(0,0,0,0.24)]">
+      {command && (
+        <div className="border-b border-line px-3 py-2 text-xs text-fg-muted">
+          <span className="font-mono text-fg-soft">
+            /{command.name}
+            {command.argumentHint && ` ${command.argumentHint}`}
+          </span>
+          <span className="ms-2">{t(command.description)}</span>
+        </div>
+      )}
+      {items.length > 0 && (
+        <ul id={id} role="listbox" className="max-h-64 overflow-y-auto py-1">
+          {items.map((item, index) => (
+            <li
+              key={item.key}
+              id={`${id}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              // mousedown keeps focus in the textarea
+              onMouseDown={(e) => {
+                e.preventDefault();
+                onSelect(item);
+              }}
+              onMouseEnter={() => onHighlight(index)}
+              className={cn(
+                'flex cursor-pointer items-baseline gap-3 px-3 py-1.5 text-sm',
+                index === activeIndex ? 'bg-fg/10 text-fg' : 'text-fg-soft'
+              )}
+            >
+              <span className="font-mono whitespace-nowrap">{item.label}</span>
+              {item.description && <span className="truncate text-xs text-fg-subtle">{t(item.description)}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SlashCommandMenu;
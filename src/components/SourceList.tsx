@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Globe } from 'lucide-react';
+import type { SearchResult } from '../lib/search';
+import { useI18n } from '../hooks/useI18n';
+
+interface SourceListProps {
+  sources: SearchResult[];
+}
+
+const hostnameOf = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+};
+
+// Numbered sources under a grounded answer; numbers match the [n] citations in the text
+const SourceList: React.FC<SourceListProps> = ({ sources }) => {
+  const { t } = useI18n();
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  return (
+    <div className="mt-3 rounded-lg border border-fg/10 bg-fg/5">
+      <button
+        onClick={() => setIsExpanded(expanded => !expanded)}
+        className="flex w-full items-center gap-2 px-3 py-2 text-xs text-fg-muted hover:text-fg transition-colors"
+        aria-expanded={isExpanded}
+      >
+        {isExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        <Globe className="w-3 h-3" />
+        <span>{t('sources.count', { count: sources.length })}</span>
+        {!isExpanded && (
+          <span className="truncate text-fg-subtle">
+            {sources.map((source, index) => `[${index + 1}] ${hostnameOf(source.url)}`).join('  ')}
+          </span>
+        )}
+      </button>
+
+      {isExpanded && (
+        <ol className="space-y-2 px-3 pb-3">
+          {sources.map((source, index) => (
+            <li key={`${source.url}-${index}`} className="flex gap-2 text-sm">
+              <span className="flex-shrink-0 font-mono text-xs text-fg-subtle mt-0.5">[{index + 1}]</span>
+              <div className="min-w-0">
+                <a
+                  href={source.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="block truncate text-accent hover:text-accent/80 hover:underline"
+                >
+                  {source.title}
+                </a>
+                <div className="text-xs text-fg-subtle">{hostnameOf(source.url)}</div>
+                {source.snippet && <p className="mt-1 text-xs text-fg-soft">{source.snippet}</p>}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default SourceList;
@@ -0,0 +1,247 @@
+import React, { useRef, useState } from 'react';
+import { BookText, Download, Pencil, Plus, Trash2, Upload } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger, cn } from './ui/ai-prompt-box';
+import TemplateVariableForm from './TemplateVariableForm';
+import type { PromptTemplateLibrary } from '../hooks/usePromptTemplates';
+import { useI18n } from '../hooks/useI18n';
+import { LocalizedError } from '../lib/i18n';
+import { templateVariables, type PromptTemplate } from '../lib/templates';
+
+type TemplateView =
+  | { mode: 'list' }
+  | { mode: 'fill'; template: PromptTemplate; values: Record<string, string> }
+  | { mode: 'edit'; draft: PromptTemplate };
+
+interface TemplatePopoverProps {
+  library: PromptTemplateLibrary;
+  // Text selected in the textarea or on the page, read as the picker opens
+  captureSelection: () => string;
+  onInsert: (text: string) => void;
+  disabled?: boolean;
+}
+
+// Picker for saved prompt templates, with a form for their variables and an editor
+const TemplatePopover: React.FC<TemplatePopoverProps> = ({ library, captureSelection, onInsert, disabled }) => {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [view, setView] = useState<TemplateView>({ mode: 'list' });
+  const [query, setQuery] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+  const selectionRef = useRef('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const fieldClass = 'w-full rounded-lg border border-line-strong bg-transparent px-2 py-1.5 text-sm text-fg focus:outline-none focus:border-line-focus';
+  const iconButtonClass = 'rounded p-1 text-fg-muted transition-colors hover:bg-fg/10 hover:text-fg';
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) {
+      setView({ mode: 'list' });
+      setNotice(null);
+    }
+  };
+
+  const insert = (text: string) => {
+    onInsert(text);
+    handleOpenChange(false);
+  };
+
+  const chooseTemplate = (template: PromptTemplate) => {
+    const variables = templateVariables(template.body);
+    if (variables.length === 0) {
+      insert(template.body);
+      return;
+    }
+    const values = Object.fromEntries(variables.map((name) => [name, name === 'selection' ? selectionRef.current : '']));
+    setView({ mode: 'fill', template, values });
+    if (variables.includes('clipboard')) {
+      // Needs clipboard permission; the field stays editable if reading fails
+      navigator.clipboard
+        ?.readText()
+        .then((text) =>
+          setView((current) =>
+            current.mode === 'fill' && current.template.id === template.id
+              ? { ...current, values: { ...current.values, clipboard: text } }
+              : current
+          )
+        )
+        .catch((error) => console.warn('Could not read the clipboard:', error));
+    }
+  };
+
+  const setValue = (name: string, value: string) =>
+    setView((current) => (current.mode === 'fill' ? { ...current, values: { ...current.values, [name]: value } } : current));
+
+  const saveDraft = (draft: PromptTemplate) => {
+    library.saveTemplate({ ...draft, name: draft.name.trim(), description: draft.description?.trim() || undefined });
+    setView({ mode: 'list' });
+  };
+
+  const handleImport = (file: File) => {
+    library
+      .importTemplates(file)
+      .then(({ added, skipped }) => {
+        const summary = t('templates.imported', { count: added });
+        setNotice(skipped > 0 ? `${summary} ${t('templates.importSkipped', { count: skipped })}` : summary);
+      })
+      .catch((error) => {
+        console.error('Template import failed:', error);
+        setNotice(error instanceof LocalizedError ? t(error.text.key, error.text.params) : t('templates.importFailed'));
+      });
+  };
+
+  const filtered = library.templates.filter((template) =>
+    `${template.name} ${template.description ?? ''}`.toLowerCase().includes(query.trim().toLowerCase())
+  );
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          disabled={disabled}
+          // Read before focus moves, while the selection is still there
+          onPointerDown={() => (selectionRef.current = captureSelection())}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' || e.key === ' ') selectionRef.current = captureSelection();
+          }}
+          className="flex h-8 w-8 items-center justify-center rounded-full text-fg-muted transition-colors hover:bg-fg-subtle/30 hover:text-fg-soft disabled:opacity-50"
+          title={t('composer.templates')}
+          aria-label={t('composer.templates')}
+        >
+          <BookText className="h-4 w-4" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96">
+        {view.mode === 'list' && (
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <input
+                autoFocus
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder={t('templates.search')}
+                className={fieldClass}
+              />
+              <button
+                type="button"
+                onClick={() => setView({ mode: 'edit', draft: { id: Date.now().toString(), name: '', body: '' } })}
+                className={iconButtonClass}
+                title={t('templates.new')}
+              >
+                <Plus className="h-4 w-4" />
+              </button>
+            </div>
+
+            <ul className="max-h-64 space-y-1 overflow-y-auto">
+              {filtered.map((template) => (
+                <li key={template.id} className="group flex items-start gap-1 rounded-lg hover:bg-fg/5">
+                  <button type="button" onClick={() => chooseTemplate(template)} className="min-w-0 flex-1 px-2 py-1.5 text-start">
+                    <div className="truncate text-sm text-fg">{template.name}</div>
+                    {template.description && <div className="truncate text-xs text-fg-muted">{template.description}</div>}
+                  </button>
+                  <div className="flex items-center py-1.5 pe-1 opacity-0 transition-opacity group-hover:opacity-100 group-focus-within:opacity-100">
+                    <button type="button" onClick={() => setView({ mode: 'edit', draft: template })} className={iconButtonClass} title={t('templates.edit')}>
+                      <Pencil className="h-3 w-3" />
+                    </button>
+                    <button type="button" onClick={() => library.removeTemplate(template.id)} className={iconButtonClass} title={t('templates.delete')}>
+                      <Trash2 className="h-3 w-3" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+              {filtered.length === 0 && <li className="px-2 py-1.5 text-xs text-fg-muted">{t('templates.none')}</li>}
+            </ul>
+
+            <div className="flex items-center justify-between border-t border-line pt-2 text-xs text-fg-muted">
+              <span className="truncate">{notice}</span>
+              <div className="flex items-center gap-1">
+                <button type="button" onClick={() => importInputRef.current?.click()} className={cn(iconButtonClass, 'flex items-center gap-1')}>
+                  <Upload className="h-3 w-3" />
+                  {t('templates.import')}
+                </button>
+                <button type="button" onClick={library.exportTemplates} className={cn(iconButtonClass, 'flex items-center gap-1')}>
+                  <Download className="h-3 w-3" />
+                  {t('templates.export')}
+                </button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleImport(file);
+                    e.target.value = '';
+                  }}
+                />
+              </div>
+            </div>
+          </div>
+        )}
+
+        {view.mode === 'fill' && (
+          <TemplateVariableForm
+            template={view.template}
+            values={view.values}
+            onChange={setValue}
+            onBack={() => setView({ mode: 'list' })}
+            onInsert={insert}
+          />
+        )}
+
+        {view.mode === 'edit' && (
+          <form
+            className="space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (view.draft.name.trim() && view.draft.body.trim()) saveDraft(view.draft);
+            }}
+          >
+            <label className="block space-y-1">
+              <span className="text-xs text-fg-muted">{t('templates.name')}</span>
+              <input
+                autoFocus
+                value={view.draft.name}
+                onChange={(e) => setView({ mode: 'edit', draft: { ...view.draft, name: e.target.value } })}
+                className={fieldClass}
+              />
+            </label>
+            <label className="block space-y-1">
+              <span className="text-xs text-fg-muted">{t('templates.description')}</span>
+              <input
+                value={view.draft.description ?? ''}
+                onChange={(e) => setView({ mode: 'edit', draft: { ...view.draft, description: e.target.value } })}
+                className={fieldClass}
+              />
+            </label>
+            <label className="block space-y-1">
+              <span className="text-xs text-fg-muted">{t('templates.body')}</span>
+              <textarea
+                value={view.draft.body}
+                onChange={(e) => setView({ mode: 'edit', draft: { ...view.draft, body: e.target.value } })}
+                rows={6}
+                placeholder={t('templates.bodyPlaceholder')}
+                className={cn(fieldClass, 'resize-y font-mono text-xs')}
+              />
+              <span className="block text-xs text-fg-subtle">{t('templates.bodyHint')}</span>
+            </label>
+            <div className="flex justify-end gap-2 text-sm">
+              <button type="button" onClick={() => setView({ mode: 'list' })} className="rounded-lg px-3 py-1 text-fg-soft hover:bg-fg/10">
+                {t('templates.cancel')}
+              </button>
+              <button
+                type="submit"
+                disabled={!view.draft.name.trim() || !view.draft.body.trim()}
+                className="rounded-lg bg-accent px-3 py-1 text-on-accent hover:bg-accent/80 disabled:opacity-40"
+              >
+                {t('templates.save')}
+              </button>
+            </div>
+          </form>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default TemplatePopover;
@@ -0,0 +1,67 @@
+import React from 'react';
+import { ChevronLeft } from 'lucide-react';
+import { cn } from './ui/ai-prompt-box';
+import { useI18n } from '../hooks/useI18n';
+import { fillTemplate, isBuiltinVariable, type PromptTemplate } from '../lib/templates';
+
+interface TemplateVariableFormProps {
+  template: PromptTemplate;
+  // One entry per variable, in the order they appear in the template
+  values: Record<string, string>;
+  onChange: (name: string, value: string) => void;
+  onBack: () => void;
+  onInsert: (text: string) => void;
+}
+
+const fieldClass = 'w-full rounded-lg border border-line-strong bg-transparent px-2 py-1.5 text-sm text-fg focus:outline-none focus:border-line-focus';
+
+// Asks for each template variable, then inserts the filled-in body
+const TemplateVariableForm: React.FC<TemplateVariableFormProps> = ({ template, values, onChange, onBack, onInsert }) => {
+  const { t } = useI18n();
+
+  return (
+    <form
+      className="space-y-3"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onInsert(fillTemplate(template.body, values));
+      }}
+    >
+      <div className="flex items-center gap-1">
+        <button
+          type="button"
+          onClick={onBack}
+          className="rounded p-1 text-fg-muted transition-colors hover:bg-fg/10 hover:text-fg"
+          title={t('templates.back')}
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </button>
+        <span className="truncate text-sm font-medium">{template.name}</span>
+      </div>
+      {Object.entries(values).map(([name, value], index) => (
+        <label key={name} className="block space-y-1">
+          <span className="text-xs text-fg-muted">{name}</span>
+          {isBuiltinVariable(name) ? (
+            <textarea
+              autoFocus={index === 0}
+              value={value}
+              onChange={(e) => onChange(name, e.target.value)}
+              rows={3}
+              placeholder={t(name === 'selection' ? 'templates.noSelection' : 'templates.noClipboard')}
+              className={cn(fieldClass, 'resize-none')}
+            />
+          ) : (
+            <input autoFocus={index === 0} value={value} onChange={(e) => onChange(name, e.target.value)} className={fieldClass} />
+          )}
+        </label>
+      ))}
+      <div className="flex justify-end">
+        <button type="submit" className="rounded-lg bg-accent px-3 py-1 text-sm text-on-accent hover:bg-accent/80">
+          {t('templates.insert')}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default TemplateVariableForm;
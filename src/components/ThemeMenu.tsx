@@ -0,0 +1,93 @@
+import React from 'react';
+import { Check } from 'lucide-react';
+import type { ThemeSettings } from '../hooks/useTheme';
+import { useI18n } from '../hooks/useI18n';
+import { THEME_CHOICES, channelsToHex, isHexColor } from '../lib/theme';
+import { LOCALES, isLocale } from '../lib/i18n';
+
+interface ThemeMenuProps {
+  theme: ThemeSettings;
+  onClose: () => void;
+  className?: string;
+}
+
+// Current value of a color token, for the color inputs before anything is customized
+const tokenHex = (name: string) => {
+  const channels = getComputedStyle(document.documentElement).getPropertyValue(name);
+  const hex = channelsToHex(channels);
+  return isHexColor(hex) ? hex : '#000000';
+};
+
+/** Theme picker plus the custom accent and background colors and the app language. */
+const ThemeMenu: React.FC<ThemeMenuProps> = ({ theme, onClose, className = '' }) => {
+  const { t, preference: locale, setLocale } = useI18n();
+  const { preference, updateTheme } = theme;
+  const isCustomized = !!(preference.accent || preference.background);
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40" onClick={onClose} />
+      <div className={`absolute z-50 w-60 rounded-lg border border-line-strong bg-surface p-1 text-sm shadow-xl ${className}`}>
+        <div role="radiogroup" aria-label={t('theme.label')}>
+          {THEME_CHOICES.map((choice) => (
+            <button
+              key={choice}
+              role="radio"
+              aria-checked={preference.theme === choice}
+              onClick={() => updateTheme({ theme: choice })}
+              className="flex w-full items-center justify-between rounded px-3 py-1.5 text-start text-fg-soft hover:bg-fg/10"
+            >
+              {t(`theme.${choice}`)}
+              {preference.theme === choice && <Check className="w-3.5 h-3.5" />}
+            </button>
+          ))}
+        </div>
+        <div className="border-t border-fg/10 mt-1 px-3 pt-2 pb-1 space-y-2 text-xs text-fg-muted">
+          <label className="flex items-center justify-between gap-2">
+            {t('theme.accent')}
+            <input
+              type="color"
+              value={preference.accent ?? tokenHex('--color-accent')}
+              onChange={(e) => updateTheme({ accent: e.target.value })}
+              className="h-6 w-10 cursor-pointer rounded border border-line-strong bg-transparent"
+            />
+          </label>
+          <label className="flex items-center justify-between gap-2">
+            {t('theme.background')}
+            <input
+              type="color"
+              value={preference.background ?? tokenHex('--color-surface')}
+              onChange={(e) => updateTheme({ background: e.target.value })}
+              className="h-6 w-10 cursor-pointer rounded border border-line-strong bg-transparent"
+            />
+          </label>
+          {isCustomized && (
+            <button
+              onClick={() => updateTheme({ accent: undefined, background: undefined })}
+              className="text-fg-muted underline hover:text-fg"
+            >
+              {t('theme.reset')}
+            </button>
+          )}
+        </div>
+        <label className="flex items-center justify-between gap-2 border-t border-fg/10 mt-1 px-3 pt-2 pb-1 text-xs text-fg-muted">
+          {t('language.label')}
+          <select
+            value={locale ?? ''}
+            onChange={(e) => setLocale(isLocale(e.target.value) ? e.target.value : null)}
+            className="min-w-0 rounded border border-line-strong bg-surface px-1.5 py-1 text-fg-soft focus:outline-none focus:border-line-focus"
+          >
+            <option value="">{t('language.browser')}</option>
+            {LOCALES.map(({ value, label }) => (
+              <option key={value} value={value} lang={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </>
+  );
+};
+
+export default ThemeMenu;
@@ -1,11 +1,51 @@
 import React from "react";
 import * as TooltipPrimitive from "@radix-ui/react-tooltip";
 import * as DialogPrimitive from "@radix-ui/react-dialog";
-import { ArrowUp, Paperclip, Square, X, StopCircle, Mic, Globe, BrainCog, FolderCode } from "lucide-react";
+import * as PopoverPrimitive from "@radix-ui/react-popover";
+import { ArrowUp, Paperclip, Square, X, StopCircle, Mic, Globe, BrainCog, FolderCode, FileCode, FileImage, FileJson, FileSpreadsheet, FileText } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
+import type { GenerationSettings, SendOptions } from "../../types/chat";
+import type { ModelInfo } from "../../lib/providers";
+import type { Transcriber } from "../../lib/voice/transcribers";
+import { useVoiceInput } from "../../hooks/useVoiceInput";
+import type { PromptTemplateLibrary } from "../../hooks/usePromptTemplates";
+import type { ShortcutSettings } from "../../hooks/useShortcuts";
+import { useI18n } from "../../hooks/useI18n";
+import { useShortcutListener } from "../../hooks/useShortcutListener";
+import CommandPalette from "../CommandPalette";
+import ContextMeter from "../ContextMeter";
+import SettingsPopover from "../SettingsPopover";
+import ShortcutSheet from "../ShortcutSheet";
+import SlashCommandMenu from "../SlashCommandMenu";
+import TemplatePopover from "../TemplatePopover";
+import type { LocalizedText } from "../../lib/i18n";
+import type { ShortcutId } from "../../lib/shortcuts";
+import { estimateAttachmentTokens, estimateTextTokens, type ContextUsage } from "../../lib/tokens";
+import {
+  parseSlashCommand,
+  suggestCommands,
+  type AppCommandActions,
+  type AppPaletteActions,
+  type CommandContext,
+  type CommandInvocation,
+  type CommandSuggestion,
+  type PaletteItem,
+  type SlashCommand,
+} from "../../lib/commands";
+import {
+  ACCEPTED_FILE_TYPES,
+  MAX_ATTACHMENTS,
+  attachmentKind,
+  extensionOf,
+  extractText,
+  formatFileSize,
+  isImageFile,
+  validateAttachment,
+  type AttachmentMeta,
+} from "../../lib/attachments";
 
 // Utility function for className merging
-const cn = (...classes: (string | undefined | null | false)[]) => classes.filter(Boolean).join(" ");
+export const cn = (...classes: (string | undefined | null | false)[]) => classes.filter(Boolean).join(" ");
 
 // Embedded CSS for minimal custom styles
 const styles = `
@@ -20,11 +60,11 @@ const styles = `
     background: transparent;
   }
   textarea::-webkit-scrollbar-thumb {
-    background-color: #444444;
+    background-color: rgb(var(--color-line-strong));
     border-radius: 3px;
   }
   textarea::-webkit-scrollbar-thumb:hover {
-    background-color: #555555;
+    background-color: rgb(var(--color-line-focus));
   }
 `;
 
@@ -46,7 +86,7 @@ interface TextareaProps extends React.TextareaHTMLAttributes<HTMLTextAreaElement
 const Textarea = React.forwardRef<HTMLTextAreaElement, TextareaProps>(({ className, ...props }, ref) => (
   <textarea
     className={cn(
-      "flex w-full rounded-md border-none bg-transparent px-3 py-2.5 text-base text-gray-100 placeholder:text-gray-400 focus-visible:outline-none focus-visible:ring-0 disabled:cursor-not-allowed disabled:opacity-50 min-h-[44px] resize-none scrollbar-thin scrollbar-thumb-[#444444] scrollbar-track-transparent hover:scrollbar-thumb-[#555555]",
+      "flex w-full rounded-md border-none bg-transparent px-3 py-2.5 text-base text-fg placeholder:text-fg-muted focus-visible:outline-none focus-visible:ring-0 disabled:cursor-not-allowed disabled:opacity-50 min-h-[44px] resize-none scrollbar-thin scrollbar-thumb-line-strong scrollbar-track-transparent hover:scrollbar-thumb-line-focus",
       className
     )}
     ref={ref}
@@ -68,7 +108,7 @@ const TooltipContent = React.forwardRef<
     ref={ref}
     sideOffset={sideOffset}
     className={cn(
-      "z-50 overflow-hidden rounded-md border border-[#333333] bg-[#1F2023] px-3 py-1.5 text-sm text-white shadow-md animate-in fade-in-0 zoom-in-95 data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=closed]:zoom-out-95 data-[side=bottom]:slide-in-from-top-2 data-[side=left]:slide-in-from-right-2 data-[side=right]:slide-in-from-left-2 data-[side=top]:slide-in-from-bottom-2",
+      "z-50 overflow-hidden rounded-md border border-line bg-surface px-3 py-1.5 text-sm text-fg shadow-md animate-in fade-in-0 zoom-in-95 data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=closed]:zoom-out-95 data-[side=bottom]:slide-in-from-top-2 data-[side=left]:slide-in-from-right-2 data-[side=right]:slide-in-from-left-2 data-[side=top]:slide-in-from-bottom-2",
       className
     )}
     {...props}
@@ -77,7 +117,7 @@ const TooltipContent = React.forwardRef<
 TooltipContent.displayName = TooltipPrimitive.Content.displayName;
 
 // Dialog Components
-const Dialog = DialogPrimitive.Root;
+export const Dialog = DialogPrimitive.Root;
 const DialogPortal = DialogPrimitive.Portal;
 const DialogOverlay = React.forwardRef<
   React.ElementRef<typeof DialogPrimitive.Overlay>,
@@ -94,42 +134,67 @@ const DialogOverlay = React.forwardRef<
 ));
 DialogOverlay.displayName = DialogPrimitive.Overlay.displayName;
 
-const DialogContent = React.forwardRef<
+export const DialogContent = React.forwardRef<
   React.ElementRef<typeof DialogPrimitive.Content>,
   React.ComponentPropsWithoutRef<typeof DialogPrimitive.Content>
->(({ className, children, ...props }, ref) => (
-  <DialogPortal>
-    <DialogOverlay />
-    <DialogPrimitive.Content
-      ref={ref}
-      className={cn(
-        "fixed left-[50%] top-[50%] z-50 grid w-full max-w-[90vw] md:max-w-[800px] translate-x-[-50%] translate-y-[-50%] gap-4 border border-[#333333] bg-[#1F2023] p-0 shadow-xl duration-300 data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0 data-[state=closed]:zoom-out-95 data-[state=open]:zoom-in-95 rounded-2xl",
-        className
-      )}
-      {...props}
-    >
-      {children}
-      <DialogPrimitive.Close className="absolute right-4 top-4 z-10 rounded-full bg-[#2E3033]/80 p-2 hover:bg-[#2E3033] transition-all">
-        <X className="h-5 w-5 text-gray-200 hover:text-white" />
-        <span className="sr-only">Close</span>
-      </DialogPrimitive.Close>
-    </DialogPrimitive.Content>
-  </DialogPortal>
-));
+>(({ className, children, ...props }, ref) => {
+  const { t } = useI18n();
+  return (
+    <DialogPortal>
+      <DialogOverlay />
+      <DialogPrimitive.Content
+        ref={ref}
+        className={cn(
+          "fixed left-[50%] top-[50%] z-50 grid w-full max-w-[90vw] md:max-w-[800px] translate-x-[-50%] translate-y-[-50%] gap-4 border border-line bg-surface p-0 shadow-xl duration-300 data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0 data-[state=closed]:zoom-out-95 data-[state=open]:zoom-in-95 rounded-2xl",
+          className
+        )}
+        {...props}
+      >
+        {children}
+        <DialogPrimitive.Close className="absolute end-4 top-4 z-10 rounded-full bg-surface-raised/80 p-2 hover:bg-surface-raised transition-all">
+          <X className="h-5 w-5 text-fg-soft hover:text-fg" />
+          <span className="sr-only">{t("dialog.close")}</span>
+        </DialogPrimitive.Close>
+      </DialogPrimitive.Content>
+    </DialogPortal>
+  );
+});
 DialogContent.displayName = DialogPrimitive.Content.displayName;
 
-const DialogTitle = React.forwardRef<
+export const DialogTitle = React.forwardRef<
   React.ElementRef<typeof DialogPrimitive.Title>,
   React.ComponentPropsWithoutRef<typeof DialogPrimitive.Title>
 >(({ className, ...props }, ref) => (
   <DialogPrimitive.Title
     ref={ref}
-    className={cn("text-lg font-semibold leading-none tracking-tight text-gray-100", className)}
+    className={cn("text-lg font-semibold leading-none tracking-tight text-fg", className)}
     {...props}
   />
 ));
 DialogTitle.displayName = DialogPrimitive.Title.displayName;
 
+// Popover Components
+export const Popover = PopoverPrimitive.Root;
+export const PopoverTrigger = PopoverPrimitive.Trigger;
+export const PopoverContent = React.forwardRef<
+  React.ElementRef<typeof PopoverPrimitive.Content>,
+  React.ComponentPropsWithoutRef<typeof PopoverPrimitive.Content>
+>(({ className, align = "start", sideOffset = 8, ...props }, ref) => (
+  <PopoverPrimitive.Portal>
+    <PopoverPrimitive.Content
+      ref={ref}
+      align={align}
+      sideOffset={sideOffset}
+      className={cn(
+        "z-50 w-80 rounded-2xl border border-line bg-surface p-4 text-fg shadow-xl outline-none data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0",
+        className
+      )}
+      {...props}
+    />
+  </PopoverPrimitive.Portal>
+));
+PopoverContent.displayName = PopoverPrimitive.Content.displayName;
+
 // Button Component
 interface ButtonProps extends React.ButtonHTMLAttributes<HTMLButtonElement> {
   variant?: "default" | "outline" | "ghost";
@@ -138,9 +203,9 @@ interface ButtonProps extends React.ButtonHTMLAttributes<HTMLButtonElement> {
 const Button = React.forwardRef<HTMLButtonElement, ButtonProps>(
   ({ className, variant = "default", size = "default", ...props }, ref) => {
     const variantClasses = {
-      default: "bg-white hover:bg-white/80 text-black",
-      outline: "border border-[#444444] bg-transparent hover:bg-[#3A3A40]",
-      ghost: "bg-transparent hover:bg-[#3A3A40]",
+      default: "bg-accent hover:bg-accent/80 text-on-accent",
+      outline: "border border-line-strong bg-transparent hover:bg-surface-hover",
+      ghost: "bg-transparent hover:bg-surface-hover",
     };
     const sizeClasses = {
       default: "h-10 px-4 py-2",
@@ -166,36 +231,35 @@ Button.displayName = "Button";
 
 // VoiceRecorder Component
 interface VoiceRecorderProps {
-  isRecording: boolean;
-  onStartRecording: () => void;
-  onStopRecording: (duration: number) => void;
+  analyser: AnalyserNode | null;
+  elapsed: number;
+  isTranscribing?: boolean;
   visualizerBars?: number;
 }
 const VoiceRecorder: React.FC<VoiceRecorderProps> = ({
-  isRecording,
-  onStartRecording,
-  onStopRecording,
+  analyser,
+  elapsed,
+  isTranscribing = false,
   visualizerBars = 32,
 }) => {
-  const [time, setTime] = React.useState(0);
-  const timerRef = React.useRef<ReturnType<typeof setInterval> | null>(null);
+  const { t } = useI18n();
+  const barsRef = React.useRef<(HTMLDivElement | null)[]>([]);
 
+  // Bars are driven straight from the analyser each frame, without re-rendering
   React.useEffect(() => {
-    if (isRecording) {
-      onStartRecording();
-      timerRef.current = setInterval(() => setTime((t) => t + 1), 1000);
-    } else {
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-        timerRef.current = null;
-      }
-      onStopRecording(time);
-      setTime(0);
-    }
-    return () => {
-      if (timerRef.current) clearInterval(timerRef.current);
-    };
-  }, [isRecording, time, onStartRecording, onStopRecording]);
+    if (!analyser) return;
+    const data = new Uint8Array(analyser.frequencyBinCount);
+    let frame = requestAnimationFrame(function draw() {
+      analyser.getByteFrequencyData(data);
+      barsRef.current.forEach((bar, i) => {
+        if (!bar) return;
+        const value = data[Math.floor((i / visualizerBars) * data.length)] ?? 0;
+        bar.style.height = `${Math.max(15, (value / 255) * 100)}%`;
+      });
+      frame = requestAnimationFrame(draw);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [analyser, visualizerBars]);
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -204,26 +268,24 @@ const VoiceRecorder: React.FC<VoiceRecorderProps> = ({
   };
 
   return (
-    <div
-      className={cn(
-        "flex flex-col items-center justify-center w-full transition-all duration-300 py-3",
-        isRecording ? "opacity-100" : "opacity-0 h-0"
-      )}
-    >
+    <div className="flex flex-col items-center justify-center w-full transition-all duration-300 py-3">
       <div className="flex items-center gap-2 mb-3">
-        <div className="h-2 w-2 rounded-full bg-red-500 animate-pulse" />
-        <span className="font-mono text-sm text-white/80">{formatTime(time)}</span>
+        <div className={cn("h-2 w-2 rounded-full", isTranscribing ? "bg-fg-muted" : "bg-red-500 animate-pulse")} />
+        <span className="font-mono text-sm text-fg/80" aria-hidden="true">
+          {isTranscribing ? t("composer.transcribing") : formatTime(elapsed)}
+        </span>
+        {/* The ticking timer would be read out every second */}
+        <span role="status" className="sr-only">
+          {isTranscribing ? t("composer.transcribingStatus") : t("composer.recording")}
+        </span>
       </div>
-      <div className="w-full h-10 flex items-center justify-center gap-0.5 px-4">
+      <div className="w-full h-10 flex items-center justify-center gap-0.5 px-4" aria-hidden="true">
         {[...Array(visualizerBars)].map((_, i) => (
           <div
             key={i}
-            className="w-0.5 rounded-full bg-white/50 animate-pulse"
-            style={{
-              height: `${Math.max(15, Math.random() * 100)}%`,
-              animationDelay: `${i * 0.05}s`,
-              animationDuration: `${0.5 + Math.random() * 0.5}s`,
-            }}
+            ref={(el) => (barsRef.current[i] = el)}
+            className={cn("w-0.5 rounded-full bg-fg/50 transition-[height] duration-75", isTranscribing && "animate-pulse")}
+            style={{ height: "15%" }}
           />
         ))}
       </div>
@@ -236,22 +298,23 @@ interface ImageViewDialogProps {
   imageUrl: string | null;
   onClose: () => void;
 }
-const ImageViewDialog: React.FC<ImageViewDialogProps> = ({ imageUrl, onClose }) => {
+export const ImageViewDialog: React.FC<ImageViewDialogProps> = ({ imageUrl, onClose }) => {
+  const { t } = useI18n();
   if (!imageUrl) return null;
   return (
     <Dialog open={!!imageUrl} onOpenChange={onClose}>
       <DialogContent className="p-0 border-none bg-transparent shadow-none max-w-[90vw] md:max-w-[800px]">
-        <DialogTitle className="sr-only">Image Preview</DialogTitle>
+        <DialogTitle className="sr-only">{t("image.preview")}</DialogTitle>
         <motion.div
           initial={{ opacity: 0, scale: 0.95 }}
           animate={{ opacity: 1, scale: 1 }}
           exit={{ opacity: 0, scale: 0.95 }}
           transition={{ duration: 0.2, ease: "easeOut" }}
-          className="relative bg-[#1F2023] rounded-2xl overflow-hidden shadow-2xl"
+          className="relative bg-surface rounded-2xl overflow-hidden shadow-2xl"
         >
           <img
             src={imageUrl}
-            alt="Full preview"
+            alt={t("image.alt")}
             className="w-full max-h-[80vh] object-contain rounded-2xl"
           />
         </motion.div>
@@ -260,6 +323,52 @@ const ImageViewDialog: React.FC<ImageViewDialogProps> = ({ imageUrl, onClose })
   );
 };
 
+// FileChip Component
+interface FileChipProps {
+  file: AttachmentMeta;
+  onRemove?: () => void;
+  className?: string;
+}
+const fileIcon = (file: AttachmentMeta) => {
+  const extension = extensionOf(file.name);
+  if (attachmentKind(file) === "image") return FileImage;
+  if (extension === "csv" || extension === "tsv") return FileSpreadsheet;
+  if (extension === "json" || extension === "jsonl") return FileJson;
+  if (attachmentKind(file) === "pdf" || ["txt", "md", "markdown", "log"].includes(extension)) return FileText;
+  return FileCode;
+};
+export const FileChip: React.FC<FileChipProps> = ({ file, onRemove, className }) => {
+  const { t } = useI18n();
+  const Icon = fileIcon(file);
+  return (
+    <div
+      className={cn(
+        "flex max-w-[14rem] items-center gap-2 rounded-xl border border-line-strong bg-fg/5 px-2.5 py-1.5 text-xs text-fg-soft",
+        className
+      )}
+      title={file.name}
+    >
+      <Icon className="h-4 w-4 flex-shrink-0 opacity-70" />
+      <div className="min-w-0">
+        <div className="truncate font-medium">{file.name}</div>
+        <div className="opacity-60">
+          {(extensionOf(file.name) || attachmentKind(file) || "file").toUpperCase()} · {formatFileSize(file.size)}
+        </div>
+      </div>
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          className="ms-1 flex-shrink-0 rounded-full p-0.5 opacity-60 hover:bg-fg/10 hover:opacity-100"
+          aria-label={t("composer.removeFile", { name: file.name })}
+        >
+          <X className="h-3 w-3" />
+        </button>
+      )}
+    </div>
+  );
+};
+
 // PromptInput Context and Components
 interface PromptInputContextType {
   isLoading: boolean;
@@ -333,7 +442,7 @@ const PromptInput = React.forwardRef<HTMLDivElement, PromptInputProps>(
           <div
             ref={ref}
             className={cn(
-              "rounded-3xl border border-[#444444] bg-[#1F2023] p-2 shadow-[0_8px_30px_rgba(0,0,0,0.24)] transition-all duration-300",
+              "rounded-3xl border border-line-strong bg-surface p-2 shadow-[0_8px_30px_rgba(0,0,0,0.24)] transition-all duration-300",
               isLoading && "border-red-500/70",
               className
             )}
@@ -354,15 +463,13 @@ interface PromptInputTextareaProps {
   disableAutosize?: boolean;
   placeholder?: string;
 }
-const PromptInputTextarea: React.FC<PromptInputTextareaProps & React.ComponentProps<typeof Textarea>> = ({
-  className,
-  onKeyDown,
-  disableAutosize = false,
-  placeholder,
-  ...props
-}) => {
+const PromptInputTextarea = React.forwardRef<
+  HTMLTextAreaElement,
+  PromptInputTextareaProps & React.ComponentPropsWithoutRef<typeof Textarea>
+>(({ className, onKeyDown, disableAutosize = false, placeholder, ...props }, ref) => {
   const { value, setValue, maxHeight, onSubmit, disabled } = usePromptInput();
   const textareaRef = React.useRef<HTMLTextAreaElement>(null);
+  React.useImperativeHandle(ref, () => textareaRef.current as HTMLTextAreaElement);
 
   React.useEffect(() => {
     if (disableAutosize || !textareaRef.current) return;
@@ -373,12 +480,14 @@ const PromptInputTextarea: React.FC<PromptInputTextareaProps & React.ComponentPr
         : `min(${textareaRef.current.scrollHeight}px, ${maxHeight})`;
   }, [value, maxHeight, disableAutosize]);
 
+  // `onKeyDown` runs first and can claim a key (e.g. Enter in a menu) with preventDefault
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    onKeyDown?.(e);
+    if (e.defaultPrevented) return;
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
       onSubmit?.();
     }
-    onKeyDown?.(e);
   };
 
   return (
@@ -393,7 +502,8 @@ const PromptInputTextarea: React.FC<PromptInputTextareaProps & React.ComponentPr
       {...props}
     />
   );
-};
+});
+PromptInputTextarea.displayName = "PromptInputTextarea";
 
 interface PromptInputActionsProps extends React.HTMLAttributes<HTMLDivElement> {}
 const PromptInputActions: React.FC<PromptInputActionsProps> = ({ children, className, ...props }) => (
@@ -408,7 +518,7 @@ interface PromptInputActionProps extends React.ComponentProps<typeof Tooltip> {
   side?: "top" | "bottom" | "left" | "right";
   className?: string;
 }
-const PromptInputAction: React.FC<PromptInputActionProps> = ({
+export const PromptInputAction: React.FC<PromptInputActionProps> = ({
   tooltip,
   children,
   className,
@@ -430,9 +540,9 @@ const PromptInputAction: React.FC<PromptInputActionProps> = ({
 
 // Custom Divider Component
 const CustomDivider: React.FC = () => (
-  <div className="relative h-6 w-[1.5px] mx-1">
+  <div className="relative h-6 w-[1.5px] mx-1" aria-hidden="true">
     <div
-      className="absolute inset-0 bg-gradient-to-t from-transparent via-[#9b87f5]/70 to-transparent rounded-full"
+      className="absolute inset-0 bg-gradient-to-t from-transparent via-mode-think/70 to-transparent rounded-full"
       style={{
         clipPath: "polygon(0% 0%, 100% 0%, 100% 40%, 140% 50%, 100% 60%, 100% 100%, 0% 100%, 0% 60%, -40% 50%, 0% 40%)",
       }}
@@ -440,26 +550,86 @@ const CustomDivider: React.FC = () => (
   </div>
 );
 
+// Files are told apart by name, size and modification time
+const previewKey = (file: File) => `${file.name}:${file.size}:${file.lastModified}`;
+
 // Main PromptInputBox Component
 interface PromptInputBoxProps {
-  onSend?: (message: string, files?: File[]) => void;
+  onSend?: (message: string, files?: File[], options?: SendOptions) => void;
+  onStop?: () => void;
   isLoading?: boolean;
+  settings?: GenerationSettings;
+  models?: ModelInfo[];
+  defaultModel?: string;
+  onSettingsChange?: (settings: GenerationSettings) => void;
+  // Speech-to-text backend for the mic button; voice input is unavailable when null
+  transcriber?: Transcriber | null;
+  // Slash commands offered while typing "/"; they need `commandActions` for the conversation-level ones
+  commands?: SlashCommand[];
+  commandActions?: AppCommandActions;
+  // Prompt library behind the templates button; hidden when omitted
+  templates?: PromptTemplateLibrary;
+  // Drives the context meter and the over-limit warning; hidden when omitted
+  contextUsage?: ContextUsage;
+  // Enables the command palette and keyboard shortcuts; `paletteActions` adds the conversation entries
+  shortcuts?: ShortcutSettings;
+  paletteActions?: AppPaletteActions;
   placeholder?: string;
   className?: string;
 }
 export const PromptInputBox = React.forwardRef((props: PromptInputBoxProps, ref: React.Ref<HTMLDivElement>) => {
-  const { onSend = () => {}, isLoading = false, placeholder = "Type your message here...", className } = props;
+  const {
+    onSend = () => {},
+    onStop,
+    isLoading = false,
+    placeholder,
+    className,
+    settings = {},
+    models = [],
+    defaultModel,
+    onSettingsChange,
+    transcriber = null,
+    commands,
+    commandActions,
+    templates,
+    contextUsage,
+    shortcuts,
+    paletteActions,
+  } = props;
+  const { t, locale } = useI18n();
   const [input, setInput] = React.useState("");
   const [files, setFiles] = React.useState<File[]>([]);
   const [filePreviews, setFilePreviews] = React.useState<{ [key: string]: string }>({});
+  const [attachmentErrors, setAttachmentErrors] = React.useState<LocalizedText[]>([]);
   const [selectedImage, setSelectedImage] = React.useState<string | null>(null);
-  const [isRecording, setIsRecording] = React.useState(false);
   const [showSearch, setShowSearch] = React.useState(false);
   const [showThink, setShowThink] = React.useState(false);
   const [showCanvas, setShowCanvas] = React.useState(false);
+  const [commandNotice, setCommandNotice] = React.useState<LocalizedText | null>(null);
+  const [menuIndex, setMenuIndex] = React.useState(0);
+  // Set when a send was held back because it would not fit in the context window
+  const [overLimitWarning, setOverLimitWarning] = React.useState(false);
+  const [isPaletteOpen, setIsPaletteOpen] = React.useState(false);
+  const [isShortcutSheetOpen, setIsShortcutSheetOpen] = React.useState(false);
+  // Escape hides the menu until the input changes
+  const [menuDismissedFor, setMenuDismissedFor] = React.useState<string | null>(null);
+  const menuId = React.useId();
   const uploadInputRef = React.useRef<HTMLInputElement>(null);
+  const textareaRef = React.useRef<HTMLTextAreaElement>(null);
+  // Where an inserted template goes: over the textarea selection, or at the caret
+  const insertRangeRef = React.useRef({ start: 0, end: 0 });
   const promptBoxRef = React.useRef<HTMLDivElement>(null);
 
+  // Transcripts land in the textarea for review instead of being sent right away
+  const voice = useVoiceInput({
+    transcriber,
+    lang: locale,
+    onTranscript: (text) => setInput((prev) => (prev.trim() ? `${prev.trimEnd()} ${text}` : text)),
+  });
+  const isRecording = voice.state === "recording";
+  const isTranscribing = voice.state === "transcribing";
+  const isVoiceActive = isRecording || isTranscribing;
+
   const handleToggleChange = (value: string) => {
     if (value === "search") {
       setShowSearch((prev) => !prev);
@@ -472,22 +642,57 @@ export const PromptInputBox = React.forwardRef((props: PromptInputBoxProps, ref:
 
   const handleCanvasToggle = () => setShowCanvas((prev) => !prev);
 
-  const isImageFile = (file: File) => file.type.startsWith("image/");
+  // Mirrors `files` for the drop and paste handlers, which are bound once
+  const filesRef = React.useRef(files);
+  filesRef.current = files;
 
-  const processFile = (file: File) => {
-    if (!isImageFile(file)) {
-      console.log("Only image files are allowed");
-      return;
+  const removeFile = (file: File) => {
+    setFiles((prev) => prev.filter((item) => item !== file));
+    setFilePreviews((prev) => {
+      const next = { ...prev };
+      delete next[previewKey(file)];
+      return next;
+    });
+  };
+
+  const addFiles = (incoming: File[]) => {
+    const errors: LocalizedText[] = [];
+    const current = filesRef.current;
+    const accepted: File[] = [];
+    for (const file of incoming) {
+      const error = validateAttachment(file);
+      if (error) errors.push(error);
+      else if (![...current, ...accepted].some((item) => previewKey(item) === previewKey(file))) accepted.push(file);
     }
-    if (file.size > 10 * 1024 * 1024) {
-      console.log("File too large (max 10MB)");
-      return;
+
+    const room = MAX_ATTACHMENTS - current.length;
+    if (accepted.length > room) {
+      errors.push({ key: "composer.tooManyFiles", params: { max: MAX_ATTACHMENTS } });
+      accepted.splice(Math.max(room, 0));
+    }
+    setAttachmentErrors(errors);
+    if (accepted.length === 0) return;
+
+    filesRef.current = [...current, ...accepted];
+    setFiles(filesRef.current);
+    for (const file of accepted) {
+      if (isImageFile(file)) {
+        const reader = new FileReader();
+        reader.onload = (e) => setFilePreviews((prev) => ({ ...prev, [previewKey(file)]: e.target?.result as string }));
+        reader.readAsDataURL(file);
+      } else {
+        // Read documents right away so unreadable ones are rejected before sending
+        extractText(file).catch((error) => {
+          console.warn(`Could not read ${file.name}:`, error);
+          removeFile(file);
+          setAttachmentErrors((prev) => [...prev, { key: "attachment.unreadable", params: { name: file.name } }]);
+        });
+      }
     }
-    setFiles([file]);
-    const reader = new FileReader();
-    reader.onload = (e) => setFilePreviews({ [file.name]: e.target?.result as string });
-    reader.readAsDataURL(file);
   };
+  // The latest addFiles, so drop and paste report errors in the current language
+  const addFilesRef = React.useRef(addFiles);
+  addFilesRef.current = addFiles;
 
   const handleDragOver = React.useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -502,31 +707,23 @@ export const PromptInputBox = React.forwardRef((props: PromptInputBoxProps, ref:
   const handleDrop = React.useCallback((e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
-    const files = Array.from(e.dataTransfer.files);
-    const imageFiles = files.filter((file) => isImageFile(file));
-    if (imageFiles.length > 0) processFile(imageFiles[0]);
+    const dropped = Array.from(e.dataTransfer.files);
+    if (dropped.length > 0) addFilesRef.current(dropped);
   }, []);
 
-  const handleRemoveFile = (index: number) => {
-    const fileToRemove = files[index];
-    if (fileToRemove && filePreviews[fileToRemove.name]) setFilePreviews({});
-    setFiles([]);
-  };
-
   const openImageModal = (imageUrl: string) => setSelectedImage(imageUrl);
 
   const handlePaste = React.useCallback((e: ClipboardEvent) => {
     const items = e.clipboardData?.items;
     if (!items) return;
+    const pasted: File[] = [];
     for (let i = 0; i < items.length; i++) {
-      if (items[i].type.indexOf("image") !== -1) {
-        const file = items[i].getAsFile();
-        if (file) {
-          e.preventDefault();
-          processFile(file);
-          break;
-        }
-      }
+      const file = items[i].kind === "file" ? items[i].getAsFile() : null;
+      if (file) pasted.push(file);
+    }
+    if (pasted.length > 0) {
+      e.preventDefault();
+      addFilesRef.current(pasted);
     }
   }, []);
 
@@ -535,72 +732,242 @@ export const PromptInputBox = React.forwardRef((props: PromptInputBoxProps, ref:
     return () => document.removeEventListener("paste", handlePaste);
   }, [handlePaste]);
 
+  const handleInputChange = (value: string) => {
+    setInput(value);
+    setMenuIndex(0);
+    setCommandNotice(null);
+    setOverLimitWarning(false);
+  };
+
+  const sendMessage = (text: string, options: SendOptions) => {
+    onSend(text, files, options);
+    setInput("");
+    setFiles([]);
+    setFilePreviews({});
+    setAttachmentErrors([]);
+    setOverLimitWarning(false);
+  };
+
+  const commandContext: CommandContext | null =
+    commands && commandActions
+      ? {
+          ...commandActions,
+          models: models.map((model) => model.id),
+          settings,
+          updateSettings: (changes) => onSettingsChange?.({ ...settings, ...changes }),
+          toggleMode: (mode) => (mode === "canvas" ? handleCanvasToggle() : handleToggleChange(mode)),
+          // Search and think stay mutually exclusive, as with the toggle buttons
+          send: (text, mode) =>
+            sendMessage(text, {
+              search: showSearch,
+              think: showThink,
+              canvas: showCanvas,
+              ...(mode === "canvas" ? {} : { search: false, think: false }),
+              [mode]: true,
+            }),
+        }
+      : null;
+
+  const runCommand = ({ command, args }: CommandInvocation) => {
+    if (!commandContext) return;
+    setInput("");
+    setCommandNotice(command.run(args, commandContext) || null);
+  };
+
+  const draftTokens = React.useMemo(
+    () => estimateTextTokens(input) + files.reduce((total, file) => total + estimateAttachmentTokens(file), 0),
+    [input, files]
+  );
+  const isOverLimit = !!contextUsage && contextUsage.historyTokens + draftTokens > contextUsage.limit;
+
   const handleSubmit = () => {
-    if (input.trim() || files.length > 0) {
-      let messagePrefix = "";
-      if (showSearch) messagePrefix = "[Search: ";
-      else if (showThink) messagePrefix = "[Think: ";
-      else if (showCanvas) messagePrefix = "[Canvas: ";
-      const formattedInput = messagePrefix ? `${messagePrefix}${input}]` : input;
-      onSend(formattedInput, files);
-      setInput("");
-      setFiles([]);
-      setFilePreviews({});
+    const invocation = commandContext && commands ? parseSlashCommand(input, commands) : null;
+    if (invocation) {
+      runCommand(invocation);
+      return;
+    }
+    if (!input.trim() && files.length === 0) return;
+    if (isOverLimit) {
+      setOverLimitWarning(true);
+      return;
+    }
+    sendMessage(input, { search: showSearch, think: showThink, canvas: showCanvas });
+  };
+
+  const sendAnyway = () => sendMessage(input, { search: showSearch, think: showThink, canvas: showCanvas });
+
+  const suggestions =
+    commandContext && commands && menuDismissedFor !== input ? suggestCommands(input, commands, commandContext) : null;
+  const isMenuOpen = !!suggestions && (suggestions.items.length > 0 || !!suggestions.command);
+  const hasMenuItems = isMenuOpen && !!suggestions && suggestions.items.length > 0 && !isVoiceActive;
+  const activeIndex = suggestions ? Math.min(menuIndex, suggestions.items.length - 1) : -1;
+
+  const acceptSuggestion = (suggestion: CommandSuggestion) => {
+    if (suggestion.runs) runCommand({ command: suggestion.runs, args: "" });
+    else handleInputChange(suggestion.completion);
+  };
+
+  // Arrows move through the menu, Tab or Enter accept, Escape closes it
+  const handleCommandKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!isMenuOpen || !suggestions) return;
+    if (e.key === "Escape") {
+      e.preventDefault();
+      setMenuDismissedFor(input);
+      return;
+    }
+    const { items } = suggestions;
+    if (items.length === 0) return;
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setMenuIndex((activeIndex + step + items.length) % items.length);
+    } else if (e.key === "Tab" || (e.key === "Enter" && !e.shiftKey)) {
+      e.preventDefault();
+      acceptSuggestion(items[activeIndex]);
     }
   };
 
-  const handleStartRecording = () => console.log("Started recording");
+  // Prefers text selected in the textarea, then text selected elsewhere on the page
+  const captureSelection = () => {
+    const textarea = textareaRef.current;
+    const start = textarea?.selectionStart ?? input.length;
+    const end = textarea?.selectionEnd ?? input.length;
+    insertRangeRef.current = { start, end };
+    if (end > start) return input.slice(start, end);
+    return window.getSelection()?.toString() ?? "";
+  };
 
-  const handleStopRecording = (duration: number) => {
-    console.log(`Stopped recording after ${duration} seconds`);
-    setIsRecording(false);
-    onSend(`[Voice message - ${duration} seconds]`, []);
+  const insertTemplate = (text: string) => {
+    const { start, end } = insertRangeRef.current;
+    handleInputChange(input.slice(0, start) + text + input.slice(end));
+    // Put the caret after the inserted text once the popover has returned focus
+    requestAnimationFrame(() => {
+      const textarea = textareaRef.current;
+      if (!textarea) return;
+      textarea.focus();
+      textarea.setSelectionRange(start + text.length, start + text.length);
+    });
   };
 
   const hasContent = input.trim() !== "" || files.length > 0;
 
+  // The round button sends, stops or records depending on state; the label follows it
+  const primaryActionLabel = t(
+    isLoading
+      ? "composer.stop"
+      : isRecording
+      ? "composer.stopRecording"
+      : isTranscribing
+      ? "composer.transcribing"
+      : hasContent
+      ? "composer.send"
+      : voice.isSupported
+      ? "composer.voice"
+      : "composer.voiceUnsupported"
+  );
+
+  const shortcutActions: Record<ShortcutId, () => void> = {
+    // Toggles, so the same keys close the palette; an open cheat sheet gives way to it
+    openPalette: () => {
+      setIsShortcutSheetOpen(false);
+      setIsPaletteOpen((open) => !open);
+    },
+    showShortcuts: () => setIsShortcutSheetOpen(true),
+    newConversation: () => commandActions?.newConversation(),
+    focusInput: () => textareaRef.current?.focus(),
+    toggleSearch: () => handleToggleChange("search"),
+    toggleThink: () => handleToggleChange("think"),
+    toggleCanvas: handleCanvasToggle,
+    attachFile: () => uploadInputRef.current?.click(),
+    copyLastReply: () => paletteActions?.copyLastReply(),
+    stopGeneration: () => {
+      if (isLoading) onStop?.();
+    },
+  };
+
+  const paletteItems: PaletteItem[] = [];
+  const chatGroup = t("palette.groupChat");
+  const composerGroup = t("palette.groupComposer");
+  const toggleLabel = (on: boolean, mode: string) => t(on ? "palette.turnOff" : "palette.turnOn", { mode });
+  if (commandActions) paletteItems.push({ id: "new", label: t("shortcut.newConversation"), group: chatGroup, shortcut: "newConversation", run: shortcutActions.newConversation });
+  if (isLoading && onStop) paletteItems.push({ id: "stop", label: t("shortcut.stopGeneration"), group: chatGroup, shortcut: "stopGeneration", run: shortcutActions.stopGeneration });
+  if (paletteActions) paletteItems.push({ id: "copy", label: t("shortcut.copyLastReply"), group: chatGroup, shortcut: "copyLastReply", run: shortcutActions.copyLastReply });
+  paletteItems.push(
+    { id: "search", label: toggleLabel(showSearch, t("composer.search")), group: composerGroup, shortcut: "toggleSearch", run: shortcutActions.toggleSearch },
+    { id: "think", label: toggleLabel(showThink, t("composer.think")), group: composerGroup, shortcut: "toggleThink", run: shortcutActions.toggleThink },
+    { id: "canvas", label: toggleLabel(showCanvas, t("composer.canvas")), group: composerGroup, shortcut: "toggleCanvas", run: shortcutActions.toggleCanvas },
+    { id: "attach", label: t("shortcut.attachFile"), group: composerGroup, shortcut: "attachFile", run: shortcutActions.attachFile }
+  );
+  for (const conversation of paletteActions?.conversations ?? []) {
+    if (conversation.id === paletteActions?.activeConversationId) continue;
+    paletteItems.push({
+      id: `conversation-${conversation.id}`,
+      label: conversation.title,
+      group: t("palette.groupConversations"),
+      run: () => paletteActions?.openConversation(conversation.id),
+    });
+  }
+  paletteItems.push({ id: "shortcuts", label: t("shortcuts.title"), group: t("palette.groupHelp"), shortcut: "showShortcuts", run: shortcutActions.showShortcuts });
+
+  useShortcutListener(shortcuts?.bindings, shortcutActions, isPaletteOpen || isShortcutSheetOpen);
+
   return (
     <>
       <PromptInput
         value={input}
-        onValueChange={setInput}
+        onValueChange={handleInputChange}
         isLoading={isLoading}
         onSubmit={handleSubmit}
         className={cn(
-          "w-full bg-[#1F2023] border-[#444444] shadow-[0_8px_30px_rgba(0,0,0,0.24)] transition-all duration-300 ease-in-out",
+          "relative w-full bg-surface border-line-strong shadow-[0_8px_30px_rgba(0,0,0,0.24)] transition-all duration-300 ease-in-out",
           isRecording && "border-red-500/70",
           className
         )}
-        disabled={isLoading || isRecording}
+        disabled={isLoading || isVoiceActive}
         ref={ref || promptBoxRef}
         onDragOver={handleDragOver}
         onDragLeave={handleDragLeave}
         onDrop={handleDrop}
       >
-        {files.length > 0 && !isRecording && (
+        {isMenuOpen && suggestions && !isVoiceActive && (
+          <SlashCommandMenu
+            id={menuId}
+            suggestions={suggestions}
+            activeIndex={activeIndex}
+            onSelect={acceptSuggestion}
+            onHighlight={setMenuIndex}
+          />
+        )}
+
+        {files.length > 0 && !isVoiceActive && (
           <div className="flex flex-wrap gap-2 p-0 pb-1 transition-all duration-300">
-            {files.map((file, index) => (
-              <div key={index} className="relative group">
-                {file.type.startsWith("image/") && filePreviews[file.name] && (
-                  <div
-                    className="w-16 h-16 rounded-xl overflow-hidden cursor-pointer transition-all duration-300"
-                    onClick={() => openImageModal(filePreviews[file.name])}
-                  >
-                    <img
-                      src={filePreviews[file.name]}
-                      alt={file.name}
-                      className="h-full w-full object-cover"
-                    />
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        handleRemoveFile(index);
-                      }}
-                      className="absolute top-1 right-1 rounded-full bg-black/70 p-0.5 opacity-100 transition-opacity"
+            {files.map((file) => (
+              <div key={previewKey(file)} className="relative group">
+                {isImageFile(file) ? (
+                  filePreviews[previewKey(file)] && (
+                    <div
+                      className="w-16 h-16 rounded-xl overflow-hidden cursor-pointer transition-all duration-300"
+                      onClick={() => openImageModal(filePreviews[previewKey(file)])}
                     >
-                      <X className="h-3 w-3 text-white" />
-                    </button>
-                  </div>
+                      <img
+                        src={filePreviews[previewKey(file)]}
+                        alt={file.name}
+                        className="h-full w-full object-cover"
+                      />
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          removeFile(file);
+                        }}
+                        className="absolute top-1 end-1 rounded-full bg-black/70 p-0.5 opacity-100 transition-opacity"
+                        aria-label={t("composer.removeFile", { name: file.name })}
+                      >
+                        <X className="h-3 w-3 text-white" />
+                      </button>
+                    </div>
+                  )
+                ) : (
+                  <FileChip file={file} onRemove={() => removeFile(file)} className="h-16" />
                 )}
               </div>
             ))}
@@ -610,42 +977,95 @@ export const PromptInputBox = React.forwardRef((props: PromptInputBoxProps, ref:
         <div
           className={cn(
             "transition-all duration-300",
-            isRecording ? "h-0 overflow-hidden opacity-0" : "opacity-100"
+            isVoiceActive ? "h-0 overflow-hidden opacity-0" : "opacity-100"
           )}
         >
           <PromptInputTextarea
+            ref={textareaRef}
             placeholder={
               showSearch
-                ? "Search the web..."
+                ? t("composer.searchPlaceholder")
                 : showThink
-                ? "Think deeply..."
+                ? t("composer.thinkPlaceholder")
                 : showCanvas
-                ? "Create on canvas..."
-                : placeholder
+                ? t("composer.canvasPlaceholder")
+                : placeholder ?? t("composer.placeholder")
             }
             className="text-base"
+            dir="auto"
+            aria-label={t("composer.message")}
+            onKeyDown={handleCommandKeyDown}
+            aria-autocomplete={commandContext ? "list" : undefined}
+            aria-controls={hasMenuItems ? menuId : undefined}
+            aria-activedescendant={hasMenuItems ? `${menuId}-${activeIndex}` : undefined}
           />
         </div>
 
-        {isRecording && (
+        {isVoiceActive && (
           <VoiceRecorder
-            isRecording={isRecording}
-            onStartRecording={handleStartRecording}
-            onStopRecording={handleStopRecording}
+            analyser={voice.analyser}
+            elapsed={voice.elapsed}
+            isTranscribing={isTranscribing}
           />
         )}
 
+        {attachmentErrors.length > 0 && !isVoiceActive && (
+          <div className="flex items-start justify-between gap-2 px-3 pb-1 text-xs text-red-400">
+            <ul className="space-y-0.5">
+              {attachmentErrors.map((error, index) => (
+                <li key={index}>{t(error.key, error.params)}</li>
+              ))}
+            </ul>
+            <button type="button" onClick={() => setAttachmentErrors([])} className="text-fg-muted hover:text-fg" aria-label={t("composer.dismiss")}>
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        )}
+
+        {commandNotice && !isVoiceActive && (
+          <div className="flex items-center justify-between gap-2 px-3 pb-1 text-xs text-fg-muted">
+            <span>{t(commandNotice.key, commandNotice.params)}</span>
+            <button type="button" onClick={() => setCommandNotice(null)} className="text-fg-muted hover:text-fg" aria-label={t("composer.dismiss")}>
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        )}
+
+        {overLimitWarning && !isVoiceActive && (
+          <div role="alert" className="flex items-center justify-between gap-2 px-3 pb-1 text-xs text-amber-400">
+            <span>{t("composer.overLimit")}</span>
+            <div className="flex flex-shrink-0 items-center gap-2">
+              <button type="button" onClick={sendAnyway} className="font-medium text-amber-300 hover:text-fg">
+                {t("composer.sendAnyway")}
+              </button>
+              <button type="button" onClick={() => setOverLimitWarning(false)} className="text-fg-muted hover:text-fg">
+                {t("composer.cancel")}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {voice.error && !isRecording && (
+          <div className="flex items-center justify-between gap-2 px-3 pb-1 text-xs text-red-400">
+            <span>{t(voice.error.key, voice.error.params)}</span>
+            <button type="button" onClick={voice.clearError} className="text-fg-muted hover:text-fg" aria-label={t("composer.dismiss")}>
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        )}
+
         <PromptInputActions className="flex items-center justify-between gap-2 p-0 pt-2">
           <div
             className={cn(
               "flex items-center gap-1 transition-opacity duration-300",
-              isRecording ? "opacity-0 invisible h-0" : "opacity-100 visible"
+              isVoiceActive ? "opacity-0 invisible h-0" : "opacity-100 visible"
             )}
           >
-            <PromptInputAction tooltip="Upload image">
+            <PromptInputAction tooltip={t("composer.attachLimit", { max: MAX_ATTACHMENTS })}>
               <button
                 onClick={() => uploadInputRef.current?.click()}
-                className="flex h-8 w-8 text-[#9CA3AF] cursor-pointer items-center justify-center rounded-full transition-colors hover:bg-gray-600/30 hover:text-[#D1D5DB]"
+                aria-label={t("composer.attach")}
+                className="flex h-8 w-8 text-fg-muted cursor-pointer items-center justify-center rounded-full transition-colors hover:bg-fg-subtle/30 hover:text-fg-soft"
                 disabled={isRecording}
               >
                 <Paperclip className="h-5 w-5 transition-colors" />
@@ -654,23 +1074,26 @@ export const PromptInputBox = React.forwardRef((props: PromptInputBoxProps, ref:
                   type="file"
                   className="hidden"
                   onChange={(e) => {
-                    if (e.target.files && e.target.files.length > 0) processFile(e.target.files[0]);
+                    if (e.target.files && e.target.files.length > 0) addFiles(Array.from(e.target.files));
                     if (e.target) e.target.value = "";
                   }}
-                  accept="image/*"
+                  accept={ACCEPTED_FILE_TYPES}
+                  multiple
                 />
               </button>
             </PromptInputAction>
 
-            <div className="flex items-center">
+            <div className="flex items-center" role="group" aria-label={t("composer.modes")}>
               <button
                 type="button"
                 onClick={() => handleToggleChange("search")}
+                aria-pressed={showSearch}
+                aria-label={t("composer.search")}
                 className={cn(
                   "rounded-full transition-all flex items-center gap-1 px-2 py-1 border h-8",
                   showSearch
-                    ? "bg-[#1EAEDB]/15 border-[#1EAEDB] text-[#1EAEDB]"
-                    : "bg-transparent border-transparent text-[#9CA3AF] hover:text-[#D1D5DB]"
+                    ? "bg-mode-search/15 border-mode-search text-mode-search"
+                    : "bg-transparent border-transparent text-fg-muted hover:text-fg-soft"
                 )}
               >
                 <div className="w-5 h-5 flex items-center justify-center flex-shrink-0">
@@ -679,7 +1102,7 @@ export const PromptInputBox = React.forwardRef((props: PromptInputBoxProps, ref:
                     whileHover={{ rotate: showSearch ? 360 : 15, scale: 1.1, transition: { type: "spring", stiffness: 300, damping: 10 } }}
                     transition={{ type: "spring", stiffness: 260, damping: 25 }}
                   >
-                    <Globe className={cn("w-4 h-4", showSearch ? "text-[#1EAEDB]" : "text-inherit")} />
+                    <Globe className={cn("w-4 h-4", showSearch ? "text-mode-search" : "text-inherit")} />
                   </motion.div>
                 </div>
                 <AnimatePresence>
@@ -689,9 +1112,9 @@ export const PromptInputBox = React.forwardRef((props: PromptInputBoxProps, ref:
                       animate={{ width: "auto", opacity: 1 }}
                       exit={{ width: 0, opacity: 0 }}
                       transition={{ duration: 0.2 }}
-                      className="text-xs overflow-hidden whitespace-nowrap text-[#1EAEDB] flex-shrink-0"
+                      className="text-xs overflow-hidden whitespace-nowrap text-mode-search flex-shrink-0"
                     >
-                      Search
+                      {t("composer.search")}
                     </motion.span>
                   )}
                 </AnimatePresence>
@@ -702,11 +1125,13 @@ export const PromptInputBox = React.forwardRef((props: PromptInputBoxProps, ref:
               <button
                 type="button"
                 onClick={() => handleToggleChange("think")}
+                aria-pressed={showThink}
+                aria-label={t("composer.think")}
                 className={cn(
                   "rounded-full transition-all flex items-center gap-1 px-2 py-1 border h-8",
                   showThink
-                    ? "bg-[#8B5CF6]/15 border-[#8B5CF6] text-[#8B5CF6]"
-                    : "bg-transparent border-transparent text-[#9CA3AF] hover:text-[#D1D5DB]"
+                    ? "bg-mode-think/15 border-mode-think text-mode-think"
+                    : "bg-transparent border-transparent text-fg-muted hover:text-fg-soft"
                 )}
               >
                 <div className="w-5 h-5 flex items-center justify-center flex-shrink-0">
@@ -715,7 +1140,7 @@ export const PromptInputBox = React.forwardRef((props: PromptInputBoxProps, ref:
                     whileHover={{ rotate: showThink ? 360 : 15, scale: 1.1, transition: { type: "spring", stiffness: 300, damping: 10 } }}
                     transition={{ type: "spring", stiffness: 260, damping: 25 }}
                   >
-                    <BrainCog className={cn("w-4 h-4", showThink ? "text-[#8B5CF6]" : "text-inherit")} />
+                    <BrainCog className={cn("w-4 h-4", showThink ? "text-mode-think" : "text-inherit")} />
                   </motion.div>
                 </div>
                 <AnimatePresence>
@@ -725,9 +1150,9 @@ export const PromptInputBox = React.forwardRef((props: PromptInputBoxProps, ref:
                       animate={{ width: "auto", opacity: 1 }}
                       exit={{ width: 0, opacity: 0 }}
                       transition={{ duration: 0.2 }}
-                      className="text-xs overflow-hidden whitespace-nowrap text-[#8B5CF6] flex-shrink-0"
+                      className="text-xs overflow-hidden whitespace-nowrap text-mode-think flex-shrink-0"
                     >
-                      Think
+                      {t("composer.think")}
                     </motion.span>
                   )}
                 </AnimatePresence>
@@ -738,11 +1163,13 @@ export const PromptInputBox = React.forwardRef((props: PromptInputBoxProps, ref:
               <button
                 type="button"
                 onClick={handleCanvasToggle}
+                aria-pressed={showCanvas}
+                aria-label={t("composer.canvas")}
                 className={cn(
                   "rounded-full transition-all flex items-center gap-1 px-2 py-1 border h-8",
                   showCanvas
-                    ? "bg-[#F97316]/15 border-[#F97316] text-[#F97316]"
-                    : "bg-transparent border-transparent text-[#9CA3AF] hover:text-[#D1D5DB]"
+                    ? "bg-mode-canvas/15 border-mode-canvas text-mode-canvas"
+                    : "bg-transparent border-transparent text-fg-muted hover:text-fg-soft"
                 )}
               >
                 <div className="w-5 h-5 flex items-center justify-center flex-shrink-0">
@@ -751,7 +1178,7 @@ export const PromptInputBox = React.forwardRef((props: PromptInputBoxProps, ref:
                     whileHover={{ rotate: showCanvas ? 360 : 15, scale: 1.1, transition: { type: "spring", stiffness: 300, damping: 10 } }}
                     transition={{ type: "spring", stiffness: 260, damping: 25 }}
                   >
-                    <FolderCode className={cn("w-4 h-4", showCanvas ? "text-[#F97316]" : "text-inherit")} />
+                    <FolderCode className={cn("w-4 h-4", showCanvas ? "text-mode-canvas" : "text-inherit")} />
                   </motion.div>
                 </div>
                 <AnimatePresence>
@@ -761,60 +1188,88 @@ export const PromptInputBox = React.forwardRef((props: PromptInputBoxProps, ref:
                       animate={{ width: "auto", opacity: 1 }}
                       exit={{ width: 0, opacity: 0 }}
                       transition={{ duration: 0.2 }}
-                      className="text-xs overflow-hidden whitespace-nowrap text-[#F97316] flex-shrink-0"
+                      className="text-xs overflow-hidden whitespace-nowrap text-mode-canvas flex-shrink-0"
                     >
-                      Canvas
+                      {t("composer.canvas")}
                     </motion.span>
                   )}
                 </AnimatePresence>
               </button>
+
+              {templates && (
+                <>
+                  <CustomDivider />
+                  <TemplatePopover
+                    library={templates}
+                    captureSelection={captureSelection}
+                    onInsert={insertTemplate}
+                    disabled={isRecording}
+                  />
+                </>
+              )}
+
+              {onSettingsChange && (
+                <>
+                  <CustomDivider />
+                  <SettingsPopover
+                    settings={settings}
+                    models={models}
+                    defaultModel={defaultModel}
+                    onChange={onSettingsChange}
+                    disabled={isRecording}
+                  />
+                </>
+              )}
             </div>
           </div>
 
-          <PromptInputAction
-            tooltip={
-              isLoading
-                ? "Stop generation"
-                : isRecording
-                ? "Stop recording"
-                : hasContent
-                ? "Send message"
-                : "Voice message"
-            }
-          >
-            <Button
-              variant="default"
-              size="icon"
-              className={cn(
-                "h-8 w-8 rounded-full transition-all duration-200",
-                isRecording
-                  ? "bg-transparent hover:bg-gray-600/30 text-red-500 hover:text-red-400"
-                  : hasContent
-                  ? "bg-white hover:bg-white/80 text-[#1F2023]"
-                  : "bg-transparent hover:bg-gray-600/30 text-[#9CA3AF] hover:text-[#D1D5DB]"
-              )}
-              onClick={() => {
-                if (isRecording) setIsRecording(false);
-                else if (hasContent) handleSubmit();
-                else setIsRecording(true);
-              }}
-              disabled={isLoading && !hasContent}
+          <div className="flex items-center gap-1">
+            {contextUsage && !isVoiceActive && <ContextMeter draftTokens={draftTokens} usage={contextUsage} />}
+            <PromptInputAction
+              tooltip={primaryActionLabel}
             >
-              {isLoading ? (
-                <Square className="h-4 w-4 fill-[#1F2023] animate-pulse" />
-              ) : isRecording ? (
-                <StopCircle className="h-5 w-5 text-red-500" />
-              ) : hasContent ? (
-                <ArrowUp className="h-4 w-4 text-[#1F2023]" />
-              ) : (
-                <Mic className="h-5 w-5 text-[#1F2023] transition-colors" />
-              )}
-            </Button>
-          </PromptInputAction>
+              <Button
+                aria-label={primaryActionLabel}
+                variant="default"
+                size="icon"
+                className={cn(
+                  "h-8 w-8 rounded-full transition-all duration-200",
+                  isRecording
+                    ? "bg-transparent hover:bg-fg-subtle/30 text-red-500 hover:text-red-400"
+                    : isLoading || hasContent
+                    ? "bg-accent hover:bg-accent/80 text-on-accent"
+                    : "bg-transparent hover:bg-fg-subtle/30 text-fg-muted hover:text-fg-soft"
+                )}
+                onClick={() => {
+                  if (isLoading) onStop?.();
+                  else if (isRecording) voice.stop();
+                  else if (hasContent) handleSubmit();
+                  else voice.start();
+                }}
+                disabled={isLoading ? !onStop : isTranscribing || (!hasContent && !isRecording && !voice.isSupported)}
+              >
+                {isLoading ? (
+                  <Square className="h-4 w-4 fill-on-accent animate-pulse" />
+                ) : isRecording ? (
+                  <StopCircle className="h-5 w-5 text-red-500" />
+                ) : hasContent ? (
+                  <ArrowUp className="h-4 w-4 text-on-accent" />
+                ) : (
+                  <Mic className="h-5 w-5 transition-colors" />
+                )}
+              </Button>
+            </PromptInputAction>
+          </div>
         </PromptInputActions>
       </PromptInput>
 
       <ImageViewDialog imageUrl={selectedImage} onClose={() => setSelectedImage(null)} />
+      {shortcuts && (
+        <>
+          <CommandPalette open={isPaletteOpen} onOpenChange={setIsPaletteOpen} items={paletteItems} bindings={shortcuts.bindings} />
+          <ShortcutSheet open={isShortcutSheetOpen} onOpenChange={setIsShortcutSheetOpen} shortcuts={shortcuts} />
+        </>
+      )}
     </>
   );
 });
@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+import type { MessageAttachment } from '../types/chat';
+import { loadAttachment } from '../lib/storage/attachments';
+import type { LocalizedText } from '../lib/i18n';
+
+/**
+ * Loads a stored attachment and exposes it as an object URL for as long as
+ * the component is mounted. `error` is set when the blob is gone.
+ */
+export const useAttachmentUrl = (attachment: MessageAttachment) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [error, setError] = useState<LocalizedText | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let objectUrl: string | null = null;
+
+    loadAttachment(attachment)
+      .then((file) => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(file);
+        setUrl(objectUrl);
+      })
+      .catch((loadError) => {
+        if (cancelled) return;
+        console.warn('Failed to load attachment:', attachment.name, loadError);
+        setError({ key: 'attachment.unavailable', params: { name: attachment.name } });
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      setUrl(null);
+      setError(null);
+    };
+  }, [attachment]);
+
+  return { url, error };
+};
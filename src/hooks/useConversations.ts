@@ -0,0 +1,174 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Artifact, Conversation, GenerationSettings, Message } from '../types/chat';
+import {
+  createConversation,
+  deleteConversation,
+  listConversations,
+  migrateLegacyChats,
+  saveConversation,
+} from '../lib/storage/conversations';
+import { ROOT_ID, pathTo } from '../lib/tree';
+
+// Streaming updates arrive every frame; writes are coalesced per conversation
+const SAVE_DELAY = 400;
+
+// Empty, unnamed chats are kept in memory only
+const isWorthSaving = (conversation: Conversation) => conversation.messages.length > 0 || !!conversation.title;
+
+export const useConversations = () => {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [isReady, setIsReady] = useState(false);
+  const conversationsRef = useRef(conversations);
+  const saveTimers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  conversationsRef.current = conversations;
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      let stored: Conversation[] = [];
+      try {
+        await migrateLegacyChats();
+        stored = await listConversations();
+      } catch (error) {
+        console.error('Failed to load saved conversations:', error);
+      }
+      if (cancelled) return;
+
+      const initial = stored.length > 0 ? stored : [createConversation()];
+      setConversations(initial);
+      setActiveId(initial[0].id);
+      setIsReady(true);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const persist = useCallback((id: string) => {
+    saveTimers.current.delete(id);
+    const conversation = conversationsRef.current.find((item) => item.id === id);
+    if (!conversation) return;
+    // A chat emptied by /clear may still have a stored copy, which would bring the messages back
+    const write = isWorthSaving(conversation) ? saveConversation(conversation) : deleteConversation(id);
+    write.catch((error) => console.error('Failed to save conversation:', error));
+  }, []);
+
+  const scheduleSave = useCallback((id: string) => {
+    const timers = saveTimers.current;
+    const pending = timers.get(id);
+    if (pending) clearTimeout(pending);
+    timers.set(id, setTimeout(() => persist(id), SAVE_DELAY));
+  }, [persist]);
+
+  useEffect(() => {
+    const timers = saveTimers.current;
+    // Flush anything still waiting when the component goes away
+    return () => {
+      timers.forEach((timer, id) => {
+        clearTimeout(timer);
+        persist(id);
+      });
+    };
+  }, [persist]);
+
+  const updateConversation = useCallback((id: string, changes: (conversation: Conversation) => Partial<Conversation>) => {
+    setConversations((prev) =>
+      prev.map((conversation) => (conversation.id === id ? { ...conversation, ...changes(conversation) } : conversation))
+    );
+    scheduleSave(id);
+  }, [scheduleSave]);
+
+  const updateMessages = useCallback((id: string, updater: (messages: Message[]) => Message[]) => {
+    updateConversation(id, (conversation) => ({ messages: updater(conversation.messages), updatedAt: new Date() }));
+  }, [updateConversation]);
+
+  // Removes every message and branch choice, keeping the title, settings and canvas
+  const clearMessages = useCallback((id: string) => {
+    updateConversation(id, () => ({ messages: [], activeChildren: {}, updatedAt: new Date() }));
+  }, [updateConversation]);
+
+  const updateSettings = useCallback((id: string, settings: GenerationSettings) => {
+    updateConversation(id, () => ({ settings }));
+  }, [updateConversation]);
+
+  // Shows `childId` among its siblings under `parentId`
+  const selectBranch = useCallback((id: string, parentId: string, childId: string) => {
+    updateConversation(id, (conversation) => ({ activeChildren: { ...conversation.activeChildren, [parentId]: childId } }));
+  }, [updateConversation]);
+
+  // Switches every branch on the way to `messageId` so it is on screen
+  const revealMessage = useCallback((id: string, messageId: string) => {
+    updateConversation(id, (conversation) => {
+      const activeChildren = { ...conversation.activeChildren };
+      for (const message of pathTo(conversation.messages, messageId)) activeChildren[message.parentId ?? ROOT_ID] = message.id;
+      return { activeChildren };
+    });
+  }, [updateConversation]);
+
+  const updateArtifact = useCallback((id: string, updater: (artifact?: Artifact) => Artifact) => {
+    updateConversation(id, (conversation) => ({ artifact: updater(conversation.artifact), updatedAt: new Date() }));
+  }, [updateConversation]);
+
+  const newConversation = useCallback(() => {
+    const current = conversationsRef.current.find((conversation) => conversation.id === activeId);
+    // Reuse the active chat if nothing has been said in it yet
+    if (current && current.messages.length === 0) return current.id;
+
+    const conversation = createConversation();
+    setConversations((prev) => [conversation, ...prev]);
+    setActiveId(conversation.id);
+    return conversation.id;
+  }, [activeId]);
+
+  // Adds conversations (e.g. from an import) and saves them right away
+  const addConversations = useCallback(async (added: Conversation[]) => {
+    if (added.length === 0) return;
+    setConversations((prev) => [...prev, ...added].sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()));
+    await Promise.all(added.map((conversation) =>
+      saveConversation(conversation).catch((error) => console.error('Failed to save conversation:', error))
+    ));
+  }, []);
+
+  const renameConversation = useCallback((id: string, title: string) => {
+    updateConversation(id, () => ({ title: title.trim() || undefined }));
+  }, [updateConversation]);
+
+  const removeConversation = useCallback(async (id: string) => {
+    const pending = saveTimers.current.get(id);
+    if (pending) clearTimeout(pending);
+    saveTimers.current.delete(id);
+
+    const remaining = conversationsRef.current.filter((conversation) => conversation.id !== id);
+    const next = remaining.length > 0 ? remaining : [createConversation()];
+    setConversations(next);
+    if (id === activeId || remaining.length === 0) setActiveId(next[0].id);
+
+    try {
+      await deleteConversation(id);
+    } catch (error) {
+      console.error('Failed to delete conversation:', error);
+    }
+  }, [activeId]);
+
+  const activeConversation = conversations.find((conversation) => conversation.id === activeId) ?? null;
+
+  return {
+    conversations,
+    activeConversation,
+    activeId,
+    isReady,
+    selectConversation: setActiveId,
+    newConversation,
+    renameConversation,
+    removeConversation,
+    addConversations,
+    updateMessages,
+    clearMessages,
+    updateSettings,
+    updateArtifact,
+    selectBranch,
+    revealMessage,
+  };
+};
@@ -0,0 +1,52 @@
+import React, { useCallback, useContext, useEffect, useLayoutEffect, useMemo, useState } from 'react';
+import { DEFAULT_LOCALE, createTranslator, matchLocale, type Locale, type Translator } from '../lib/i18n';
+import { loadLocale, saveLocale } from '../lib/storage/locale';
+
+export interface I18nSettings extends Translator {
+  // The chosen language, or null while following the browser's
+  preference: Locale | null;
+  setLocale: (locale: Locale | null) => void;
+}
+
+const browserLanguages = (): readonly string[] =>
+  typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language];
+
+// Components rendered outside the provider get English
+const I18nContext = React.createContext<I18nSettings>({
+  ...createTranslator(DEFAULT_LOCALE),
+  preference: null,
+  setLocale: () => {},
+});
+
+/** Supplies the app language to `useI18n` and mirrors it onto <html lang dir>. */
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [preference, setPreference] = useState<Locale | null>(loadLocale);
+  const [languages, setLanguages] = useState(browserLanguages);
+
+  useEffect(() => {
+    const update = () => setLanguages(browserLanguages());
+    window.addEventListener('languagechange', update);
+    return () => window.removeEventListener('languagechange', update);
+  }, []);
+
+  const locale = preference ?? matchLocale(languages);
+  const translator = useMemo(() => createTranslator(locale), [locale]);
+
+  // Before paint, so a right-to-left language never flashes the left-to-right layout
+  useLayoutEffect(() => {
+    const root = document.documentElement;
+    root.lang = translator.locale;
+    root.dir = translator.dir;
+  }, [translator]);
+
+  const setLocale = useCallback((next: Locale | null) => {
+    setPreference(next);
+    saveLocale(next);
+  }, []);
+
+  const value = useMemo(() => ({ ...translator, preference, setLocale }), [translator, preference, setLocale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = () => useContext(I18nContext);
@@ -0,0 +1,23 @@
+import { useMemo, useRef } from 'react';
+import type { Conversation } from '../types/chat';
+import { createMessageIndex, type MessageIndex, type MessageSearchFilters } from '../lib/message-search';
+
+/**
+ * Searches every stored conversation. The index is kept across renders and
+ * only re-reads messages that changed; nothing is indexed while `enabled` is false.
+ */
+export const useMessageSearch = (
+  conversations: Conversation[],
+  query: string,
+  filters: MessageSearchFilters,
+  enabled: boolean
+) => {
+  const indexRef = useRef<MessageIndex | null>(null);
+
+  return useMemo(() => {
+    if (!enabled) return { results: [], models: [] };
+    indexRef.current ??= createMessageIndex();
+    indexRef.current.sync(conversations);
+    return { results: indexRef.current.search(query, filters), models: indexRef.current.models() };
+  }, [conversations, query, filters, enabled]);
+};
@@ -0,0 +1,52 @@
+import { useCallback, useState } from 'react';
+import { exportTemplatesJson, mergeTemplates, parseTemplateLibrary, type PromptTemplate } from '../lib/templates';
+import { loadTemplates, saveTemplates } from '../lib/storage/templates';
+import { downloadFile } from '../lib/export';
+
+export interface PromptTemplateLibrary {
+  templates: PromptTemplate[];
+  // Adds the template, or replaces the one with the same id
+  saveTemplate: (template: PromptTemplate) => void;
+  removeTemplate: (id: string) => void;
+  // Resolves with how many templates were added and how many were already there; rejects with a LocalizedError for invalid files
+  importTemplates: (file: File) => Promise<{ added: number; skipped: number }>;
+  exportTemplates: () => void;
+}
+
+export const usePromptTemplates = (): PromptTemplateLibrary => {
+  const [templates, setTemplates] = useState<PromptTemplate[]>(loadTemplates);
+
+  // Written only on change, so an untouched library keeps following the starter set
+  const update = useCallback((updater: (prev: PromptTemplate[]) => PromptTemplate[]) => {
+    setTemplates((prev) => {
+      const next = updater(prev);
+      saveTemplates(next);
+      return next;
+    });
+  }, []);
+
+  const saveTemplate = useCallback((template: PromptTemplate) => {
+    update((prev) =>
+      prev.some((item) => item.id === template.id)
+        ? prev.map((item) => (item.id === template.id ? template : item))
+        : [...prev, template]
+    );
+  }, [update]);
+
+  const removeTemplate = useCallback((id: string) => {
+    update((prev) => prev.filter((item) => item.id !== id));
+  }, [update]);
+
+  const importTemplates = useCallback(async (file: File) => {
+    const incoming = parseTemplateLibrary(await file.text());
+    const result = mergeTemplates(templates, incoming);
+    update(() => result.templates);
+    return { added: result.added, skipped: result.skipped };
+  }, [templates, update]);
+
+  const exportTemplates = useCallback(() => {
+    downloadFile('prompt-templates.json', exportTemplatesJson(templates), 'application/json');
+  }, [templates]);
+
+  return { templates, saveTemplate, removeTemplate, importTemplates, exportTemplates };
+};
@@ -0,0 +1,36 @@
+import { useEffect, useRef } from 'react';
+import { keysFromEvent, shortcutFor, typesText, type ShortcutBindings, type ShortcutId } from '../lib/shortcuts';
+
+/**
+ * Runs the bound action when a shortcut is pressed anywhere in the window.
+ * While `dialogOpen` is set only `openPalette` fires, so it can close the palette.
+ * Nothing is bound while `bindings` is undefined.
+ */
+export const useShortcutListener = (
+  bindings: ShortcutBindings | undefined,
+  actions: Record<ShortcutId, () => void>,
+  dialogOpen: boolean
+) => {
+  // Mirrors the latest arguments for the window listener, which is bound once
+  const stateRef = useRef({ bindings, actions, dialogOpen });
+  stateRef.current = { bindings, actions, dialogOpen };
+
+  const enabled = !!bindings;
+  useEffect(() => {
+    if (!enabled) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const { bindings, actions, dialogOpen } = stateRef.current;
+      if (!bindings || e.defaultPrevented || e.repeat) return;
+      const keys = keysFromEvent(e);
+      const id = keys ? shortcutFor(bindings, keys) : undefined;
+      if (!keys || !id) return;
+      const target = e.target as HTMLElement | null;
+      if (typesText(keys) && target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+      if (dialogOpen && id !== 'openPalette') return;
+      e.preventDefault();
+      actions[id]();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+};
@@ -0,0 +1,29 @@
+import { useCallback, useState } from 'react';
+import { DEFAULT_BINDINGS, SHORTCUTS, type ShortcutBindings, type ShortcutId } from '../lib/shortcuts';
+import { loadShortcuts, saveShortcuts } from '../lib/storage/shortcuts';
+
+export interface ShortcutSettings {
+  bindings: ShortcutBindings;
+  // Binds `keys` to `id`; an action already using them loses its shortcut, and its id is returned
+  rebind: (id: ShortcutId, keys: string) => ShortcutId | undefined;
+  resetShortcuts: () => void;
+}
+
+export const useShortcuts = (): ShortcutSettings => {
+  const [bindings, setBindings] = useState<ShortcutBindings>(loadShortcuts);
+
+  const update = useCallback((next: ShortcutBindings) => {
+    setBindings(next);
+    saveShortcuts(next);
+  }, []);
+
+  const rebind = useCallback((id: ShortcutId, keys: string) => {
+    const taken = keys ? SHORTCUTS.find((shortcut) => shortcut.id !== id && bindings[shortcut.id] === keys) : undefined;
+    update({ ...bindings, ...(taken && { [taken.id]: '' }), [id]: keys });
+    return taken?.id;
+  }, [bindings, update]);
+
+  const resetShortcuts = useCallback(() => update(DEFAULT_BINDINGS), [update]);
+
+  return { bindings, rebind, resetShortcuts };
+};
@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useLayoutEffect, useState } from 'react';
+import { customProperties, resolveTheme, type SystemThemeHints, type ThemeName, type ThemePreference } from '../lib/theme';
+import { loadTheme, saveTheme } from '../lib/storage/theme';
+
+export interface ThemeSettings {
+  preference: ThemePreference;
+  // The theme on screen, with "system" resolved
+  resolved: ThemeName;
+  updateTheme: (changes: Partial<ThemePreference>) => void;
+}
+
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+const CONTRAST_QUERY = '(prefers-contrast: more)';
+
+const readHints = (): SystemThemeHints => ({
+  dark: typeof matchMedia === 'undefined' || matchMedia(DARK_QUERY).matches,
+  moreContrast: typeof matchMedia !== 'undefined' && matchMedia(CONTRAST_QUERY).matches,
+});
+
+/** Applies the saved theme to <html> and follows the system setting when "system" is chosen. */
+export const useTheme = (): ThemeSettings => {
+  const [preference, setPreference] = useState<ThemePreference>(loadTheme);
+  const [hints, setHints] = useState<SystemThemeHints>(readHints);
+
+  useEffect(() => {
+    if (typeof matchMedia === 'undefined') return;
+    const queries = [matchMedia(DARK_QUERY), matchMedia(CONTRAST_QUERY)];
+    const update = () => setHints(readHints());
+    queries.forEach((query) => query.addEventListener('change', update));
+    return () => queries.forEach((query) => query.removeEventListener('change', update));
+  }, []);
+
+  const resolved = resolveTheme(preference.theme, hints);
+
+  // Before paint, so switching themes never flashes the old colors
+  useLayoutEffect(() => {
+    const root = document.documentElement;
+    root.dataset.theme = resolved;
+    const properties = customProperties(preference);
+    for (const name of ['--color-accent', '--color-on-accent', '--app-background']) {
+      if (properties[name]) root.style.setProperty(name, properties[name]);
+      else root.style.removeProperty(name);
+    }
+  }, [resolved, preference]);
+
+  const updateTheme = useCallback((changes: Partial<ThemePreference>) => {
+    setPreference((prev) => {
+      const next = { ...prev, ...changes };
+      saveTheme(next);
+      return next;
+    });
+  }, []);
+
+  return { preference, resolved, updateTheme };
+};
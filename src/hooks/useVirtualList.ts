@@ -0,0 +1,230 @@
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { flushSync } from 'react-dom';
+import { alignOffset, layoutItems, visibleRange, type ScrollAlign } from '../lib/virtual-list';
+
+// Distance from the end that still counts as being at the bottom
+const BOTTOM_THRESHOLD = 48;
+// Rendered beyond each edge of the viewport, so fast scrolling rarely shows gaps
+const DEFAULT_OVERSCAN = 600;
+
+export interface VirtualItem {
+  key: string;
+  index: number;
+  // Top of the item within the list
+  offset: number;
+}
+
+interface VirtualListOptions {
+  keys: string[];
+  // Height assumed for items that have not been rendered yet
+  estimateSize: number;
+  overscan?: number;
+  // Rendered wherever they are, e.g. the item holding focus
+  pinnedKeys?: (string | null | undefined)[];
+}
+
+export interface VirtualList {
+  // The scrolling element, everything it scrolls, and the element the items are positioned in
+  scrollRef: React.RefObject<HTMLDivElement>;
+  contentRef: React.RefObject<HTMLDivElement>;
+  listRef: React.RefObject<HTMLDivElement>;
+  items: VirtualItem[];
+  totalSize: number;
+  // Ref for each rendered item; the element needs a `data-virtual-key`
+  measureElement: (element: HTMLElement | null) => void;
+  // Set when the end of the list changes while scrolled away from it
+  hasNewContent: boolean;
+  scrollToBottom: () => void;
+  scrollToKey: (key: string, align?: ScrollAlign) => void;
+}
+
+/**
+ * Windowed rendering for a long list of variable-height items. Only the
+ * items near the viewport are mounted; their measured heights replace the
+ * estimate so the scrollbar stays truthful. The list follows new content
+ * while scrolled to the bottom and stays put otherwise.
+ */
+export const useVirtualList = ({
+  keys,
+  estimateSize,
+  overscan = DEFAULT_OVERSCAN,
+  pinnedKeys = [],
+}: VirtualListOptions): VirtualList => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const sizesRef = useRef(new Map<string, number>());
+  const [sizesVersion, setSizesVersion] = useState(0);
+  // Scroll position and height of the viewport, in list coordinates
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+  const [hasNewContent, setHasNewContent] = useState(false);
+  // Whether new content should scroll into view; only true while at the bottom
+  const stickRef = useRef(true);
+  // An item to keep aligned while the items around it are measured
+  const pendingAlignRef = useRef<{ key: string; align: ScrollAlign } | null>(null);
+  // Growth of items above the viewport, scrolled past once the new layout is on screen
+  const anchorDeltaRef = useRef(0);
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const observedRef = useRef(new Set<HTMLElement>());
+
+  const indexes = useMemo(() => new Map(keys.map((key, index) => [key, index])), [keys]);
+  // sizesVersion stands in for the contents of sizesRef
+  const layout = useMemo(() => layoutItems(keys, sizesRef.current, estimateSize), [keys, estimateSize, sizesVersion]);
+  const stateRef = useRef({ indexes, layout, estimateSize });
+  stateRef.current = { indexes, layout, estimateSize };
+
+  const readViewport = useCallback(() => {
+    const container = scrollRef.current;
+    if (!container) return;
+    const top = container.scrollTop - (listRef.current?.offsetTop ?? 0);
+    const height = container.clientHeight;
+    setViewport((prev) => (prev.top === top && prev.height === height ? prev : { top, height }));
+  }, []);
+
+  const alignPending = useCallback(() => {
+    const container = scrollRef.current;
+    const pending = pendingAlignRef.current;
+    if (!container || !pending) return;
+    const { indexes, layout, estimateSize } = stateRef.current;
+    const index = indexes.get(pending.key);
+    if (index === undefined) {
+      pendingAlignRef.current = null;
+      return;
+    }
+    const listTop = listRef.current?.offsetTop ?? 0;
+    const size = sizesRef.current.get(pending.key) ?? estimateSize;
+    container.scrollTop =
+      listTop + alignOffset(layout.offsets[index], size, container.scrollTop - listTop, container.clientHeight, pending.align);
+  }, []);
+
+  const measureElement = useCallback((element: HTMLElement | null) => {
+    if (!observerRef.current) {
+      observerRef.current = new ResizeObserver((entries) => {
+        const container = scrollRef.current;
+        const viewportTop = container ? container.scrollTop - (listRef.current?.offsetTop ?? 0) : 0;
+        const { indexes, layout, estimateSize } = stateRef.current;
+        let changed = false;
+        for (const entry of entries) {
+          const target = entry.target as HTMLElement;
+          const key = target.dataset.virtualKey;
+          if (!key || !target.isConnected) continue;
+          const size = target.offsetHeight;
+          const previous = sizesRef.current.get(key) ?? estimateSize;
+          if (sizesRef.current.get(key) === size) continue;
+          const index = indexes.get(key);
+          if (index !== undefined && layout.offsets[index] + previous <= viewportTop) {
+            anchorDeltaRef.current += size - previous;
+          }
+          sizesRef.current.set(key, size);
+          changed = true;
+        }
+        // Synchronously, so items are repositioned before the resized one is painted over them
+        if (changed) flushSync(() => setSizesVersion((version) => version + 1));
+      });
+    }
+    if (element) {
+      observerRef.current.observe(element);
+      observedRef.current.add(element);
+      return;
+    }
+    // React passes null on unmount without saying which element went away
+    for (const observed of observedRef.current) {
+      if (observed.isConnected) continue;
+      observerRef.current.unobserve(observed);
+      observedRef.current.delete(observed);
+    }
+  }, []);
+
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  // After every layout change and before paint: follow the bottom, finish a jump, or hold the view still
+  useLayoutEffect(() => {
+    const container = scrollRef.current;
+    const delta = anchorDeltaRef.current;
+    anchorDeltaRef.current = 0;
+    if (!container) return;
+    if (stickRef.current) {
+      container.scrollTop = container.scrollHeight;
+    } else if (pendingAlignRef.current) {
+      const before = container.scrollTop;
+      alignPending();
+      const { key } = pendingAlignRef.current ?? {};
+      if (key && Math.abs(container.scrollTop - before) < 1 && sizesRef.current.has(key)) pendingAlignRef.current = null;
+    } else if (delta) {
+      container.scrollTop += delta;
+    }
+    readViewport();
+  }, [layout, alignPending, readViewport]);
+
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (!container) return;
+    const onScroll = () => {
+      stickRef.current = container.scrollHeight - container.scrollTop - container.clientHeight <= BOTTOM_THRESHOLD;
+      if (stickRef.current) setHasNewContent(false);
+      readViewport();
+    };
+    // Scrolling by hand abandons a jump that is still settling
+    const cancelAlign = () => {
+      pendingAlignRef.current = null;
+    };
+    // The viewport or content outside the list (such as a loading indicator) changed size
+    const observer = new ResizeObserver(() => {
+      if (stickRef.current) container.scrollTop = container.scrollHeight;
+      readViewport();
+    });
+    observer.observe(container);
+    if (contentRef.current) observer.observe(contentRef.current);
+    container.addEventListener('scroll', onScroll, { passive: true });
+    for (const type of ['wheel', 'touchstart', 'pointerdown', 'keydown']) container.addEventListener(type, cancelAlign, { passive: true });
+    return () => {
+      observer.disconnect();
+      container.removeEventListener('scroll', onScroll);
+      for (const type of ['wheel', 'touchstart', 'pointerdown', 'keydown']) container.removeEventListener(type, cancelAlign);
+    };
+  }, [readViewport]);
+
+  // A new last item, or the last one growing (a streaming reply), is news only when it is out of view
+  const lastKey = keys[keys.length - 1];
+  const lastSize = lastKey === undefined ? undefined : sizesRef.current.get(lastKey);
+  useEffect(() => {
+    if (lastKey !== undefined && !stickRef.current) setHasNewContent(true);
+  }, [lastKey, lastSize]);
+
+  const scrollToBottom = useCallback(() => {
+    stickRef.current = true;
+    pendingAlignRef.current = null;
+    setHasNewContent(false);
+    const container = scrollRef.current;
+    if (container) container.scrollTop = container.scrollHeight;
+  }, []);
+
+  const scrollToKey = useCallback((key: string, align: ScrollAlign = 'center') => {
+    stickRef.current = false;
+    pendingAlignRef.current = { key, align };
+    alignPending();
+  }, [alignPending]);
+
+  const { start, end } = visibleRange(layout.offsets, viewport.top - overscan, viewport.top + viewport.height + overscan);
+  const rendered = new Set<number>();
+  for (let index = start; index < end; index++) rendered.add(index);
+  for (const key of pinnedKeys) {
+    const index = key ? indexes.get(key) : undefined;
+    if (index !== undefined) rendered.add(index);
+  }
+  const items = Array.from(rendered)
+    .sort((a, b) => a - b)
+    .map((index) => ({ key: keys[index], index, offset: layout.offsets[index] }));
+
+  return {
+    scrollRef,
+    contentRef,
+    listRef,
+    items,
+    totalSize: layout.totalSize,
+    measureElement,
+    hasNewContent,
+    scrollToBottom,
+    scrollToKey,
+  };
+};
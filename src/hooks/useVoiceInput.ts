@@ -0,0 +1,150 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Transcriber, TranscriptionSession } from '../lib/voice/transcribers';
+import { LocalizedError, type LocalizedText } from '../lib/i18n';
+
+export type VoiceInputState = 'idle' | 'recording' | 'transcribing';
+
+interface UseVoiceInputOptions {
+  transcriber: Transcriber | null;
+  onTranscript: (text: string) => void;
+  // App language for transcribers that need one, e.g. "es"
+  lang?: string;
+}
+
+interface Capture {
+  stream: MediaStream;
+  audioContext: AudioContext;
+  recorder: MediaRecorder;
+  chunks: Blob[];
+  session: TranscriptionSession;
+  timer: ReturnType<typeof setInterval>;
+}
+
+const describeError = (error: unknown): LocalizedText => {
+  if (error instanceof DOMException && (error.name === 'NotAllowedError' || error.name === 'SecurityError')) {
+    return { key: 'voice.denied' };
+  }
+  if (error instanceof DOMException && error.name === 'NotFoundError') {
+    return { key: 'voice.noMicrophone' };
+  }
+  if (error instanceof LocalizedError) return error.text;
+  console.error(error);
+  return { key: 'voice.failed' };
+};
+
+/**
+ * Captures microphone audio with MediaRecorder, exposes an AnalyserNode for
+ * level meters, and hands the result to the configured transcriber.
+ */
+export const useVoiceInput = ({ transcriber, onTranscript, lang }: UseVoiceInputOptions) => {
+  const [state, setState] = useState<VoiceInputState>('idle');
+  const [elapsed, setElapsed] = useState(0);
+  const [error, setError] = useState<LocalizedText | null>(null);
+  const [analyser, setAnalyser] = useState<AnalyserNode | null>(null);
+  const captureRef = useRef<Capture | null>(null);
+  const onTranscriptRef = useRef(onTranscript);
+
+  onTranscriptRef.current = onTranscript;
+
+  const release = useCallback(() => {
+    const capture = captureRef.current;
+    if (!capture) return;
+    captureRef.current = null;
+    clearInterval(capture.timer);
+    capture.stream.getTracks().forEach((track) => track.stop());
+    capture.audioContext.close().catch(() => {});
+    setAnalyser(null);
+  }, []);
+
+  const start = useCallback(async () => {
+    if (captureRef.current || !transcriber) return;
+    if (typeof navigator === 'undefined' || !navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined') {
+      setError({ key: 'voice.recordingUnsupported' });
+      return;
+    }
+
+    setError(null);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const audioContext = new AudioContext();
+      const node = audioContext.createAnalyser();
+      node.fftSize = 64;
+      node.smoothingTimeConstant = 0.6;
+      audioContext.createMediaStreamSource(stream).connect(node);
+
+      const recorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+
+      let session: TranscriptionSession;
+      try {
+        session = transcriber.start(stream, lang);
+      } catch (startError) {
+        stream.getTracks().forEach((track) => track.stop());
+        audioContext.close().catch(() => {});
+        throw startError;
+      }
+
+      recorder.start();
+      setElapsed(0);
+      const timer = setInterval(() => setElapsed((seconds) => seconds + 1), 1000);
+      captureRef.current = { stream, audioContext, recorder, chunks, session, timer };
+      setAnalyser(node);
+      setState('recording');
+    } catch (startError) {
+      setError(describeError(startError));
+      setState('idle');
+    }
+  }, [transcriber, lang]);
+
+  const stop = useCallback(async () => {
+    const capture = captureRef.current;
+    if (!capture) return;
+
+    const recording = await new Promise<Blob>((resolve) => {
+      capture.recorder.onstop = () => resolve(new Blob(capture.chunks, { type: capture.recorder.mimeType }));
+      capture.recorder.stop();
+    });
+    release();
+    setState('transcribing');
+
+    try {
+      const text = await capture.session.finish(recording);
+      if (text) onTranscriptRef.current(text);
+      else setError({ key: 'voice.noSpeech' });
+    } catch (finishError) {
+      setError(describeError(finishError));
+    } finally {
+      setState('idle');
+    }
+  }, [release]);
+
+  const cancel = useCallback(() => {
+    const capture = captureRef.current;
+    if (!capture) return;
+    capture.session.cancel();
+    if (capture.recorder.state !== 'inactive') capture.recorder.stop();
+    release();
+    setState('idle');
+  }, [release]);
+
+  // Never leave the microphone open after unmount
+  useEffect(() => () => {
+    captureRef.current?.session.cancel();
+    release();
+  }, [release]);
+
+  return {
+    state,
+    elapsed,
+    error,
+    analyser,
+    isSupported: transcriber !== null,
+    start,
+    stop,
+    cancel,
+    clearError: () => setError(null),
+  };
+};
@@ -0,0 +1,48 @@
+export const createAbortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+// Resolves with `promise`, or rejects with an AbortError as soon as `signal` fires
+export const raceAbort = <T,>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(createAbortError());
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(createAbortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+};
+
+/**
+ * Iterates `iterable` until it ends or `signal` fires. Aborting stops waiting
+ * on the pending part immediately and closes the underlying iterator.
+ */
+export async function* abortable<T>(iterable: AsyncIterable<T>, signal?: AbortSignal): AsyncGenerator<T> {
+  const iterator = iterable[Symbol.asyncIterator]();
+  try {
+    while (!signal?.aborted) {
+      let result: IteratorResult<T>;
+      try {
+        result = await raceAbort(iterator.next(), signal);
+      } catch (error) {
+        if (isAbortError(error)) return;
+        throw error;
+      }
+      if (result.done) return;
+      yield result.value;
+    }
+  } finally {
+    // Let the source release its connection; ignore failures from a stream we no longer read
+    iterator.return?.()?.catch(() => {});
+  }
+}
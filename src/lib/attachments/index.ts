@@ -0,0 +1,105 @@
+import { extractPdfText } from './pdf';
+import type { LocalizedText } from '../i18n';
+
+export type AttachmentKind = 'image' | 'text' | 'pdf';
+
+// Enough to classify a file, whether it is a File in the composer or a stored attachment
+export type AttachmentMeta = Pick<File, 'name' | 'type' | 'size'>;
+
+export const MAX_ATTACHMENTS = 10;
+
+// Per-kind upload limits, in bytes
+export const ATTACHMENT_SIZE_LIMITS: Record<AttachmentKind, number> = {
+  image: 10 * 1024 * 1024,
+  text: 1024 * 1024,
+  pdf: 20 * 1024 * 1024,
+};
+
+// Extracted text beyond this is cut off before it is sent
+export const MAX_EXTRACTED_CHARS = 100_000;
+
+// Source code and data files are read as plain text, whatever MIME type the browser guessed
+const TEXT_EXTENSIONS = new Set([
+  'txt', 'md', 'markdown', 'csv', 'tsv', 'json', 'jsonl', 'xml', 'yaml', 'yml', 'toml', 'ini', 'log',
+  'html', 'css', 'scss', 'js', 'jsx', 'mjs', 'cjs', 'ts', 'tsx', 'py', 'rb', 'php', 'java', 'kt', 'swift',
+  'go', 'rs', 'c', 'h', 'cpp', 'hpp', 'cs', 'sh', 'bash', 'sql', 'r', 'lua', 'dart', 'vue', 'svelte',
+]);
+
+// Value for the file input's `accept` attribute
+export const ACCEPTED_FILE_TYPES = ['image/*', 'text/*', 'application/json', 'application/pdf', '.pdf',
+  ...Array.from(TEXT_EXTENSIONS, (extension) => `.${extension}`)].join(',');
+
+export const extensionOf = (name: string) => {
+  const dot = name.lastIndexOf('.');
+  return dot === -1 ? '' : name.slice(dot + 1).toLowerCase();
+};
+
+export const attachmentKind = (file: AttachmentMeta): AttachmentKind | null => {
+  if (file.type.startsWith('image/')) return 'image';
+  if (file.type === 'application/pdf' || extensionOf(file.name) === 'pdf') return 'pdf';
+  if (file.type.startsWith('text/') || file.type === 'application/json' || TEXT_EXTENSIONS.has(extensionOf(file.name))) {
+    return 'text';
+  }
+  return null;
+};
+
+export const isImageFile = (file: AttachmentMeta) => attachmentKind(file) === 'image';
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Returns the reason the file can't be attached, or null when it is fine
+export const validateAttachment = (file: AttachmentMeta): LocalizedText | null => {
+  const kind = attachmentKind(file);
+  if (!kind) return { key: 'attachment.unsupported', params: { name: file.name } };
+  const limit = ATTACHMENT_SIZE_LIMITS[kind];
+  if (file.size > limit) {
+    return {
+      key: `attachment.tooLarge.${kind}`,
+      params: { name: file.name, size: formatFileSize(file.size), limit: formatFileSize(limit) },
+    };
+  }
+  return null;
+};
+
+// Each file is read once, however many times its turn is re-sent
+const extracted = new WeakMap<File, Promise<string>>();
+
+/**
+ * Reads the text content of a non-image attachment, truncated to
+ * MAX_EXTRACTED_CHARS. Rejects when the file has no readable text.
+ */
+export const extractText = (file: File): Promise<string> => {
+  let pending = extracted.get(file);
+  if (!pending) {
+    pending = (async () => {
+      const text = attachmentKind(file) === 'pdf'
+        ? await extractPdfText(file, MAX_EXTRACTED_CHARS)
+        : await file.text();
+      if (!text.trim()) throw new Error(`${file.name} has no readable text.`);
+      return text.length > MAX_EXTRACTED_CHARS
+        ? `${text.slice(0, MAX_EXTRACTED_CHARS)}\n[Truncated after ${MAX_EXTRACTED_CHARS.toLocaleString()} characters]`
+        : text;
+    })();
+    // Failed reads are retried next time instead of caching the error
+    pending.catch(() => extracted.delete(file));
+    extracted.set(file, pending);
+  }
+  return pending;
+};
+
+// Wraps extracted text in a labeled block so the model knows where each file starts and ends
+export const labelAttachment = (file: AttachmentMeta, text: string) =>
+  `<attachment name="${file.name}" type="${file.type || extensionOf(file.name) || 'text'}">\n${text}\n</attachment>`;
+
+// Rough history cost of an attachment, in characters
+export const attachmentCost = (file: AttachmentMeta) => {
+  const kind = attachmentKind(file);
+  if (kind === 'image') return 4000;
+  // PDFs carry far more bytes than text; assume about a quarter is extractable
+  const estimate = kind === 'pdf' ? file.size / 4 : file.size;
+  return Math.min(Math.round(estimate), MAX_EXTRACTED_CHARS);
+};
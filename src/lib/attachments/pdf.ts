@@ -0,0 +1,40 @@
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+
+// pdf.js is large; it is only loaded the first time a PDF is attached
+const loadPdfJs = async () => {
+  const [pdfjs, worker] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+  return pdfjs;
+};
+
+/**
+ * Extracts the text layer of a PDF page by page, stopping once `maxChars`
+ * have been collected. Scanned PDFs without a text layer yield an empty string.
+ */
+export const extractPdfText = async (file: File, maxChars: number) => {
+  const pdfjs = await loadPdfJs();
+  const document = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+
+  try {
+    const pages: string[] = [];
+    let length = 0;
+    for (let number = 1; number <= document.numPages && length < maxChars; number++) {
+      const page = await document.getPage(number);
+      const { items } = await page.getTextContent();
+      const text = items
+        .map((item) => ('str' in item ? `${(item as TextItem).str}${(item as TextItem).hasEOL ? '\n' : ''}` : ''))
+        .join('')
+        .trim();
+      page.cleanup();
+      if (!text) continue;
+      pages.push(`[Page ${number}]\n${text}`);
+      length += text.length;
+    }
+    return pages.join('\n\n');
+  } finally {
+    await document.destroy();
+  }
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { splitArtifact } from './canvas';
+
+describe('splitArtifact', () => {
+  it('separates a complete artifact from the chat text', () => {
+    const reply = 'Here it is.\n<artifact title="Hello" language="Python">\nprint("hi")\n</artifact>\nRun it with python.';
+    expect(splitArtifact(reply)).toEqual({
+      message: 'Here it is.\n\nRun it with python.',
+      draft: { title: 'Hello', language: 'python', content: 'print("hi")', isComplete: true },
+    });
+  });
+
+  it('returns an incomplete draft while the artifact is streaming', () => {
+    const { message, draft } = splitArtifact('Sure.\n<artifact title="Notes" language="markdown">\n# Heading\nSome te');
+    expect(message).toBe('Sure.');
+    expect(draft).toEqual({ title: 'Notes', language: 'markdown', content: '# Heading\nSome te', isComplete: false });
+  });
+
+  it('holds back a closing tag split across chunks', () => {
+    expect(splitArtifact('<artifact title="a">\nbody\n</artif').draft?.content).toBe('body');
+  });
+
+  it('holds back an opening tag split across chunks', () => {
+    expect(splitArtifact('Working on it <arti')).toEqual({ message: 'Working on it' });
+    expect(splitArtifact('Working on it <artifact title="x" lang')).toEqual({ message: 'Working on it' });
+  });
+
+  it('strips a Markdown fence around the content', () => {
+    const { draft } = splitArtifact('<artifact language="ts">\n```ts\nconst a = 1;\n```\n</artifact>');
+    expect(draft?.content).toBe('const a = 1;');
+    // The title is left empty for the UI to fill in
+    expect(draft?.title).toBe('');
+  });
+});
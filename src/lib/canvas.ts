@@ -0,0 +1,136 @@
+import type { Artifact, ArtifactVersion } from '../types/chat';
+import { partialTagLength } from './stream-tags';
+
+const OPEN_TAG = '<artifact';
+const CLOSE_TAG = '</artifact>';
+
+// Tells the model how to hand back the canvas content so it can be split from the chat reply
+export const CANVAS_INSTRUCTION =
+  'You are editing a document or code file shown in a canvas next to the chat. ' +
+  'Put the complete, up-to-date file inside a single <artifact title="..." language="..."> ... </artifact> block, ' +
+  'using a short descriptive title and a lowercase language such as "typescript", "python" or "markdown". ' +
+  'Always return the whole file, never a partial patch. Keep any explanation outside the block and brief.';
+
+export interface ArtifactDraft {
+  // Empty when the model left out the title attribute
+  title: string;
+  language: string;
+  content: string;
+  // False while the closing tag has not arrived yet
+  isComplete: boolean;
+}
+
+export interface SplitReply {
+  // The reply with the artifact block removed
+  message: string;
+  draft?: ArtifactDraft;
+}
+
+const attributeOf = (tag: string, name: string) =>
+  new RegExp(`${name}\\s*=\\s*"([^"]*)"`).exec(tag)?.[1]?.trim() ?? '';
+
+// Models often wrap the file in a Markdown fence even when told not to
+const stripFence = (content: string) => {
+  // A fence line that is still streaming in carries no content yet
+  if (/^\s*(`+|~+)[^\n]*$/.test(content)) return '';
+  const match = /^\s*(`{3,}|~{3,})[^\n]*\n([\s\S]*?)(?:\n\1\s*)?$/.exec(content);
+  return match ? match[2] : content.replace(/^\n+|\s+$/g, '');
+};
+
+/**
+ * Separates the artifact block from a (possibly still streaming) canvas reply.
+ * An unterminated block yields an incomplete draft so the panel can fill in live.
+ */
+export const splitArtifact = (text: string): SplitReply => {
+  const start = text.indexOf(OPEN_TAG);
+  if (start === -1) {
+    return { message: text.slice(0, text.length - partialTagLength(text, OPEN_TAG)).trim() };
+  }
+
+  const before = text.slice(0, start);
+  const tagEnd = text.indexOf('>', start);
+  if (tagEnd === -1) return { message: before.trim() };
+
+  const tag = text.slice(start, tagEnd + 1);
+  const body = text.slice(tagEnd + 1);
+  const end = body.indexOf(CLOSE_TAG);
+  const isComplete = end !== -1;
+  const raw = isComplete ? body.slice(0, end) : body.slice(0, body.length - partialTagLength(body, CLOSE_TAG));
+  const after = isComplete ? body.slice(end + CLOSE_TAG.length) : '';
+
+  return {
+    message: [before.trim(), after.trim()].filter(Boolean).join('\n\n'),
+    draft: {
+      title: attributeOf(tag, 'title'),
+      language: attributeOf(tag, 'language').toLowerCase() || 'text',
+      content: stripFence(raw),
+      isComplete,
+    },
+  };
+};
+
+// Adds the current artifact to the question so follow-ups revise it in place
+export const canvasPrompt = (question: string, artifact?: Artifact) => {
+  const current = artifact ? latestVersion(artifact) : undefined;
+  if (!artifact || !current) return question;
+  return [
+    `The canvas currently contains "${artifact.title}" (${artifact.language}):`,
+    `<artifact title="${artifact.title}" language="${artifact.language}">`,
+    current.content,
+    CLOSE_TAG,
+    '',
+    `Request: ${question}`,
+  ].join('\n');
+};
+
+export const latestVersion = (artifact: Artifact): ArtifactVersion | undefined =>
+  artifact.versions[artifact.versions.length - 1];
+
+// Appends a version, skipping it when nothing actually changed
+export const addArtifactVersion = (
+  artifact: Artifact | undefined,
+  changes: Pick<Artifact, 'title' | 'language'> & Omit<ArtifactVersion, 'createdAt'>
+): Artifact => {
+  const { title, language, ...version } = changes;
+  if (artifact && latestVersion(artifact)?.content === version.content) {
+    return { ...artifact, title, language };
+  }
+  return {
+    title,
+    language,
+    versions: [...(artifact?.versions ?? []), { ...version, createdAt: new Date() }],
+  };
+};
+
+const EXTENSIONS: Record<string, string> = {
+  bash: 'sh',
+  c: 'c',
+  cpp: 'cpp',
+  csharp: 'cs',
+  css: 'css',
+  go: 'go',
+  html: 'html',
+  java: 'java',
+  javascript: 'js',
+  json: 'json',
+  jsx: 'jsx',
+  kotlin: 'kt',
+  markdown: 'md',
+  php: 'php',
+  python: 'py',
+  ruby: 'rb',
+  rust: 'rs',
+  shell: 'sh',
+  sql: 'sql',
+  swift: 'swift',
+  text: 'txt',
+  tsx: 'tsx',
+  typescript: 'ts',
+  yaml: 'yml',
+};
+
+export const artifactFileName = (artifact: Pick<Artifact, 'title' | 'language'>) => {
+  const base = artifact.title.trim().replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '') || 'canvas';
+  const extension = EXTENSIONS[artifact.language] ?? 'txt';
+  return base.toLowerCase().endsWith(`.${extension}`) ? base : `${base}.${extension}`;
+};
@@ -0,0 +1,192 @@
+import type { GenerationSettings, SendOptions } from '../types/chat';
+import type { ExportFormat } from './export';
+import type { ShortcutId } from './shortcuts';
+import type { LocalizedText, MessageKey } from './i18n';
+
+export type ComposerMode = keyof SendOptions;
+
+/**
+ * What a command can act on. The composer supplies the mode, send and
+ * settings parts; the chat view supplies the conversation actions.
+ */
+export interface CommandContext {
+  models: string[];
+  settings: GenerationSettings;
+  updateSettings: (changes: Partial<GenerationSettings>) => void;
+  toggleMode: (mode: ComposerMode) => void;
+  // Sends `text` with `mode` switched on for this message
+  send: (text: string, mode: ComposerMode) => void;
+  newConversation: () => void;
+  clearConversation: () => void;
+  exportConversation: (format: ExportFormat) => void;
+}
+
+export type AppCommandActions = Pick<CommandContext, 'newConversation' | 'clearConversation' | 'exportConversation'>;
+
+export interface SlashCommand {
+  // Typed after the slash, e.g. "model" for /model
+  name: string;
+  description: MessageKey;
+  // Shown while typing arguments, e.g. "<model>"; commands without one run as soon as they are picked
+  argumentHint?: string;
+  // Completions offered for the argument
+  argumentOptions?: (context: CommandContext) => string[];
+  // May return a short notice to show under the input
+  run: (args: string, context: CommandContext) => LocalizedText | void;
+}
+
+const EXPORT_FORMATS: ExportFormat[] = ['markdown', 'json', 'html'];
+
+const modeCommand = (mode: ComposerMode, description: MessageKey): SlashCommand => ({
+  name: mode,
+  description,
+  argumentHint: '[message]',
+  run: (args, context) => (args ? context.send(args, mode) : context.toggleMode(mode)),
+});
+
+// Every slash command the composer knows; add new ones here
+export const SLASH_COMMANDS: SlashCommand[] = [
+  {
+    name: 'new',
+    description: 'command.new',
+    run: (_args, context) => context.newConversation(),
+  },
+  {
+    name: 'clear',
+    description: 'command.clear',
+    run: (_args, context) => context.clearConversation(),
+  },
+  {
+    name: 'model',
+    description: 'command.model',
+    argumentHint: '<model>',
+    argumentOptions: (context) => context.models,
+    run: (args, context) => {
+      if (!args) {
+        const model = context.settings.model;
+        return model ? { key: 'command.currentModel', params: { model } } : { key: 'command.defaultModel' };
+      }
+      if (context.models.length > 0 && !context.models.includes(args)) return { key: 'command.unknownModel', params: { model: args } };
+      context.updateSettings({ model: args });
+      return { key: 'command.modelSet', params: { model: args } };
+    },
+  },
+  {
+    name: 'system',
+    description: 'command.system',
+    argumentHint: '[prompt]',
+    run: (args, context) => {
+      context.updateSettings({ systemPrompt: args || undefined });
+      return { key: args ? 'command.systemUpdated' : 'command.systemCleared' };
+    },
+  },
+  {
+    name: 'export',
+    description: 'command.export',
+    argumentHint: '[markdown|json|html]',
+    argumentOptions: () => EXPORT_FORMATS,
+    run: (args, context) => {
+      const format = (args || 'markdown') as ExportFormat;
+      if (!EXPORT_FORMATS.includes(format)) return { key: 'command.exportFormats', params: { formats: EXPORT_FORMATS.join(', ') } };
+      context.exportConversation(format);
+    },
+  },
+  modeCommand('search', 'command.search'),
+  modeCommand('think', 'command.think'),
+  modeCommand('canvas', 'command.canvas'),
+];
+
+export interface CommandInvocation {
+  command: SlashCommand;
+  args: string;
+}
+
+// "/name args" for a registered command; anything else is an ordinary message
+export const parseSlashCommand = (input: string, commands: SlashCommand[]): CommandInvocation | null => {
+  const match = /^\/(\S+)(?:\s+([\s\S]*))?$/.exec(input.trim());
+  const command = match && commands.find((item) => item.name === match[1].toLowerCase());
+  return command ? { command, args: (match[2] ?? '').trim() } : null;
+};
+
+export interface CommandSuggestion {
+  key: string;
+  label: string;
+  description?: MessageKey;
+  // Input text after accepting the suggestion
+  completion: string;
+  // Set when accepting should run the command straight away
+  runs?: SlashCommand;
+}
+
+export interface CommandSuggestions {
+  // The command whose arguments are being typed, for the hint line
+  command?: SlashCommand;
+  items: CommandSuggestion[];
+}
+
+const NO_SUGGESTIONS: CommandSuggestions = { items: [] };
+// Long model lists are narrowed by typing rather than scrolled
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * Suggestions for a partly typed command: matching command names until the
+ * first space, then completions for the argument.
+ */
+export const suggestCommands = (input: string, commands: SlashCommand[], context: CommandContext): CommandSuggestions => {
+  if (!input.startsWith('/') || input.includes('\n')) return NO_SUGGESTIONS;
+  const space = input.search(/\s/);
+
+  if (space === -1) {
+    const prefix = input.slice(1).toLowerCase();
+    const matching = commands.filter((command) => command.name.startsWith(prefix));
+    return {
+      items: matching.map((command) => ({
+        key: command.name,
+        label: `/${command.name}${command.argumentHint ? ` ${command.argumentHint}` : ''}`,
+        description: command.description,
+        completion: `/${command.name}${command.argumentHint ? ' ' : ''}`,
+        runs: command.argumentHint ? undefined : command,
+      })),
+    };
+  }
+
+  const command = commands.find((item) => item.name === input.slice(1, space).toLowerCase());
+  if (!command) return NO_SUGGESTIONS;
+  const partial = input.slice(space).trimStart().toLowerCase();
+  const options = command.argumentOptions?.(context) ?? [];
+  return {
+    command,
+    items: options
+      .filter((option) => option.toLowerCase().includes(partial) && option.toLowerCase() !== partial)
+      .slice(0, MAX_SUGGESTIONS)
+      .map((option) => ({ key: option, label: option, completion: `/${command.name} ${option}` })),
+  };
+};
+
+// --- Command palette -------------------------------------------------------
+
+/** Palette entries the chat view supplies; the composer adds its own mode and attachment actions. */
+export interface AppPaletteActions {
+  conversations: { id: string; title: string }[];
+  activeConversationId: string | null;
+  openConversation: (id: string) => void;
+  copyLastReply: () => void;
+}
+
+export interface PaletteItem {
+  id: string;
+  label: string;
+  group: string;
+  // Shown next to the label when the action has a shortcut
+  shortcut?: ShortcutId;
+  run: () => void;
+}
+
+// Every word of the query has to appear in the label or group
+export const filterPaletteItems = (items: PaletteItem[], query: string) => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return items.filter((item) => {
+    const text = `${item.group} ${item.label}`.toLowerCase();
+    return words.every((word) => text.includes(word));
+  });
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { diffLines } from './diff';
+
+describe('diffLines', () => {
+  it('marks every line the same for identical text', () => {
+    expect(diffLines('a\nb', 'a\nb')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'same', text: 'b' },
+    ]);
+  });
+
+  it('finds changed lines between a shared prefix and suffix', () => {
+    expect(diffLines('a\nb\nc\nd', 'a\nx\nc\nd\ne')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'added', text: 'x' },
+      { type: 'same', text: 'c' },
+      { type: 'same', text: 'd' },
+      { type: 'added', text: 'e' },
+    ]);
+  });
+
+  it('keeps the longest common run when lines move', () => {
+    const lines = diffLines('one\ntwo\nthree', 'three\none\ntwo');
+    expect(lines.filter((line) => line.type === 'same').map((line) => line.text)).toEqual(['one', 'two']);
+    expect(lines.filter((line) => line.type !== 'same')).toEqual([
+      { type: 'added', text: 'three' },
+      { type: 'removed', text: 'three' },
+    ]);
+  });
+});
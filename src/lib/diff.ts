@@ -0,0 +1,72 @@
+export type DiffLineType = 'same' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+// Above this many line pairs the LCS table gets too large; fall back to a plain replace
+const MAX_CELLS = 4_000_000;
+
+/**
+ * Line-based diff using the longest common subsequence, good enough for
+ * comparing versions of a single file.
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // Common prefix and suffix are cheap to peel off and usually most of the file
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const head = a.slice(0, start).map((text): DiffLine => ({ type: 'same', text }));
+  const tail = a.slice(endA).map((text): DiffLine => ({ type: 'same', text }));
+  const oldLines = a.slice(start, endA);
+  const newLines = b.slice(start, endB);
+
+  if (oldLines.length * newLines.length > MAX_CELLS) {
+    return [
+      ...head,
+      ...oldLines.map((text): DiffLine => ({ type: 'removed', text })),
+      ...newLines.map((text): DiffLine => ({ type: 'added', text })),
+      ...tail,
+    ];
+  }
+
+  // lengths[i][j] = LCS length of oldLines[i..] and newLines[j..]
+  const columns = newLines.length + 1;
+  const lengths = new Uint32Array((oldLines.length + 1) * columns);
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      lengths[i * columns + j] = oldLines[i] === newLines[j]
+        ? lengths[(i + 1) * columns + j + 1] + 1
+        : Math.max(lengths[(i + 1) * columns + j], lengths[i * columns + j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length && j < newLines.length) {
+    if (oldLines[i] === newLines[j]) {
+      middle.push({ type: 'same', text: oldLines[i] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * columns + j] >= lengths[i * columns + j + 1]) {
+      middle.push({ type: 'removed', text: oldLines[i++] });
+    } else {
+      middle.push({ type: 'added', text: newLines[j++] });
+    }
+  }
+  while (i < oldLines.length) middle.push({ type: 'removed', text: oldLines[i++] });
+  while (j < newLines.length) middle.push({ type: 'added', text: newLines[j++] });
+
+  return [...head, ...middle, ...tail];
+};
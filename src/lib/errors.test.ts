@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ChatError, classifyError, errorFromResponse, isRetryable, parseRetryAfter, retryDelay } from './errors';
+
+describe('classifyError', () => {
+  it.each([
+    ['connect ECONNREFUSED 127.0.0.1:8080', 'network'],
+    ['Connection refused by the upstream server', 'network'],
+    ['Failed to fetch', 'network'],
+    ['Rate limit exceeded', 'rate-limited'],
+    ['Invalid API key', 'auth'],
+    ['The model refused to answer this request', 'content-rejected'],
+    ['Flagged by moderation', 'content-rejected'],
+    ['Something odd happened', 'unknown'],
+  ])('classifies "%s" as %s', (message, kind) => {
+    expect(classifyError(new Error(message)).kind).toBe(kind);
+  });
+
+  it('prefers the HTTP status over the message', () => {
+    expect(classifyError(Object.assign(new Error('refused to continue'), { status: 503 })).kind).toBe('network');
+    expect(classifyError({ status: 401, error: { message: 'nope' } }).kind).toBe('auth');
+  });
+
+  it('treats a bare TypeError from fetch as a network failure', () => {
+    expect(classifyError(new TypeError('oops')).kind).toBe('network');
+  });
+
+  it('reads the message from Puter-style rejections', () => {
+    const error = classifyError({ success: false, error: { message: 'Too many requests' } });
+    expect(error.kind).toBe('rate-limited');
+    expect(error.message).toBe('Too many requests');
+  });
+
+  it('returns ChatErrors unchanged', () => {
+    const error = new ChatError('auth', 'denied');
+    expect(classifyError(error)).toBe(error);
+  });
+
+  it('only retries network and rate-limit failures', () => {
+    expect(isRetryable(new ChatError('network', ''))).toBe(true);
+    expect(isRetryable(new ChatError('rate-limited', ''))).toBe(true);
+    expect(isRetryable(new ChatError('auth', ''))).toBe(false);
+  });
+});
+
+describe('errorFromResponse', () => {
+  it('classifies by status and keeps Retry-After', async () => {
+    const error = await errorFromResponse(new Response('slow down', { status: 429, statusText: 'Too Many Requests', headers: { 'Retry-After': '2' } }));
+    expect(error.kind).toBe('rate-limited');
+    expect(error.retryAfterMs).toBe(2000);
+    expect(error.message).toBe('429 Too Many Requests: slow down');
+  });
+
+  it('falls back to the body for statuses that say little', async () => {
+    const error = await errorFromResponse(new Response('Your prompt was flagged by our content policy', { status: 400 }));
+    expect(error.kind).toBe('content-rejected');
+  });
+});
+
+describe('retryDelay', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('backs off exponentially with jitter', () => {
+    const error = new ChatError('network', '');
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    expect([0, 1, 2].map((attempt) => retryDelay(attempt, error))).toEqual([1000, 2000, 4000]);
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(retryDelay(2, error)).toBe(2000);
+  });
+
+  it('caps the delay', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    expect(retryDelay(10, new ChatError('network', ''))).toBe(30000);
+  });
+
+  it('uses the server-provided delay when there is one', () => {
+    expect(retryDelay(0, new ChatError('rate-limited', '', { retryAfterMs: 5000 }))).toBe(5000);
+    expect(retryDelay(0, new ChatError('rate-limited', '', { retryAfterMs: 120000 }))).toBe(30000);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads seconds and HTTP dates', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('not a date')).toBeUndefined();
+    const inAMinute = new Date(Date.now() + 60000).toUTCString();
+    expect(parseRetryAfter(inAMinute)).toBeGreaterThan(50000);
+  });
+});
@@ -0,0 +1,123 @@
+import { createAbortError } from './abortable';
+
+export type ChatErrorKind = 'script-missing' | 'network' | 'rate-limited' | 'content-rejected' | 'auth' | 'unknown';
+
+interface ChatErrorOptions {
+  status?: number;
+  // From a Retry-After header, when the service sent one
+  retryAfterMs?: number;
+  cause?: unknown;
+}
+
+/**
+ * An error from the chat service, classified so the UI can explain it and
+ * decide whether retrying makes sense.
+ */
+export class ChatError extends Error {
+  readonly kind: ChatErrorKind;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+  readonly cause?: unknown;
+
+  constructor(kind: ChatErrorKind, message: string, options: ChatErrorOptions = {}) {
+    super(message);
+    this.name = 'ChatError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.cause = options.cause;
+  }
+}
+
+const kindFromStatus = (status: number): ChatErrorKind => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'rate-limited';
+  if (status === 408 || status >= 500) return 'network';
+  // 400 and friends are left to the message, which may say why
+  return 'unknown';
+};
+
+const kindFromMessage = (message: string): ChatErrorKind => {
+  const text = message.toLowerCase();
+  if (/rate.?limit|too many requests|quota|overloaded/.test(text)) return 'rate-limited';
+  if (/unauthori[sz]ed|authenticat|api key|forbidden|permission|not logged in|sign in/.test(text)) return 'auth';
+  // Before the content check, so "connection refused" is retried rather than reported as a refusal
+  if (/failed to fetch|networkerror|network error|load failed|timed? ?out|econn|connection (?:refused|reset)|offline/.test(text)) return 'network';
+  if (/content.?policy|moderation|safety|flagged|\brefus(?:ed|al) to\b|harmful/.test(text)) return 'content-rejected';
+  return 'unknown';
+};
+
+// Parses Retry-After, which is either seconds or an HTTP date
+export const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Builds a ChatError from a failed HTTP response, keeping the start of the
+ * body for context.
+ */
+export const errorFromResponse = async (response: Response) => {
+  const detail = await response.text().catch(() => '');
+  const message = `${response.status} ${response.statusText}${detail ? `: ${detail.slice(0, 300)}` : ''}`;
+  const kind = kindFromStatus(response.status);
+  return new ChatError(kind === 'unknown' ? kindFromMessage(detail) : kind, message, {
+    status: response.status,
+    retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+  });
+};
+
+const messageOf = (error: unknown): string => {
+  if (error instanceof Error) return error.message;
+  if (typeof error === 'string') return error;
+  // Puter rejects with plain objects such as { success: false, error: { message, code } }
+  const nested = (error as { error?: { message?: unknown; code?: unknown } } | null)?.error;
+  if (typeof nested?.message === 'string') return nested.message;
+  if (typeof nested?.code === 'string') return nested.code;
+  return 'Unknown error';
+};
+
+export const classifyError = (error: unknown): ChatError => {
+  if (error instanceof ChatError) return error;
+  const message = messageOf(error);
+  const status = (error as { status?: unknown } | null)?.status;
+  let kind = typeof status === 'number' ? kindFromStatus(status) : 'unknown';
+  if (kind === 'unknown') kind = kindFromMessage(message);
+  // fetch rejects with a bare TypeError when the request never got a response
+  if (kind === 'unknown' && error instanceof TypeError) kind = 'network';
+  if (kind === 'unknown' && typeof navigator !== 'undefined' && navigator.onLine === false) kind = 'network';
+  return new ChatError(kind, message, { status: typeof status === 'number' ? status : undefined, cause: error });
+};
+
+export const isRetryable = (error: ChatError) => error.kind === 'network' || error.kind === 'rate-limited';
+
+export const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+
+// Exponential backoff with jitter; a Retry-After from the server wins
+export const retryDelay = (attempt: number, error: ChatError) => {
+  if (error.retryAfterMs !== undefined) return Math.min(error.retryAfterMs, MAX_DELAY_MS);
+  const exponential = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+  return Math.round(exponential * (0.5 + Math.random() / 2));
+};
+
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
@@ -0,0 +1,131 @@
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeHighlight from 'rehype-highlight';
+import highlightStyles from 'highlight.js/styles/github-dark.css?inline';
+import type { Conversation, Message } from '../../types/chat';
+import { conversationTitle } from '../storage/conversations';
+import { formatFileSize, isImageFile } from '../attachments';
+import { loadAttachment } from '../storage/attachments';
+import { activePath } from '../tree';
+import type { TextExportOptions } from './markdown';
+
+const PAGE_STYLES = `
+  body { margin: 0; background: #111214; color: #e5e7eb; font: 15px/1.6 system-ui, -apple-system, sans-serif; }
+  main { max-width: 820px; margin: 0 auto; padding: 32px 20px; }
+  h1.title { font-size: 28px; margin: 0 0 4px; }
+  .meta { color: #9ca3af; font-size: 13px; }
+  section.conversation + section.conversation { margin-top: 48px; border-top: 1px solid #333; padding-top: 32px; }
+  .message { margin: 20px 0; padding: 14px 18px; border-radius: 16px; border: 1px solid #333; background: #1f2023; }
+  .message.user { background: #fff; color: #111; border-color: #fff; margin-left: 15%; }
+  .message.user .meta { color: #555; }
+  .message .speaker { font-weight: 600; margin-right: 6px; }
+  .message.user .body { white-space: pre-wrap; }
+  .body pre { background: #0d1117; border: 1px solid #333; border-radius: 8px; padding: 12px; overflow-x: auto; }
+  .body code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 0.9em; }
+  .body :not(pre) > code { background: rgba(255,255,255,0.1); padding: 1px 4px; border-radius: 4px; }
+  .body table { border-collapse: collapse; } .body th, .body td { border: 1px solid #444; padding: 4px 10px; }
+  .body a, .sources a { color: #60a5fa; }
+  .attachments { display: flex; flex-wrap: wrap; gap: 8px; margin-bottom: 8px; }
+  .attachments img { max-width: 240px; max-height: 240px; border-radius: 10px; }
+  .attachments .file { font-size: 12px; padding: 4px 8px; border-radius: 8px; background: rgba(127,127,127,0.15); }
+  details { margin-bottom: 8px; color: #9ca3af; font-size: 13px; white-space: pre-wrap; }
+  .sources { font-size: 13px; margin-top: 8px; }
+`;
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, (char) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char] ?? char);
+
+// Same pipeline as the chat view: GFM, highlighting, and raw HTML dropped
+const renderMarkdown = (markdown: string) =>
+  renderToStaticMarkup(
+    <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeHighlight]} skipHtml>
+      {markdown}
+    </ReactMarkdown>
+  );
+
+const fileToDataUrl = (file: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const renderAttachments = async (message: Message) => {
+  if (!message.attachments?.length) return '';
+  const items = await Promise.all(message.attachments.map(async (attachment) => {
+    if (isImageFile(attachment)) {
+      try {
+        // Images are inlined so the page works offline
+        const url = await fileToDataUrl(await loadAttachment(attachment));
+        return `<img src="${url}" alt="${escapeHtml(attachment.name)}">`;
+      } catch (error) {
+        console.warn('Leaving out missing image from HTML export:', attachment.name, error);
+      }
+    }
+    return `<span class="file">📎 ${escapeHtml(attachment.name)} (${formatFileSize(attachment.size)})</span>`;
+  }));
+  return `<div class="attachments">${items.join('')}</div>`;
+};
+
+const renderMessage = async (message: Message, options: TextExportOptions) => {
+  const isUser = message.sender === 'user';
+  const meta = [message.timestamp.toLocaleString(), message.model, message.status === 'stopped' ? 'stopped' : undefined, message.status === 'error' ? 'failed' : undefined]
+    .filter(Boolean)
+    .map((part) => escapeHtml(String(part)))
+    .join(' · ');
+  const reasoning = options.includeReasoning && message.reasoning?.text
+    ? `<details><summary>Reasoning</summary>${escapeHtml(message.reasoning.text)}</details>`
+    : '';
+  const body = isUser ? escapeHtml(message.content) : renderMarkdown(message.content);
+  const sources = message.sources?.length
+    ? `<ol class="sources">${message.sources
+        .map((source) => `<li><a href="${escapeHtml(source.url)}" rel="noopener noreferrer">${escapeHtml(source.title)}</a></li>`)
+        .join('')}</ol>`
+    : '';
+
+  return `<article class="message ${isUser ? 'user' : 'ai'}">
+  <div class="meta"><span class="speaker">${isUser ? 'You' : 'Assistant'}</span>${meta}</div>
+  ${await renderAttachments(message)}${reasoning}<div class="body">${body}</div>${sources}
+</article>`;
+};
+
+const renderConversation = async (conversation: Conversation, options: TextExportOptions) => {
+  const path = activePath(conversation);
+  const messages = [];
+  for (const message of path) messages.push(await renderMessage(message, options));
+  return `<section class="conversation">
+<h1 class="title">${escapeHtml(conversationTitle(conversation))}</h1>
+<div class="meta">Started ${escapeHtml(conversation.createdAt.toLocaleString())} · ${path.length} messages</div>
+${messages.join('\n')}
+</section>`;
+};
+
+/**
+ * Builds a self-contained, read-only HTML page: styles and images are
+ * inlined and the page runs no scripts.
+ */
+export const conversationsToHtml = async (conversations: Conversation[], options: TextExportOptions = {}) => {
+  const sections = [];
+  for (const conversation of conversations) sections.push(await renderConversation(conversation, options));
+  const title = conversations.length === 1 ? conversationTitle(conversations[0]) : `${conversations.length} conversations`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src data: https:; style-src 'unsafe-inline'">
+<title>${escapeHtml(title)}</title>
+<style>${PAGE_STYLES}${highlightStyles}</style>
+</head>
+<body>
+<main>
+${sections.join('\n')}
+<p class="meta">Exported from EndlessClaude on ${escapeHtml(new Date().toLocaleString())}</p>
+</main>
+</body>
+</html>
+`;
+};
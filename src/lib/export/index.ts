@@ -0,0 +1,62 @@
+import type { Conversation } from '../../types/chat';
+import { conversationTitle } from '../storage/conversations';
+import { conversationsToMarkdown, type TextExportOptions } from './markdown';
+import { exportConversationsJson } from './json';
+
+export { conversationToMarkdown, conversationsToMarkdown, type TextExportOptions } from './markdown';
+export {
+  EXPORT_FORMAT,
+  EXPORT_VERSION,
+  exportConversationsJson,
+  parseConversationExport,
+  restoreConversations,
+  type ConversationExport,
+  type ImportResult,
+} from './json';
+
+export type ExportFormat = 'markdown' | 'json' | 'html';
+
+const FORMATS: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  markdown: { extension: 'md', mimeType: 'text/markdown;charset=utf-8' },
+  json: { extension: 'json', mimeType: 'application/json' },
+  html: { extension: 'html', mimeType: 'text/html;charset=utf-8' },
+};
+
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking straight away can cancel the download in Firefox and Safari
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const exportFileName = (conversations: Conversation[], extension: string) => {
+  const base = conversations.length === 1
+    ? conversationTitle(conversations[0]).replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'conversation'
+    : `endless-claude-${new Date().toISOString().slice(0, 10)}`;
+  return `${base}.${extension}`;
+};
+
+/**
+ * Exports one or more conversations in the given format and downloads the
+ * file. The HTML renderer is loaded on demand.
+ */
+export const exportConversations = async (
+  conversations: Conversation[],
+  format: ExportFormat,
+  options: TextExportOptions = {}
+) => {
+  let content: string;
+  if (format === 'markdown') {
+    content = conversationsToMarkdown(conversations, options);
+  } else if (format === 'json') {
+    content = await exportConversationsJson(conversations);
+  } else {
+    const { conversationsToHtml } = await import('./html');
+    content = await conversationsToHtml(conversations, options);
+  }
+  const { extension, mimeType } = FORMATS[format];
+  downloadFile(exportFileName(conversations, extension), content, mimeType);
+};
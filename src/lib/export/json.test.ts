@@ -0,0 +1,105 @@
+import { describe, expect, it, vi } from 'vitest';
+import { EXPORT_FORMAT, EXPORT_VERSION, parseConversationExport, restoreConversations } from './json';
+import { LocalizedError } from '../i18n';
+import type { Conversation } from '../../types/chat';
+
+vi.mock('../storage/attachments', () => ({
+  loadAttachment: vi.fn(),
+  saveAttachment: vi.fn(async (file: File) => ({ hash: `stored-${file.name}`, name: file.name, type: file.type, size: file.size })),
+}));
+
+const exportFile = (conversations: unknown[], extra: Record<string, unknown> = {}) =>
+  JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, exportedAt: '2024-01-01T00:00:00.000Z', conversations, attachments: {}, ...extra });
+
+const exportedConversation = (id: string, messages: unknown[] = []) => ({
+  id,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-02T00:00:00.000Z',
+  messages,
+});
+
+const exportedMessage = (id: string, extra: Record<string, unknown> = {}) => ({
+  id,
+  content: id,
+  sender: 'user',
+  timestamp: '2024-01-01T00:00:00.000Z',
+  ...extra,
+});
+
+// The catalog message a rejected file would be reported with
+const rejection = (text: string) => {
+  try {
+    parseConversationExport(text);
+  } catch (error) {
+    if (error instanceof LocalizedError) return error.text;
+    throw error;
+  }
+  throw new Error('Expected the file to be rejected');
+};
+
+describe('parseConversationExport', () => {
+  it('reads conversations, dates and messages', () => {
+    const data = parseConversationExport(
+      exportFile([exportedConversation('c1', [exportedMessage('u1'), exportedMessage('a1', { sender: 'ai', status: 'streaming' })])])
+    );
+    const [conversation] = data.conversations;
+    expect(conversation.updatedAt).toEqual(new Date('2024-01-02T00:00:00.000Z'));
+    // Messages from before branching are chained in order, and an interrupted stream counts as stopped
+    expect(conversation.messages.map((message) => message.parentId)).toEqual(['', 'u1']);
+    expect(conversation.messages[1].status).toBe('stopped');
+  });
+
+  it('rejects files that are not JSON or not an export', () => {
+    expect(rejection('not json')).toEqual({ key: 'import.notJson' });
+    expect(rejection(JSON.stringify({ format: 'something-else' }))).toEqual({ key: 'import.notConversations' });
+  });
+
+  it('rejects exports from a newer version', () => {
+    expect(rejection(exportFile([], { version: EXPORT_VERSION + 1 }))).toEqual({
+      key: 'import.conversationsVersion',
+      params: { version: String(EXPORT_VERSION + 1), max: EXPORT_VERSION },
+    });
+  });
+
+  it('names the first invalid field', () => {
+    const text = exportFile([exportedConversation('c1', [exportedMessage('u1', { sender: 'robot' })])]);
+    expect(rejection(text)).toEqual({
+      key: 'import.field.oneOf',
+      params: { path: 'conversations[0].messages[0].sender', options: 'user, ai' },
+    });
+    expect(rejection(exportFile([{ ...exportedConversation('c1'), updatedAt: 'yesterday' }]))).toEqual({
+      key: 'import.field.date',
+      params: { path: 'conversations[0].updatedAt' },
+    });
+  });
+});
+
+describe('restoreConversations', () => {
+  const existing = (id: string, updatedAt: string): Conversation => ({
+    id,
+    createdAt: new Date('2024-01-01T00:00:00.000Z'),
+    updatedAt: new Date(updatedAt),
+    messages: [],
+  });
+
+  it('skips exact duplicates and gives conflicting ids a new one', async () => {
+    const data = parseConversationExport(exportFile([exportedConversation('same'), exportedConversation('changed'), exportedConversation('new')]));
+    const result = await restoreConversations(data, [
+      existing('same', '2024-01-02T00:00:00.000Z'),
+      existing('changed', '2024-01-05T00:00:00.000Z'),
+    ]);
+    expect(result.skipped).toBe(1);
+    expect(result.conversations.map((conversation) => conversation.id)).toEqual(['changed-import-1', 'new']);
+  });
+
+  it('points attachments at the hash they were stored under', async () => {
+    const attachment = { hash: 'exported-hash', name: 'note.txt', type: 'text/plain', size: 5 };
+    const data = parseConversationExport(
+      exportFile([exportedConversation('c1', [exportedMessage('u1', { attachments: [attachment] })])], {
+        attachments: { 'exported-hash': { name: 'note.txt', type: 'text/plain', data: btoa('hello') } },
+      })
+    );
+    const { conversations } = await restoreConversations(data, []);
+    expect(conversations[0].messages[0].attachments?.[0].hash).toBe('stored-note.txt');
+  });
+});
@@ -0,0 +1,351 @@
+import type {
+  Artifact,
+  ArtifactVersion,
+  Conversation,
+  GenerationSettings,
+  Message,
+  MessageAttachment,
+  MessageError,
+  MessageStats,
+  MessageReasoning,
+  MessageStatus,
+  SendOptions,
+} from '../../types/chat';
+import type { SearchResult } from '../search';
+import type { ChatErrorKind } from '../errors';
+import { loadAttachment, saveAttachment } from '../storage/attachments';
+import { normalizeTree } from '../tree';
+import { LocalizedError, type TranslationParams } from '../i18n';
+
+export const EXPORT_FORMAT = 'endless-claude/conversations';
+// Bump when the shape changes; older versions stay importable
+export const EXPORT_VERSION = 1;
+
+interface ExportedAttachment {
+  name: string;
+  type: string;
+  // Base64 file contents
+  data: string;
+}
+
+export interface ConversationExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: Date;
+  conversations: Conversation[];
+  // File contents keyed by the hash messages refer to
+  attachments: Record<string, ExportedAttachment>;
+}
+
+const blobToBase64 = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).slice(String(reader.result).indexOf(',') + 1));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const base64ToBlob = (data: string, type: string) => {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type });
+};
+
+/**
+ * Serializes conversations, including attachment contents, artifacts and
+ * reasoning, into the versioned JSON format that `parseConversationExport` reads.
+ */
+export const exportConversationsJson = async (conversations: Conversation[]) => {
+  const attachments: Record<string, ExportedAttachment> = {};
+  for (const conversation of conversations) {
+    for (const attachment of conversation.messages.flatMap((message) => message.attachments ?? [])) {
+      if (attachments[attachment.hash]) continue;
+      try {
+        const file = await loadAttachment(attachment);
+        attachments[attachment.hash] = { name: attachment.name, type: attachment.type, data: await blobToBase64(file) };
+      } catch (error) {
+        // The message keeps its reference; the importer shows it as unavailable
+        console.warn('Skipping missing attachment in export:', attachment.name, error);
+      }
+    }
+  }
+
+  const payload: ConversationExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date(),
+    conversations: conversations.map((conversation) => ({
+      ...conversation,
+      messages: conversation.messages.map((message) =>
+        message.status === 'streaming' ? { ...message, status: 'stopped' as const } : message
+      ),
+    })),
+    attachments,
+  };
+  // Dates serialize as ISO strings and are revived on import
+  return JSON.stringify(payload, null, 2);
+};
+
+// --- Validation -----------------------------------------------------------
+
+type FieldType = 'object' | 'string' | 'number' | 'boolean' | 'date' | 'array' | 'oneOf';
+
+const fail = (path: string, expected: FieldType, params: TranslationParams = {}): never => {
+  throw new LocalizedError({ key: `import.field.${expected}`, params: { path, ...params } });
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const record = (value: unknown, path: string) => (isRecord(value) ? value : fail(path, 'object'));
+
+const string = (value: unknown, path: string) => (typeof value === 'string' ? value : fail(path, 'string'));
+
+const optionalString = (value: unknown, path: string) => (value === undefined ? undefined : string(value, path));
+
+const optionalNumber = (value: unknown, path: string) =>
+  value === undefined ? undefined : typeof value === 'number' && Number.isFinite(value) ? value : fail(path, 'number');
+
+const date = (value: unknown, path: string) => {
+  const parsed = new Date(string(value, path));
+  return Number.isNaN(parsed.getTime()) ? fail(path, 'date') : parsed;
+};
+
+const array = <T,>(value: unknown, path: string, item: (value: unknown, path: string) => T) =>
+  Array.isArray(value) ? value.map((entry, index) => item(entry, `${path}[${index}]`)) : fail(path, 'array');
+
+const oneOf = <T extends string>(value: unknown, path: string, options: readonly T[]) =>
+  options.includes(value as T) ? (value as T) : fail(path, 'oneOf', { options: options.join(', ') });
+
+const STATUSES: readonly MessageStatus[] = ['streaming', 'complete', 'stopped', 'error'];
+
+const parseSource = (value: unknown, path: string): SearchResult => {
+  const source = record(value, path);
+  return {
+    title: string(source.title, `${path}.title`),
+    url: string(source.url, `${path}.url`),
+    snippet: string(source.snippet ?? '', `${path}.snippet`),
+  };
+};
+
+const parseAttachmentRef = (value: unknown, path: string): MessageAttachment => {
+  const attachment = record(value, path);
+  return {
+    hash: string(attachment.hash, `${path}.hash`),
+    name: string(attachment.name, `${path}.name`),
+    type: string(attachment.type ?? '', `${path}.type`),
+    size: optionalNumber(attachment.size, `${path}.size`) ?? 0,
+  };
+};
+
+const parseReasoning = (value: unknown, path: string): MessageReasoning | undefined => {
+  if (value === undefined) return undefined;
+  const reasoning = record(value, path);
+  return {
+    text: string(reasoning.text, `${path}.text`),
+    durationMs: optionalNumber(reasoning.durationMs, `${path}.durationMs`),
+  };
+};
+
+const parseSendOptions = (value: unknown, path: string): SendOptions | undefined => {
+  if (value === undefined) return undefined;
+  const options = record(value, path);
+  const flag = (key: keyof SendOptions) =>
+    options[key] === undefined ? undefined : typeof options[key] === 'boolean' ? (options[key] as boolean) : fail(`${path}.${key}`, 'boolean');
+  return { search: flag('search'), think: flag('think'), canvas: flag('canvas') };
+};
+
+const ERROR_KINDS: readonly ChatErrorKind[] = ['script-missing', 'network', 'rate-limited', 'content-rejected', 'auth', 'unknown'];
+
+const parseError = (value: unknown, path: string): MessageError | undefined => {
+  if (value === undefined) return undefined;
+  const error = record(value, path);
+  return {
+    kind: oneOf(error.kind, `${path}.kind`, ERROR_KINDS),
+    message: string(error.message ?? '', `${path}.message`),
+  };
+};
+
+const parseStats = (value: unknown, path: string): MessageStats | undefined => {
+  if (value === undefined) return undefined;
+  const stats = record(value, path);
+  return {
+    inputTokens: optionalNumber(stats.inputTokens, `${path}.inputTokens`) ?? 0,
+    outputTokens: optionalNumber(stats.outputTokens, `${path}.outputTokens`) ?? 0,
+    latencyMs: optionalNumber(stats.latencyMs, `${path}.latencyMs`),
+    durationMs: optionalNumber(stats.durationMs, `${path}.durationMs`),
+    estimated: stats.estimated === undefined ? undefined : stats.estimated === true,
+  };
+};
+
+const parseMessage = (value: unknown, path: string): Message => {
+  const message = record(value, path);
+  const status = message.status === undefined ? undefined : oneOf(message.status, `${path}.status`, STATUSES);
+  return {
+    id: string(message.id, `${path}.id`),
+    parentId: optionalString(message.parentId, `${path}.parentId`),
+    content: string(message.content, `${path}.content`),
+    sender: oneOf(message.sender, `${path}.sender`, ['user', 'ai'] as const),
+    timestamp: date(message.timestamp, `${path}.timestamp`),
+    status: status === 'streaming' ? 'stopped' : status,
+    model: optionalString(message.model, `${path}.model`),
+    sources: message.sources === undefined ? undefined : array(message.sources, `${path}.sources`, parseSource),
+    reasoning: parseReasoning(message.reasoning, `${path}.reasoning`),
+    attachments:
+      message.attachments === undefined ? undefined : array(message.attachments, `${path}.attachments`, parseAttachmentRef),
+    options: parseSendOptions(message.options, `${path}.options`),
+    error: parseError(message.error, `${path}.error`),
+    stats: parseStats(message.stats, `${path}.stats`),
+  };
+};
+
+const parseSettings = (value: unknown, path: string): GenerationSettings | undefined => {
+  if (value === undefined) return undefined;
+  const settings = record(value, path);
+  return {
+    model: optionalString(settings.model, `${path}.model`),
+    systemPrompt: optionalString(settings.systemPrompt, `${path}.systemPrompt`),
+    temperature: optionalNumber(settings.temperature, `${path}.temperature`),
+    maxTokens: optionalNumber(settings.maxTokens, `${path}.maxTokens`),
+  };
+};
+
+const parseArtifactVersion = (value: unknown, path: string): ArtifactVersion => {
+  const version = record(value, path);
+  return {
+    content: string(version.content, `${path}.content`),
+    createdAt: date(version.createdAt, `${path}.createdAt`),
+    author: oneOf(version.author, `${path}.author`, ['ai', 'user'] as const),
+    messageId: optionalString(version.messageId, `${path}.messageId`),
+  };
+};
+
+const parseArtifact = (value: unknown, path: string): Artifact | undefined => {
+  if (value === undefined) return undefined;
+  const artifact = record(value, path);
+  return {
+    title: string(artifact.title, `${path}.title`),
+    language: string(artifact.language, `${path}.language`),
+    versions: array(artifact.versions, `${path}.versions`, parseArtifactVersion),
+  };
+};
+
+const parseActiveChildren = (value: unknown, path: string): Record<string, string> | undefined => {
+  if (value === undefined) return undefined;
+  const entries = Object.entries(record(value, path)).map(([key, child]) => [key, string(child, `${path}.${key}`)]);
+  return Object.fromEntries(entries);
+};
+
+const parseConversation = (value: unknown, path: string): Conversation => {
+  const conversation = record(value, path);
+  return {
+    id: string(conversation.id, `${path}.id`),
+    title: optionalString(conversation.title, `${path}.title`),
+    createdAt: date(conversation.createdAt, `${path}.createdAt`),
+    updatedAt: date(conversation.updatedAt, `${path}.updatedAt`),
+    messages: normalizeTree(array(conversation.messages, `${path}.messages`, parseMessage)),
+    settings: parseSettings(conversation.settings, `${path}.settings`),
+    artifact: parseArtifact(conversation.artifact, `${path}.artifact`),
+    activeChildren: parseActiveChildren(conversation.activeChildren, `${path}.activeChildren`),
+  };
+};
+
+/**
+ * Parses and validates a JSON export. Throws a LocalizedError naming the
+ * first invalid field, so the user can see why a file was rejected.
+ */
+export const parseConversationExport = (text: string): ConversationExport => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new LocalizedError({ key: 'import.notJson' });
+  }
+
+  const root = record(parsed, 'file');
+  if (root.format !== EXPORT_FORMAT) throw new LocalizedError({ key: 'import.notConversations' });
+  const version = optionalNumber(root.version, 'version');
+  if (version === undefined || version > EXPORT_VERSION) {
+    throw new LocalizedError({ key: 'import.conversationsVersion', params: { version: String(root.version), max: EXPORT_VERSION } });
+  }
+
+  const attachments: Record<string, ExportedAttachment> = {};
+  for (const [hash, value] of Object.entries(record(root.attachments ?? {}, 'attachments'))) {
+    const attachment = record(value, `attachments.${hash}`);
+    attachments[hash] = {
+      name: string(attachment.name, `attachments.${hash}.name`),
+      type: string(attachment.type ?? '', `attachments.${hash}.type`),
+      data: string(attachment.data, `attachments.${hash}.data`),
+    };
+  }
+
+  return {
+    format: EXPORT_FORMAT,
+    version,
+    exportedAt: root.exportedAt === undefined ? new Date() : date(root.exportedAt, 'exportedAt'),
+    conversations: array(root.conversations, 'conversations', parseConversation),
+    attachments,
+  };
+};
+
+// --- Merging --------------------------------------------------------------
+
+export interface ImportResult {
+  conversations: Conversation[];
+  // Conversations already present with identical content
+  skipped: number;
+}
+
+const sameConversation = (a: Conversation, b: Conversation) =>
+  a.updatedAt.getTime() === b.updatedAt.getTime() && a.messages.length === b.messages.length;
+
+/**
+ * Prepares imported conversations for merging: attachments are written to
+ * the store, exact duplicates are skipped, and conflicting ids get a new id
+ * so nothing that already exists is overwritten.
+ */
+export const restoreConversations = async (data: ConversationExport, existing: Conversation[]): Promise<ImportResult> => {
+  // Stored hashes are recomputed from the bytes rather than trusted
+  const hashes = new Map<string, string>();
+  for (const [hash, attachment] of Object.entries(data.attachments)) {
+    try {
+      const blob = base64ToBlob(attachment.data, attachment.type);
+      const stored = await saveAttachment(new File([blob], attachment.name, { type: attachment.type }));
+      hashes.set(hash, stored.hash);
+    } catch (error) {
+      console.warn('Skipping unreadable attachment in import:', attachment.name, error);
+    }
+  }
+
+  const byId = new Map(existing.map((conversation) => [conversation.id, conversation]));
+  const imported: Conversation[] = [];
+  let skipped = 0;
+
+  for (const conversation of data.conversations) {
+    const current = byId.get(conversation.id);
+    if (current && sameConversation(current, conversation)) {
+      skipped++;
+      continue;
+    }
+
+    let id = conversation.id;
+    for (let suffix = 1; byId.has(id); suffix++) id = `${conversation.id}-import-${suffix}`;
+
+    const restored: Conversation = {
+      ...conversation,
+      id,
+      messages: conversation.messages.map((message) => ({
+        ...message,
+        attachments: message.attachments?.map((attachment) => ({
+          ...attachment,
+          hash: hashes.get(attachment.hash) ?? attachment.hash,
+        })),
+      })),
+    };
+    byId.set(id, restored);
+    imported.push(restored);
+  }
+
+  return { conversations: imported, skipped };
+};
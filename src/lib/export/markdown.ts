@@ -0,0 +1,77 @@
+import type { Conversation, Message } from '../../types/chat';
+import { conversationTitle } from '../storage/conversations';
+import { formatFileSize } from '../attachments';
+import { activePath } from '../tree';
+
+export interface TextExportOptions {
+  // Reasoning can be long and is often not meant for readers; off unless asked for
+  includeReasoning?: boolean;
+}
+
+const formatDateTime = (date: Date) =>
+  date.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+// A fence longer than any backtick run inside `text`, so the block can't be closed early
+const fenceFor = (text: string) => {
+  const longest = Math.max(2, ...Array.from(text.matchAll(/`+/g), (match) => match[0].length));
+  return '`'.repeat(longest + 1);
+};
+
+const messageToMarkdown = (message: Message, options: TextExportOptions) => {
+  const speaker = message.sender === 'user' ? 'You' : 'Assistant';
+  const details = [formatDateTime(message.timestamp), message.model, message.status === 'stopped' ? 'stopped' : undefined, message.status === 'error' ? 'failed' : undefined]
+    .filter(Boolean)
+    .join(' · ');
+  const lines = [`### ${speaker}`, `_${details}_`, ''];
+
+  if (message.attachments?.length) {
+    lines.push(
+      ...message.attachments.map((attachment) => `- 📎 ${attachment.name} (${formatFileSize(attachment.size)})`),
+      ''
+    );
+  }
+
+  if (options.includeReasoning && message.reasoning?.text) {
+    const fence = fenceFor(message.reasoning.text);
+    lines.push('<details><summary>Reasoning</summary>', '', `${fence}text`, message.reasoning.text, fence, '', '</details>', '');
+  }
+
+  // User text is sent as typed and assistant replies are Markdown already; both go in unchanged
+  lines.push(message.content.trimEnd(), '');
+
+  if (message.sources?.length) {
+    lines.push('Sources:', ...message.sources.map((source, index) => `${index + 1}. [${source.title}](${source.url})`), '');
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Renders a conversation as Markdown. Message bodies are copied verbatim, so
+ * code fences and other formatting survive the round trip.
+ */
+export const conversationToMarkdown = (conversation: Conversation, options: TextExportOptions = {}) => {
+  // Only the branch on screen is exported; the JSON backup keeps every branch
+  const messages = activePath(conversation);
+  const header = [
+    `# ${conversationTitle(conversation)}`,
+    '',
+    `_Started ${formatDateTime(conversation.createdAt)} · ${messages.length} messages_`,
+  ];
+  if (conversation.settings?.systemPrompt?.trim()) {
+    header.push('', `> **System prompt:** ${conversation.settings.systemPrompt.trim().replace(/\n/g, '\n> ')}`);
+  }
+
+  const body = messages.map((message) => messageToMarkdown(message, options));
+
+  if (conversation.artifact?.versions.length) {
+    const { title, language, versions } = conversation.artifact;
+    const latest = versions[versions.length - 1].content;
+    const fence = fenceFor(latest);
+    body.push(`## Canvas: ${title} (v${versions.length})`, '', `${fence}${language}`, latest, fence, '');
+  }
+
+  return `${[...header, '', '---', '', ...body].join('\n').trimEnd()}\n`;
+};
+
+export const conversationsToMarkdown = (conversations: Conversation[], options: TextExportOptions = {}) =>
+  conversations.map((conversation) => conversationToMarkdown(conversation, options)).join('\n---\n\n');
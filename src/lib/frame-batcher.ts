@@ -0,0 +1,47 @@
+export interface FrameBatcher<T> {
+  // Queue a value; only the latest one is applied on the next animation frame
+  push: (value: T) => void;
+  // Apply any pending value immediately
+  flush: () => void;
+  // Drop any pending value without applying it
+  cancel: () => void;
+}
+
+/**
+ * Coalesces rapid updates (e.g. streamed tokens) into at most one `apply`
+ * call per animation frame.
+ */
+export const createFrameBatcher = <T,>(apply: (value: T) => void): FrameBatcher<T> => {
+  let frame: number | null = null;
+  let pending: { value: T } | null = null;
+
+  const flush = () => {
+    if (frame !== null) {
+      cancelAnimationFrame(frame);
+      frame = null;
+    }
+    if (pending) {
+      const { value } = pending;
+      pending = null;
+      apply(value);
+    }
+  };
+
+  return {
+    push: (value) => {
+      pending = { value };
+      if (frame === null) {
+        frame = requestAnimationFrame(() => {
+          frame = null;
+          flush();
+        });
+      }
+    },
+    flush,
+    cancel: () => {
+      if (frame !== null) cancelAnimationFrame(frame);
+      frame = null;
+      pending = null;
+    },
+  };
+};
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { buildHistory } from './history';
+import type { Message } from '../types/chat';
+
+let nextId = 0;
+const message = (sender: Message['sender'], content: string, extra: Partial<Message> = {}): Message => ({
+  id: `m${nextId++}`,
+  content,
+  sender,
+  timestamp: new Date(0),
+  ...extra,
+});
+
+// Ten characters each, so budgets are easy to reason about
+const turn = (label: string) => label.padEnd(10, '.');
+
+describe('buildHistory', () => {
+  it('tags roles and leaves out failed and empty messages', () => {
+    const history = buildHistory([
+      message('user', 'Hello'),
+      message('ai', 'partial', { status: 'error' }),
+      message('ai', '   '),
+      message('ai', 'Hi there'),
+    ]);
+    expect(history).toEqual([
+      { role: 'user', content: 'Hello' },
+      { role: 'assistant', content: 'Hi there' },
+    ]);
+  });
+
+  it('drops the oldest turns once the budget is used up when trimming', () => {
+    const messages = [message('user', turn('u1')), message('ai', turn('a1')), message('user', turn('u2')), message('ai', turn('a2'))];
+    const history = buildHistory(messages, { maxChars: 25, overflow: 'trim' });
+    expect(history.map((entry) => entry.content)).toEqual([turn('u2'), turn('a2')]);
+  });
+
+  it('always sends the newest turn, even over budget', () => {
+    const history = buildHistory([message('user', 'x'.repeat(100))], { maxChars: 10, overflow: 'trim' });
+    expect(history).toHaveLength(1);
+  });
+
+  it('starts the kept history with a user turn', () => {
+    const messages = [message('user', turn('u1')), message('ai', turn('a1')), message('user', turn('u2')), message('ai', turn('a2'))];
+    // a1, u2 and a2 fit, but a1 would open the history
+    const history = buildHistory(messages, { maxChars: 35, overflow: 'trim' });
+    expect(history.map((entry) => entry.role)).toEqual(['user', 'assistant']);
+    expect(history[0].content).toBe(turn('u2'));
+  });
+
+  it('condenses dropped turns into a leading summary', () => {
+    const long = (label: string) => label.padEnd(53, '.');
+    const messages = [
+      message('user', 'hi'),
+      message('ai', 'hello'),
+      message('user', long('u2')),
+      message('ai', long('a2')),
+      message('user', long('u3')),
+    ];
+    const [summary, ...kept] = buildHistory(messages, { maxChars: 200, overflow: 'summarize' });
+    expect(summary.role).toBe('system');
+    expect(summary.content).toMatch(/\n- User: hi\n- Assistant: hello$/);
+    expect(kept.map((entry) => entry.content)).toEqual([long('u2'), long('a2'), long('u3')]);
+  });
+
+  it('counts turns that do not fit in the summary as omitted', () => {
+    const messages = [turn('u1'), turn('a1'), turn('u2'), turn('a2'), turn('u3')].map((content, index) =>
+      message(index % 2 === 0 ? 'user' : 'ai', content)
+    );
+    const [summary, ...kept] = buildHistory(messages, { maxChars: 50, overflow: 'summarize' });
+    expect(summary.content).toMatch(/- \(2 older messages omitted\)$/);
+    expect(kept.map((entry) => entry.content)).toEqual([turn('u2'), turn('a2'), turn('u3')]);
+  });
+
+  it('re-sends attachments only for the newest turns', () => {
+    const image = { hash: 'abc', name: 'cat.png', type: 'image/png', size: 10 };
+    const history = buildHistory(
+      [message('user', 'Look', { attachments: [image] }), message('ai', 'A cat'), message('user', 'Again', { attachments: [image] })],
+      { maxAttachmentTurns: 1 }
+    );
+    expect(history[0]).toEqual({ role: 'user', content: '[Image attached earlier: cat.png]\nLook' });
+    expect(history[2]).toEqual({ role: 'user', content: 'Again', attachments: [image] });
+  });
+});
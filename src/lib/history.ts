@@ -0,0 +1,115 @@
+import type { Message, MessageAttachment } from '../types/chat';
+import { attachmentCost, isImageFile } from './attachments';
+
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+// A single role-tagged turn as it is sent to the model
+export interface HistoryTurn {
+  role: ChatRole;
+  content: string;
+  attachments?: MessageAttachment[];
+}
+
+export interface HistoryOptions {
+  // Approximate budget for the whole history, in characters of text
+  maxChars: number;
+  // Only the newest N turns re-send their attachments; older ones keep a text note
+  maxAttachmentTurns: number;
+  // What happens to the oldest turns once the budget is used up
+  overflow: 'trim' | 'summarize';
+}
+
+export const DEFAULT_HISTORY_OPTIONS: HistoryOptions = {
+  maxChars: 48000,
+  maxAttachmentTurns: 4,
+  overflow: 'summarize',
+};
+
+// Each dropped turn contributes at most this many characters to the summary
+const SUMMARY_LINE_LENGTH = 160;
+
+const clip = (text: string, length: number) => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > length ? `${flat.slice(0, length - 1)}…` : flat;
+};
+
+const toTurn = (message: Message, keepAttachments: boolean): HistoryTurn => {
+  const role: ChatRole = message.sender === 'user' ? 'user' : 'assistant';
+  const attachments = message.attachments ?? [];
+
+  if (attachments.length === 0) {
+    return { role, content: message.content };
+  }
+  if (keepAttachments) {
+    return { role, content: message.content, attachments };
+  }
+
+  const note = attachments
+    .map((file) => `[${isImageFile(file) ? 'Image' : 'File'} attached earlier: ${file.name}]`)
+    .join('\n');
+  return { role, content: message.content ? `${note}\n${message.content}` : note };
+};
+
+const turnCost = (turn: HistoryTurn) =>
+  turn.content.length + (turn.attachments ?? []).reduce((total, file) => total + attachmentCost(file), 0);
+
+const summarize = (dropped: HistoryTurn[], budget: number): HistoryTurn => {
+  const lines: string[] = [];
+  let used = 0;
+
+  // Prefer the most recent dropped turns when the summary itself runs out of room
+  for (let i = dropped.length - 1; i >= 0; i--) {
+    const turn = dropped[i];
+    const line = `- ${turn.role === 'user' ? 'User' : 'Assistant'}: ${clip(turn.content, SUMMARY_LINE_LENGTH)}`;
+    if (used + line.length > budget) break;
+    lines.unshift(line);
+    used += line.length;
+  }
+
+  const omitted = dropped.length - lines.length;
+  if (omitted > 0) lines.unshift(`- (${omitted} older message${omitted === 1 ? '' : 's'} omitted)`);
+
+  return {
+    role: 'system',
+    content: `Summary of the earlier conversation, condensed to fit the context window:\n${lines.join('\n')}`,
+  };
+};
+
+/**
+ * Turns the chat transcript into the role-tagged history sent on every request.
+ * The newest turns are kept verbatim; once `maxChars` is reached the oldest
+ * turns are either dropped or condensed into a leading summary turn.
+ */
+export const buildHistory = (messages: Message[], options: Partial<HistoryOptions> = {}): HistoryTurn[] => {
+  const { maxChars, maxAttachmentTurns, overflow } = { ...DEFAULT_HISTORY_OPTIONS, ...options };
+  const turns = messages
+    // Failed replies, including any partial text, are never sent back to the model
+    .filter((message) => message.status !== 'error')
+    .filter((message) => message.content.trim() || (message.attachments && message.attachments.length > 0))
+    .map((message, index, all) => toTurn(message, all.length - index <= maxAttachmentTurns));
+
+  const summaryBudget = overflow === 'summarize' ? Math.floor(maxChars * 0.2) : 0;
+  const kept: HistoryTurn[] = [];
+  let used = 0;
+  let cutoff = turns.length;
+
+  while (cutoff > 0) {
+    const turn = turns[cutoff - 1];
+    const cost = turnCost(turn);
+    // The newest turn is always sent, even if it alone exceeds the budget
+    if (kept.length > 0 && used + cost > maxChars - summaryBudget) break;
+    kept.unshift(turn);
+    used += cost;
+    cutoff--;
+  }
+
+  // Providers expect the conversation to open with a user turn
+  while (kept.length > 1 && kept[0].role !== 'user') {
+    kept.shift();
+    cutoff++;
+  }
+
+  const dropped = turns.slice(0, cutoff);
+  if (dropped.length === 0 || overflow === 'trim') return kept;
+  return [summarize(dropped, summaryBudget), ...kept];
+};
@@ -0,0 +1,102 @@
+import { en, type Catalog, type MessageKey } from './locales/en';
+import { es } from './locales/es';
+import { ar } from './locales/ar';
+import type { TextDirection, TranslationParams } from './types';
+
+export type { MessageKey } from './locales/en';
+export type { CatalogMessage, PluralMessage, TextDirection, TranslationParams } from './types';
+
+export type Locale = 'en' | 'es' | 'ar';
+
+// Labels are in their own language, so people can find theirs whatever is on screen
+export const LOCALES: { value: Locale; label: string }[] = [
+  { value: 'en', label: 'English' },
+  { value: 'es', label: 'Español' },
+  { value: 'ar', label: 'العربية' },
+];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+const CATALOGS: Record<Locale, Catalog> = { en, es, ar };
+
+// Languages written right to left; a catalog for any of them gets the mirrored layout
+const RTL_LANGUAGES = ['ar', 'he', 'fa', 'ur'];
+
+const languageOf = (tag: string) => tag.split('-')[0].toLowerCase();
+
+export const textDirection = (locale: string): TextDirection => (RTL_LANGUAGES.includes(languageOf(locale)) ? 'rtl' : 'ltr');
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.some((locale) => locale.value === value);
+
+// The first preferred language with a catalog, matched on the language alone ("es-MX" -> "es")
+export const matchLocale = (languages: readonly string[]): Locale => {
+  for (const tag of languages) {
+    const language = languageOf(tag);
+    if (isLocale(language)) return language;
+  }
+  return DEFAULT_LOCALE;
+};
+
+/** A catalog key and its parameters, for modules that leave the wording to whoever shows it. */
+export interface LocalizedText {
+  key: MessageKey;
+  params?: TranslationParams;
+}
+
+/** Locale-bound helpers for turning catalog keys, numbers and dates into text. */
+export interface Translator {
+  locale: Locale;
+  dir: TextDirection;
+  // Numbers in `params` are formatted for the locale; `count` also picks the plural form
+  t: (key: MessageKey, params?: TranslationParams) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  // "14:05" or "2:05 PM", as the locale writes it
+  formatTime: (date: Date) => string;
+  // "Mar 4, 2025", "4 mar 2025", ...
+  formatDate: (date: Date) => string;
+}
+
+export const createTranslator = (locale: Locale): Translator => {
+  const catalog = CATALOGS[locale];
+  const numbers = new Intl.NumberFormat(locale);
+  const plurals = new Intl.PluralRules(locale);
+  const times = new Intl.DateTimeFormat(locale, { hour: '2-digit', minute: '2-digit' });
+  const dates = new Intl.DateTimeFormat(locale, { month: 'short', day: 'numeric', year: 'numeric' });
+
+  const interpolate = (template: string, params: TranslationParams) =>
+    template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      const value = params[name];
+      if (value === undefined) return placeholder;
+      return typeof value === 'number' ? numbers.format(value) : value;
+    });
+
+  const t = (key: MessageKey, params: TranslationParams = {}) => {
+    const message = catalog[key];
+    if (typeof message === 'string') return interpolate(message, params);
+    const count = typeof params.count === 'number' ? params.count : 0;
+    return interpolate(message[plurals.select(count)] ?? message.other, params);
+  };
+
+  return {
+    locale,
+    dir: textDirection(locale),
+    t,
+    formatNumber: (value, options) => (options ? new Intl.NumberFormat(locale, options) : numbers).format(value),
+    formatTime: (date) => times.format(date),
+    formatDate: (date) => dates.format(date),
+  };
+};
+
+/**
+ * An Error for the user to read. `text` is translated where it is shown; the
+ * message is the English wording, for logs.
+ */
+export class LocalizedError extends Error {
+  readonly text: LocalizedText;
+
+  constructor(text: LocalizedText) {
+    super(createTranslator(DEFAULT_LOCALE).t(text.key, text.params));
+    this.name = 'LocalizedError';
+    this.text = text;
+  }
+}
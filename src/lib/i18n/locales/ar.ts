@@ -0,0 +1,310 @@
+import type { Catalog } from './en';
+
+export const ar: Catalog = {
+  // Chat
+  'chat.emptyTitle': 'ابدأ محادثة',
+  'chat.emptyBody':
+    'اسألني عن أي شيء! يمكنني الإجابة عن الأسئلة وتقديم المعلومات أو مجرد الدردشة. جرّب الأوضاع المختلفة مثل البحث والتفكير واللوحة.',
+  'chat.placeholder': 'اكتب رسالتك، أو / لعرض الأوامر...',
+  'chat.messages': 'الرسائل',
+  'chat.messagesHint': 'استخدم مفتاحي السهم لأعلى ولأسفل للتنقل بين الرسائل، ومفتاح Tab للوصول إلى إجراءات الرسالة.',
+  'chat.jumpToLatest': 'الانتقال إلى الأحدث',
+  'chat.untitled': 'محادثة جديدة',
+  'chat.searching': 'جارٍ البحث...',
+  'chat.noResponse': 'عذرًا، لم أتلقَّ ردًا صالحًا. يُرجى المحاولة مرة أخرى.',
+  'chat.retrying': '{error}. إعادة المحاولة بعد {seconds} ث ({attempt}/{max})...',
+  'chat.canvasUpdated': 'تم تحديث «{title}» في اللوحة.',
+  'chat.announceReply': 'ردّ المساعد: {text}',
+  'chat.announceStopped': 'تم إيقاف التوليد.',
+  'chat.announceFailed': 'فشل الرد: {error}.',
+  'chat.imported': {
+    zero: 'لم تُستورد أي محادثة.',
+    one: 'تم استيراد محادثة واحدة.',
+    two: 'تم استيراد محادثتين.',
+    few: 'تم استيراد {count} محادثات.',
+    other: 'تم استيراد {count} محادثة.',
+  },
+  'chat.importSkipped': {
+    one: 'كانت محادثة واحدة موجودة مسبقًا.',
+    two: 'كانت محادثتان موجودتين مسبقًا.',
+    few: 'كانت {count} محادثات موجودة مسبقًا.',
+    other: 'كانت {count} محادثة موجودة مسبقًا.',
+  },
+
+  // Message bubbles
+  'message.you': 'أنت',
+  'message.assistant': 'المساعد',
+  'message.label': '{sender}، {time}',
+  'message.thinking': 'يفكّر...',
+  'message.stoppedEmpty': 'توقف التوليد قبل إنتاج أي نص.',
+  'message.stopped': 'متوقف',
+  'message.openCanvas': 'فتح اللوحة، الإصدار {version}',
+  'message.retry': 'إعادة المحاولة',
+  'message.cancel': 'إلغاء',
+  'message.send': 'إرسال',
+  'message.tokenCount': '{count} رمز',
+  'message.seconds': '{seconds} ث',
+  'message.statsInput': 'الإدخال: {count} رمز',
+  'message.statsOutput': 'الإخراج: {count} رمز',
+  'message.statsLatency': 'أول رمز بعد {time}',
+  'message.statsDuration': 'المدة الإجمالية {time}',
+  'message.statsEstimated': '(تقديري)',
+  'message.previousVersion': 'الإصدار السابق',
+  'message.nextVersion': 'الإصدار التالي',
+  'message.edit': 'تعديل الرسالة',
+  'message.regenerate': 'إعادة توليد الرد',
+  'message.copy': 'نسخ الرسالة',
+  'message.copied': 'تم النسخ',
+
+  // What the error bubble says for each ChatErrorKind
+  'error.script-missing.title': 'لم يتم تحميل خدمة الذكاء الاصطناعي',
+  'error.script-missing.description':
+    'تعذّر تحميل سكربت Puter. تحقّق من إمكانية الوصول إلى js.puter.com وأن أي إضافة في المتصفح لا تحظره.',
+  'error.network.title': 'مشكلة في الاتصال',
+  'error.network.description': 'تعذّر الوصول إلى خدمة الذكاء الاصطناعي. تحقّق من اتصالك وحاول مرة أخرى.',
+  'error.rate-limited.title': 'تم تجاوز حد الطلبات',
+  'error.rate-limited.description': 'أُرسل عدد كبير من الطلبات في وقت قصير. انتظر قليلًا ثم حاول مرة أخرى.',
+  'error.content-rejected.title': 'تم رفض الطلب',
+  'error.content-rejected.description': 'رفضت الخدمة هذا الطلب بموجب سياسة المحتوى. حاول إعادة صياغته.',
+  'error.auth.title': 'غير مصرّح',
+  'error.auth.description': 'رفضت الخدمة بيانات الاعتماد. سجّل الدخول مرة أخرى أو تحقّق من مفتاح API المُعدّ.',
+  'error.unknown.title': 'حدث خطأ ما',
+  'error.unknown.description': 'تعذّر توليد الرد.',
+
+  // Composer
+  'composer.placeholder': 'اكتب رسالتك هنا...',
+  'composer.searchPlaceholder': 'ابحث في الويب...',
+  'composer.thinkPlaceholder': 'فكّر بعمق...',
+  'composer.canvasPlaceholder': 'أنشئ على اللوحة...',
+  'composer.message': 'الرسالة',
+  'composer.stop': 'إيقاف التوليد',
+  'composer.stopRecording': 'إيقاف التسجيل',
+  'composer.transcribing': 'جارٍ التفريغ...',
+  'composer.send': 'إرسال الرسالة',
+  'composer.voice': 'إدخال صوتي',
+  'composer.voiceUnsupported': 'الإدخال الصوتي غير متاح في هذا المتصفح',
+  'voice.denied': 'تم رفض الوصول إلى الميكروفون.',
+  'voice.noMicrophone': 'لم يتم العثور على ميكروفون.',
+  'voice.recordingUnsupported': 'هذا المتصفح لا يدعم تسجيل الصوت.',
+  'voice.recognitionUnsupported': 'هذا المتصفح لا يدعم التعرف على الكلام.',
+  'voice.recognitionFailed': 'فشل التعرف على الكلام: {reason}',
+  'voice.transcriptionFailed': 'فشل التفريغ النصي: {status}',
+  'voice.noSpeech': 'لم يتم التعرف على أي كلام.',
+  'voice.failed': 'فشل الإدخال الصوتي.',
+  'composer.recording': 'جارٍ التسجيل',
+  'composer.transcribingStatus': 'جارٍ التفريغ',
+  'composer.attach': 'إرفاق ملفات',
+  'composer.attachLimit': 'إرفاق ملفات (حتى {max})',
+  'composer.tooManyFiles': 'يمكنك إرفاق {max} ملفات كحد أقصى في كل رسالة.',
+  'composer.removeFile': 'إزالة {name}',
+  'composer.modes': 'أوضاع الرد',
+  'composer.search': 'بحث',
+  'composer.think': 'تفكير',
+  'composer.canvas': 'لوحة',
+  'composer.templates': 'قوالب الطلبات',
+  'composer.dismiss': 'إغلاق',
+  'composer.overLimit': 'قد لا تتسع هذه الرسالة في نافذة سياق النموذج؛ وقد تُقتطع أقدم الأدوار.',
+  'composer.sendAnyway': 'إرسال على أي حال',
+  'composer.cancel': 'إلغاء',
+  'context.draft': 'المسودة: ~{count} رمز',
+  'context.history': 'السجل: ~{count} رمز',
+  'context.total': 'الإجمالي: ~{total} من {limit} ({percent}٪)',
+  'context.label': 'استخدام السياق: حوالي {total} من {limit} رمز',
+  'settings.title': 'إعدادات التوليد',
+  'settings.label': 'إعدادات التوليد، النموذج {model}',
+  'settings.model': 'النموذج',
+  'settings.systemPrompt': 'تعليمات النظام',
+  'settings.systemPromptPlaceholder': 'أنت مساعد مفيد...',
+  'settings.temperature': 'درجة الحرارة',
+  'settings.default': 'افتراضي',
+  'settings.reset': 'إعادة تعيين',
+  'settings.maxTokens': 'الحد الأقصى لرموز الإخراج',
+
+  // Dialogs
+  'dialog.close': 'إغلاق',
+  'image.preview': 'معاينة الصورة',
+  'image.alt': 'معاينة بالحجم الكامل',
+
+  // Prompt templates
+  'templates.search': 'ابحث في القوالب...',
+  'templates.new': 'قالب جديد',
+  'templates.edit': 'تعديل القالب',
+  'templates.delete': 'حذف القالب',
+  'templates.none': 'لم يتم العثور على قوالب.',
+  'templates.import': 'استيراد',
+  'templates.export': 'تصدير',
+  'templates.importFailed': 'تعذر استيراد الملف.',
+  'templates.back': 'رجوع',
+  'templates.noSelection': 'لم يتم تحديد أي شيء',
+  'templates.noClipboard': 'الحافظة فارغة أو تتعذر قراءتها',
+  'templates.insert': 'إدراج',
+  'templates.name': 'الاسم',
+  'templates.description': 'الوصف',
+  'templates.body': 'القالب',
+  'templates.bodyPlaceholder': 'ترجم إلى {{language}}:\n\n{{selection}}',
+  'templates.bodyHint':
+    'استخدم {{name}} للقيم التي تُملأ، و{{selection}} للنص المحدد، و{{clipboard}} لمحتوى الحافظة.',
+  'templates.cancel': 'إلغاء',
+  'templates.save': 'حفظ',
+  'templates.imported': {
+    zero: 'لم يُستورد أي قالب.',
+    one: 'تم استيراد قالب واحد.',
+    two: 'تم استيراد قالبين.',
+    few: 'تم استيراد {count} قوالب.',
+    other: 'تم استيراد {count} قالبًا.',
+  },
+  'templates.importSkipped': {
+    one: 'كان قالب واحد موجودًا مسبقًا.',
+    two: 'كان قالبان موجودين مسبقًا.',
+    few: 'كانت {count} قوالب موجودة مسبقًا.',
+    other: 'كان {count} قالبًا موجودًا مسبقًا.',
+  },
+
+  // Command palette and keyboard shortcuts
+  'palette.title': 'لوحة الأوامر',
+  'palette.placeholder': 'اكتب أمرًا أو اسم محادثة...',
+  'palette.noResults': 'لا توجد أوامر مطابقة.',
+  'palette.groupChat': 'الدردشة',
+  'palette.groupComposer': 'مربع الكتابة',
+  'palette.groupConversations': 'التبديل إلى محادثة',
+  'palette.groupHelp': 'مساعدة',
+  'palette.turnOn': 'تشغيل {mode}',
+  'palette.turnOff': 'إيقاف {mode}',
+  'shortcuts.title': 'اختصارات لوحة المفاتيح',
+  'shortcuts.hint': 'اختر اختصارًا واضغط المفاتيح الجديدة. مفتاح Backspace يزيله.',
+  'shortcuts.change': 'تغيير اختصار {action}',
+  'shortcuts.recording': 'اضغط المفاتيح...',
+  'shortcuts.none': 'لا يوجد',
+  'shortcuts.reset': 'استعادة الإعدادات الافتراضية',
+  'shortcuts.moved': 'نُقل من «{from}» إلى «{to}».',
+  'shortcut.openPalette': 'فتح لوحة الأوامر',
+  'shortcut.showShortcuts': 'عرض اختصارات لوحة المفاتيح',
+  'shortcut.newConversation': 'محادثة جديدة',
+  'shortcut.focusInput': 'الانتقال إلى مربع الرسالة',
+  'shortcut.toggleSearch': 'تبديل البحث',
+  'shortcut.toggleThink': 'تبديل التفكير',
+  'shortcut.toggleCanvas': 'تبديل اللوحة',
+  'shortcut.attachFile': 'إرفاق ملف',
+  'shortcut.copyLastReply': 'نسخ آخر رد',
+  'shortcut.stopGeneration': 'إيقاف التوليد',
+
+  // Canvas, reasoning, sources and code blocks
+  'canvas.resize': 'اسحب لتغيير الحجم',
+  'canvas.writing': 'جارٍ الكتابة...',
+  'canvas.versionOf': 'الإصدار {version} من {count}',
+  'canvas.compare': 'المقارنة مع الإصدار السابق',
+  'canvas.backToEditor': 'العودة إلى المحرر',
+  'canvas.copy': 'نسخ',
+  'canvas.download': 'تنزيل {file}',
+  'canvas.close': 'إغلاق اللوحة',
+  'canvas.changes': 'التغييرات من الإصدار {from} إلى الإصدار {to}',
+  'canvas.empty': 'اطلب شيئًا في وضع اللوحة لبدء مستند هنا.',
+  'canvas.untitled': 'بلا عنوان',
+  'canvas.discard': 'تجاهل',
+  'canvas.saveAs': 'حفظ كالإصدار {version}',
+  'reasoning.moment': 'فكّر للحظة',
+  'reasoning.duration': {
+    one: 'فكّر لمدة ثانية واحدة',
+    two: 'فكّر لمدة ثانيتين',
+    few: 'فكّر لمدة {count} ثوانٍ',
+    other: 'فكّر لمدة {count} ثانية',
+  },
+  'sources.count': {
+    zero: 'لا توجد مصادر',
+    one: 'مصدر واحد',
+    two: 'مصدران',
+    few: '{count} مصادر',
+    many: '{count} مصدرًا',
+    other: '{count} مصدر',
+  },
+  'code.copy': 'نسخ الشيفرة',
+  'code.copyShort': 'نسخ',
+
+  // Slash commands and attachment checks
+  'command.new': 'بدء محادثة جديدة',
+  'command.clear': 'إزالة كل الرسائل من هذه المحادثة',
+  'command.model': 'تغيير النموذج لهذه المحادثة',
+  'command.system': 'تعيين تعليمات النظام؛ اتركها فارغة لمسحها',
+  'command.export': 'تنزيل هذه المحادثة',
+  'command.search': 'البحث في الويب، أو تبديل وضع البحث',
+  'command.think': 'التفكير قبل الإجابة، أو تبديل وضع التفكير',
+  'command.canvas': 'الإجابة على اللوحة، أو تبديل وضع اللوحة',
+  'command.currentModel': 'النموذج الحالي: {model}',
+  'command.defaultModel': 'النموذج الحالي: الافتراضي',
+  'command.unknownModel': 'نموذج غير معروف «{model}».',
+  'command.modelSet': 'تم تعيين النموذج إلى {model}.',
+  'command.systemUpdated': 'تم تحديث تعليمات النظام.',
+  'command.systemCleared': 'تم مسح تعليمات النظام.',
+  'command.exportFormats': 'يجب أن تكون صيغة التصدير إحدى: {formats}.',
+  'attachment.unsupported': '{name}: نوع ملف غير مدعوم. أرفق صورًا أو نصوصًا أو شيفرة أو ملفات CSV أو JSON أو PDF.',
+  'attachment.tooLarge.image': 'حجم {name} هو {size}؛ الحد الأقصى للصور هو {limit}.',
+  'attachment.tooLarge.text': 'حجم {name} هو {size}؛ الحد الأقصى للملفات النصية هو {limit}.',
+  'attachment.tooLarge.pdf': 'حجم {name} هو {size}؛ الحد الأقصى لملفات PDF هو {limit}.',
+  'attachment.unreadable': 'تعذرت قراءة {name}.',
+  'attachment.view': 'عرض {name}',
+  'attachment.unavailable': 'لم يعد {name} متاحًا.',
+
+  // Import errors, shared by conversation and template files
+  'import.notJson': 'هذا الملف ليس JSON صالحًا.',
+  'import.notConversations': 'هذا الملف ليس تصديرًا لمحادثات EndlessClaude.',
+  'import.notTemplates': 'هذا الملف ليس مكتبة قوالب EndlessClaude.',
+  'import.conversationsVersion': 'إصدار التصدير {version} غير مدعوم؛ يقرأ هذا التطبيق حتى الإصدار {max}.',
+  'import.templatesVersion': 'إصدار مكتبة القوالب {version} غير مدعوم.',
+  'import.field.object': 'ملف غير صالح: يجب أن يكون {path} كائنًا.',
+  'import.field.string': 'ملف غير صالح: يجب أن يكون {path} نصًا.',
+  'import.field.number': 'ملف غير صالح: يجب أن يكون {path} رقمًا.',
+  'import.field.boolean': 'ملف غير صالح: يجب أن تكون قيمة {path} هي true أو false.',
+  'import.field.date': 'ملف غير صالح: يجب أن يكون {path} تاريخًا بصيغة ISO.',
+  'import.field.array': 'ملف غير صالح: يجب أن يكون {path} قائمة.',
+  'import.field.oneOf': 'ملف غير صالح: يجب أن يكون {path} إحدى القيم: {options}.',
+
+  // Sidebar
+  'sidebar.newChat': 'محادثة جديدة',
+  'sidebar.show': 'إظهار المحادثات',
+  'sidebar.hide': 'إخفاء المحادثات',
+  'sidebar.export': 'تصدير',
+  'sidebar.rename': 'إعادة تسمية',
+  'sidebar.delete': 'حذف',
+  'sidebar.confirmDelete': 'حذف «{title}»؟ لا يمكن التراجع عن ذلك.',
+  'sidebar.exportAll': 'تصدير الكل',
+  'sidebar.import': 'استيراد',
+  'sidebar.importHint': 'استيراد نسخة احتياطية بصيغة JSON',
+  'sidebar.exportFailed': 'فشل التصدير. يُرجى المحاولة مرة أخرى.',
+  'sidebar.importFailed': 'فشل الاستيراد.',
+  'sidebar.appearance': 'المظهر واللغة',
+  'export.markdown': 'Markdown (.md)',
+  'export.json': 'نسخة احتياطية JSON (.json)',
+  'export.html': 'صفحة ويب (.html)',
+  'export.includeReasoning': 'تضمين التفكير',
+
+  // Message search
+  'search.placeholder': 'ابحث في الرسائل...',
+  'search.clear': 'مسح البحث',
+  'search.filters': 'عوامل تصفية البحث',
+  'search.from': 'من',
+  'search.to': 'إلى',
+  'search.sender': 'المرسل',
+  'search.anyone': 'أي شخص',
+  'search.model': 'النموذج',
+  'search.anyModel': 'أي نموذج',
+  'search.noResults': 'لا توجد رسائل مطابقة.',
+  'search.resultCount': {
+    zero: 'لا توجد رسائل',
+    one: 'رسالة واحدة',
+    two: 'رسالتان',
+    few: '{count} رسائل',
+    other: '{count} رسالة',
+  },
+
+  // Theme and language menu
+  'theme.label': 'المظهر',
+  'theme.system': 'النظام',
+  'theme.dark': 'داكن',
+  'theme.light': 'فاتح',
+  'theme.high-contrast': 'تباين عالٍ',
+  'theme.accent': 'لون التمييز',
+  'theme.background': 'الخلفية',
+  'theme.reset': 'إعادة تعيين الألوان المخصصة',
+  'language.label': 'اللغة',
+  'language.browser': 'لغة المتصفح',
+};
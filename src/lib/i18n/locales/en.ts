@@ -0,0 +1,276 @@
+import type { CatalogMessage } from '../types';
+
+/** The source catalog; every other locale has to translate each of these keys. */
+export const en = {
+  // Chat
+  'chat.emptyTitle': 'Start a conversation',
+  'chat.emptyBody':
+    'Ask me anything! I can help with questions, provide information, or just have a friendly chat. Try using different modes like Search, Think, or Canvas.',
+  'chat.placeholder': 'Type your message, or / for commands...',
+  'chat.messages': 'Messages',
+  'chat.messagesHint': "Use the up and down arrow keys to move between messages, and Tab to reach a message's actions.",
+  'chat.jumpToLatest': 'Jump to latest',
+  'chat.untitled': 'New chat',
+  'chat.searching': 'Searching...',
+  'chat.noResponse': "I apologize, but I didn't receive a proper response. Please try again.",
+  'chat.retrying': '{error}. Retrying in {seconds}s ({attempt}/{max})...',
+  'chat.canvasUpdated': 'Updated "{title}" in the canvas.',
+  'chat.announceReply': 'Assistant replied: {text}',
+  'chat.announceStopped': 'Generation stopped.',
+  'chat.announceFailed': 'Reply failed: {error}.',
+  'chat.imported': { one: 'Imported {count} conversation.', other: 'Imported {count} conversations.' },
+  'chat.importSkipped': { one: '{count} was already here.', other: '{count} were already here.' },
+
+  // Message bubbles
+  'message.you': 'You',
+  'message.assistant': 'Assistant',
+  'message.label': '{sender}, {time}',
+  'message.thinking': 'Thinking...',
+  'message.stoppedEmpty': 'Generation stopped before any text was produced.',
+  'message.stopped': 'Stopped',
+  'message.openCanvas': 'Open canvas v{version}',
+  'message.retry': 'Retry',
+  'message.cancel': 'Cancel',
+  'message.send': 'Send',
+  'message.tokenCount': '{count} tokens',
+  'message.seconds': '{seconds}s',
+  'message.statsInput': 'Input: {count} tokens',
+  'message.statsOutput': 'Output: {count} tokens',
+  'message.statsLatency': 'First token after {time}',
+  'message.statsDuration': 'Total time {time}',
+  'message.statsEstimated': '(estimated)',
+  'message.previousVersion': 'Previous version',
+  'message.nextVersion': 'Next version',
+  'message.edit': 'Edit message',
+  'message.regenerate': 'Regenerate reply',
+  'message.copy': 'Copy message',
+  'message.copied': 'Copied',
+
+  // What the error bubble says for each ChatErrorKind
+  'error.script-missing.title': 'AI service not loaded',
+  'error.script-missing.description':
+    'The Puter script could not be loaded. Check that js.puter.com is reachable and not blocked by an extension.',
+  'error.network.title': 'Connection problem',
+  'error.network.description': 'The AI service could not be reached. Check your connection and try again.',
+  'error.rate-limited.title': 'Rate limited',
+  'error.rate-limited.description': 'Too many requests were sent in a short time. Wait a moment and try again.',
+  'error.content-rejected.title': 'Request rejected',
+  'error.content-rejected.description': 'The service declined this request under its content policy. Try rephrasing it.',
+  'error.auth.title': 'Not authorized',
+  'error.auth.description': 'The service rejected the credentials. Sign in again or check the configured API key.',
+  'error.unknown.title': 'Something went wrong',
+  'error.unknown.description': 'The reply could not be generated.',
+
+  // Composer
+  'composer.placeholder': 'Type your message here...',
+  'composer.searchPlaceholder': 'Search the web...',
+  'composer.thinkPlaceholder': 'Think deeply...',
+  'composer.canvasPlaceholder': 'Create on canvas...',
+  'composer.message': 'Message',
+  'composer.stop': 'Stop generation',
+  'composer.stopRecording': 'Stop recording',
+  'composer.transcribing': 'Transcribing...',
+  'composer.send': 'Send message',
+  'composer.voice': 'Voice input',
+  'composer.voiceUnsupported': 'Voice input is not available in this browser',
+  'voice.denied': 'Microphone access was denied.',
+  'voice.noMicrophone': 'No microphone was found.',
+  'voice.recordingUnsupported': 'Audio recording is not supported in this browser.',
+  'voice.recognitionUnsupported': 'Speech recognition is not supported in this browser.',
+  'voice.recognitionFailed': 'Speech recognition failed: {reason}',
+  'voice.transcriptionFailed': 'Transcription failed: {status}',
+  'voice.noSpeech': 'No speech was recognized.',
+  'voice.failed': 'Voice input failed.',
+  'composer.recording': 'Recording',
+  'composer.transcribingStatus': 'Transcribing',
+  'composer.attach': 'Attach files',
+  'composer.attachLimit': 'Attach files (up to {max})',
+  'composer.tooManyFiles': 'You can attach up to {max} files per message.',
+  'composer.removeFile': 'Remove {name}',
+  'composer.modes': 'Response modes',
+  'composer.search': 'Search',
+  'composer.think': 'Think',
+  'composer.canvas': 'Canvas',
+  'composer.templates': 'Prompt templates',
+  'composer.dismiss': 'Dismiss',
+  'composer.overLimit': "This message may not fit in the model's context window; the oldest turns could be cut off.",
+  'composer.sendAnyway': 'Send anyway',
+  'composer.cancel': 'Cancel',
+  'context.draft': 'Draft: ~{count} tokens',
+  'context.history': 'History: ~{count} tokens',
+  'context.total': 'Total: ~{total} of {limit} ({percent}%)',
+  'context.label': 'Context usage: about {total} of {limit} tokens',
+  'settings.title': 'Generation settings',
+  'settings.label': 'Generation settings, model {model}',
+  'settings.model': 'Model',
+  'settings.systemPrompt': 'System prompt',
+  'settings.systemPromptPlaceholder': 'You are a helpful assistant...',
+  'settings.temperature': 'Temperature',
+  'settings.default': 'Default',
+  'settings.reset': 'Reset',
+  'settings.maxTokens': 'Max output tokens',
+
+  // Dialogs
+  'dialog.close': 'Close',
+  'image.preview': 'Image preview',
+  'image.alt': 'Full-size preview',
+
+  // Prompt templates
+  'templates.search': 'Search templates...',
+  'templates.new': 'New template',
+  'templates.edit': 'Edit template',
+  'templates.delete': 'Delete template',
+  'templates.none': 'No templates found.',
+  'templates.import': 'Import',
+  'templates.export': 'Export',
+  'templates.importFailed': 'The file could not be imported.',
+  'templates.back': 'Back',
+  'templates.noSelection': 'Nothing was selected',
+  'templates.noClipboard': 'Clipboard is empty or unreadable',
+  'templates.insert': 'Insert',
+  'templates.name': 'Name',
+  'templates.description': 'Description',
+  'templates.body': 'Template',
+  // Variable names stay as written, since templates refer to them
+  'templates.bodyPlaceholder': 'Translate into {{language}}:\n\n{{selection}}',
+  'templates.bodyHint':
+    'Use {{name}} for values to fill in, {{selection}} for selected text and {{clipboard}} for the clipboard.',
+  'templates.cancel': 'Cancel',
+  'templates.save': 'Save',
+  'templates.imported': { one: 'Imported {count} template.', other: 'Imported {count} templates.' },
+  'templates.importSkipped': { one: '{count} was already here.', other: '{count} were already here.' },
+
+  // Command palette and keyboard shortcuts
+  'palette.title': 'Command palette',
+  'palette.placeholder': 'Type a command or conversation...',
+  'palette.noResults': 'No matching commands.',
+  'palette.groupChat': 'Chat',
+  'palette.groupComposer': 'Composer',
+  'palette.groupConversations': 'Switch conversation',
+  'palette.groupHelp': 'Help',
+  'palette.turnOn': 'Turn on {mode}',
+  'palette.turnOff': 'Turn off {mode}',
+  'shortcuts.title': 'Keyboard shortcuts',
+  'shortcuts.hint': 'Choose a shortcut and press the new keys. Backspace removes it.',
+  'shortcuts.change': 'Change shortcut for {action}',
+  'shortcuts.recording': 'Press keys...',
+  'shortcuts.none': 'None',
+  'shortcuts.reset': 'Reset to defaults',
+  'shortcuts.moved': 'Moved from "{from}" to "{to}".',
+  'shortcut.openPalette': 'Open the command palette',
+  'shortcut.showShortcuts': 'Show keyboard shortcuts',
+  'shortcut.newConversation': 'New chat',
+  'shortcut.focusInput': 'Focus the message box',
+  'shortcut.toggleSearch': 'Toggle Search',
+  'shortcut.toggleThink': 'Toggle Think',
+  'shortcut.toggleCanvas': 'Toggle Canvas',
+  'shortcut.attachFile': 'Attach a file',
+  'shortcut.copyLastReply': 'Copy the last reply',
+  'shortcut.stopGeneration': 'Stop generating',
+
+  // Canvas, reasoning, sources and code blocks
+  'canvas.resize': 'Drag to resize',
+  'canvas.writing': 'Writing...',
+  'canvas.versionOf': 'v{version} / {count}',
+  'canvas.compare': 'Compare with previous version',
+  'canvas.backToEditor': 'Back to editor',
+  'canvas.copy': 'Copy',
+  'canvas.download': 'Download {file}',
+  'canvas.close': 'Close canvas',
+  'canvas.changes': 'Changes from v{from} to v{to}',
+  'canvas.empty': 'Ask for something in Canvas mode to start a document here.',
+  'canvas.untitled': 'Untitled',
+  'canvas.discard': 'Discard',
+  'canvas.saveAs': 'Save as v{version}',
+  'reasoning.moment': 'Thought for a moment',
+  'reasoning.duration': { one: 'Thought for {count} second', other: 'Thought for {count} seconds' },
+  'sources.count': { one: '{count} source', other: '{count} sources' },
+  'code.copy': 'Copy code',
+  'code.copyShort': 'Copy',
+
+  // Slash commands and attachment checks
+  'command.new': 'Start a new conversation',
+  'command.clear': 'Remove all messages from this conversation',
+  'command.model': 'Switch the model for this conversation',
+  'command.system': 'Set the system prompt; leave empty to clear it',
+  'command.export': 'Download this conversation',
+  'command.search': 'Search the web, or toggle search mode',
+  'command.think': 'Think before answering, or toggle think mode',
+  'command.canvas': 'Answer on the canvas, or toggle canvas mode',
+  'command.currentModel': 'Current model: {model}',
+  'command.defaultModel': 'Current model: default',
+  'command.unknownModel': 'Unknown model "{model}".',
+  'command.modelSet': 'Model set to {model}.',
+  'command.systemUpdated': 'System prompt updated.',
+  'command.systemCleared': 'System prompt cleared.',
+  'command.exportFormats': 'Export format must be one of {formats}.',
+  'attachment.unsupported': '{name}: unsupported file type. Attach images, text, code, CSV, JSON or PDF files.',
+  'attachment.tooLarge.image': '{name} is {size}; images can be at most {limit}.',
+  'attachment.tooLarge.text': '{name} is {size}; text files can be at most {limit}.',
+  'attachment.tooLarge.pdf': '{name} is {size}; PDF files can be at most {limit}.',
+  'attachment.unreadable': '{name} could not be read.',
+  'attachment.view': 'View {name}',
+  'attachment.unavailable': '{name} is no longer available.',
+
+  // Import errors, shared by conversation and template files
+  'import.notJson': 'This file is not valid JSON.',
+  'import.notConversations': 'This file is not an EndlessClaude conversation export.',
+  'import.notTemplates': 'This file is not an EndlessClaude template library.',
+  'import.conversationsVersion': 'Unsupported export version {version}; this app reads up to version {max}.',
+  'import.templatesVersion': 'Unsupported template library version {version}.',
+  'import.field.object': 'Invalid file: {path} should be an object.',
+  'import.field.string': 'Invalid file: {path} should be a string.',
+  'import.field.number': 'Invalid file: {path} should be a number.',
+  'import.field.boolean': 'Invalid file: {path} should be true or false.',
+  'import.field.date': 'Invalid file: {path} should be an ISO date.',
+  'import.field.array': 'Invalid file: {path} should be a list.',
+  'import.field.oneOf': 'Invalid file: {path} should be one of {options}.',
+
+  // Sidebar
+  'sidebar.newChat': 'New chat',
+  'sidebar.show': 'Show conversations',
+  'sidebar.hide': 'Hide conversations',
+  'sidebar.export': 'Export',
+  'sidebar.rename': 'Rename',
+  'sidebar.delete': 'Delete',
+  'sidebar.confirmDelete': 'Delete "{title}"? This cannot be undone.',
+  'sidebar.exportAll': 'Export all',
+  'sidebar.import': 'Import',
+  'sidebar.importHint': 'Import a JSON backup',
+  'sidebar.exportFailed': 'Export failed. Please try again.',
+  'sidebar.importFailed': 'Import failed.',
+  'sidebar.appearance': 'Theme and language',
+  'export.markdown': 'Markdown (.md)',
+  'export.json': 'JSON backup (.json)',
+  'export.html': 'Web page (.html)',
+  'export.includeReasoning': 'Include reasoning',
+
+  // Message search
+  'search.placeholder': 'Search messages...',
+  'search.clear': 'Clear search',
+  'search.filters': 'Search filters',
+  'search.from': 'From',
+  'search.to': 'To',
+  'search.sender': 'Sender',
+  'search.anyone': 'Anyone',
+  'search.model': 'Model',
+  'search.anyModel': 'Any model',
+  'search.noResults': 'No matching messages.',
+  'search.resultCount': { one: '{count} message', other: '{count} messages' },
+
+  // Theme and language menu
+  'theme.label': 'Theme',
+  'theme.system': 'System',
+  'theme.dark': 'Dark',
+  'theme.light': 'Light',
+  'theme.high-contrast': 'High contrast',
+  'theme.accent': 'Accent',
+  'theme.background': 'Background',
+  'theme.reset': 'Reset custom colors',
+  'language.label': 'Language',
+  'language.browser': 'Browser default',
+} satisfies Record<string, CatalogMessage>;
+
+export type MessageKey = keyof typeof en;
+
+export type Catalog = Record<MessageKey, CatalogMessage>;
@@ -0,0 +1,270 @@
+import type { Catalog } from './en';
+
+export const es: Catalog = {
+  // Chat
+  'chat.emptyTitle': 'Empieza una conversación',
+  'chat.emptyBody':
+    '¡Pregúntame lo que quieras! Puedo responder preguntas, darte información o simplemente charlar. Prueba los distintos modos, como Buscar, Pensar o Lienzo.',
+  'chat.placeholder': 'Escribe tu mensaje o / para ver los comandos...',
+  'chat.messages': 'Mensajes',
+  'chat.messagesHint': 'Usa las flechas arriba y abajo para moverte entre los mensajes, y Tab para llegar a sus acciones.',
+  'chat.jumpToLatest': 'Ir a lo más reciente',
+  'chat.untitled': 'Nuevo chat',
+  'chat.searching': 'Buscando...',
+  'chat.noResponse': 'Lo siento, no he recibido una respuesta válida. Inténtalo de nuevo.',
+  'chat.retrying': '{error}. Reintentando en {seconds} s ({attempt}/{max})...',
+  'chat.canvasUpdated': 'Se actualizó «{title}» en el lienzo.',
+  'chat.announceReply': 'El asistente respondió: {text}',
+  'chat.announceStopped': 'Generación detenida.',
+  'chat.announceFailed': 'La respuesta falló: {error}.',
+  'chat.imported': { one: 'Se importó {count} conversación.', other: 'Se importaron {count} conversaciones.' },
+  'chat.importSkipped': { one: '{count} ya estaba aquí.', other: '{count} ya estaban aquí.' },
+
+  // Message bubbles
+  'message.you': 'Tú',
+  'message.assistant': 'Asistente',
+  'message.label': '{sender}, {time}',
+  'message.thinking': 'Pensando...',
+  'message.stoppedEmpty': 'La generación se detuvo antes de producir texto.',
+  'message.stopped': 'Detenido',
+  'message.openCanvas': 'Abrir lienzo v{version}',
+  'message.retry': 'Reintentar',
+  'message.cancel': 'Cancelar',
+  'message.send': 'Enviar',
+  'message.tokenCount': '{count} tokens',
+  'message.seconds': '{seconds} s',
+  'message.statsInput': 'Entrada: {count} tokens',
+  'message.statsOutput': 'Salida: {count} tokens',
+  'message.statsLatency': 'Primer token tras {time}',
+  'message.statsDuration': 'Tiempo total {time}',
+  'message.statsEstimated': '(estimado)',
+  'message.previousVersion': 'Versión anterior',
+  'message.nextVersion': 'Versión siguiente',
+  'message.edit': 'Editar mensaje',
+  'message.regenerate': 'Regenerar respuesta',
+  'message.copy': 'Copiar mensaje',
+  'message.copied': 'Copiado',
+
+  // What the error bubble says for each ChatErrorKind
+  'error.script-missing.title': 'Servicio de IA no cargado',
+  'error.script-missing.description':
+    'No se pudo cargar el script de Puter. Comprueba que js.puter.com es accesible y que ninguna extensión lo bloquea.',
+  'error.network.title': 'Problema de conexión',
+  'error.network.description': 'No se pudo contactar con el servicio de IA. Comprueba tu conexión e inténtalo de nuevo.',
+  'error.rate-limited.title': 'Límite de solicitudes',
+  'error.rate-limited.description': 'Se enviaron demasiadas solicitudes en poco tiempo. Espera un momento e inténtalo de nuevo.',
+  'error.content-rejected.title': 'Solicitud rechazada',
+  'error.content-rejected.description': 'El servicio rechazó esta solicitud por su política de contenido. Prueba a reformularla.',
+  'error.auth.title': 'No autorizado',
+  'error.auth.description': 'El servicio rechazó las credenciales. Vuelve a iniciar sesión o revisa la clave de API configurada.',
+  'error.unknown.title': 'Algo salió mal',
+  'error.unknown.description': 'No se pudo generar la respuesta.',
+
+  // Composer
+  'composer.placeholder': 'Escribe tu mensaje aquí...',
+  'composer.searchPlaceholder': 'Buscar en la web...',
+  'composer.thinkPlaceholder': 'Pensar a fondo...',
+  'composer.canvasPlaceholder': 'Crear en el lienzo...',
+  'composer.message': 'Mensaje',
+  'composer.stop': 'Detener la generación',
+  'composer.stopRecording': 'Detener la grabación',
+  'composer.transcribing': 'Transcribiendo...',
+  'composer.send': 'Enviar mensaje',
+  'composer.voice': 'Entrada de voz',
+  'composer.voiceUnsupported': 'La entrada de voz no está disponible en este navegador',
+  'voice.denied': 'Se denegó el acceso al micrófono.',
+  'voice.noMicrophone': 'No se encontró ningún micrófono.',
+  'voice.recordingUnsupported': 'Este navegador no admite la grabación de audio.',
+  'voice.recognitionUnsupported': 'Este navegador no admite el reconocimiento de voz.',
+  'voice.recognitionFailed': 'Falló el reconocimiento de voz: {reason}',
+  'voice.transcriptionFailed': 'Falló la transcripción: {status}',
+  'voice.noSpeech': 'No se reconoció ninguna voz.',
+  'voice.failed': 'Falló la entrada de voz.',
+  'composer.recording': 'Grabando',
+  'composer.transcribingStatus': 'Transcribiendo',
+  'composer.attach': 'Adjuntar archivos',
+  'composer.attachLimit': 'Adjuntar archivos (hasta {max})',
+  'composer.tooManyFiles': 'Puedes adjuntar hasta {max} archivos por mensaje.',
+  'composer.removeFile': 'Quitar {name}',
+  'composer.modes': 'Modos de respuesta',
+  'composer.search': 'Buscar',
+  'composer.think': 'Pensar',
+  'composer.canvas': 'Lienzo',
+  'composer.templates': 'Plantillas de prompts',
+  'composer.dismiss': 'Cerrar',
+  'composer.overLimit': 'Es posible que este mensaje no quepa en la ventana de contexto del modelo; los turnos más antiguos podrían recortarse.',
+  'composer.sendAnyway': 'Enviar de todos modos',
+  'composer.cancel': 'Cancelar',
+  'context.draft': 'Borrador: ~{count} tokens',
+  'context.history': 'Historial: ~{count} tokens',
+  'context.total': 'Total: ~{total} de {limit} ({percent} %)',
+  'context.label': 'Uso del contexto: unos {total} de {limit} tokens',
+  'settings.title': 'Ajustes de generación',
+  'settings.label': 'Ajustes de generación, modelo {model}',
+  'settings.model': 'Modelo',
+  'settings.systemPrompt': 'Prompt del sistema',
+  'settings.systemPromptPlaceholder': 'Eres un asistente útil...',
+  'settings.temperature': 'Temperatura',
+  'settings.default': 'Predeterminado',
+  'settings.reset': 'Restablecer',
+  'settings.maxTokens': 'Máximo de tokens de salida',
+
+  // Dialogs
+  'dialog.close': 'Cerrar',
+  'image.preview': 'Vista previa de la imagen',
+  'image.alt': 'Vista previa a tamaño completo',
+
+  // Prompt templates
+  'templates.search': 'Buscar plantillas...',
+  'templates.new': 'Nueva plantilla',
+  'templates.edit': 'Editar plantilla',
+  'templates.delete': 'Eliminar plantilla',
+  'templates.none': 'No se encontraron plantillas.',
+  'templates.import': 'Importar',
+  'templates.export': 'Exportar',
+  'templates.importFailed': 'No se pudo importar el archivo.',
+  'templates.back': 'Atrás',
+  'templates.noSelection': 'No había nada seleccionado',
+  'templates.noClipboard': 'El portapapeles está vacío o no se puede leer',
+  'templates.insert': 'Insertar',
+  'templates.name': 'Nombre',
+  'templates.description': 'Descripción',
+  'templates.body': 'Plantilla',
+  'templates.bodyPlaceholder': 'Traduce al {{language}}:\n\n{{selection}}',
+  'templates.bodyHint':
+    'Usa {{name}} para los valores que se rellenan, {{selection}} para el texto seleccionado y {{clipboard}} para el portapapeles.',
+  'templates.cancel': 'Cancelar',
+  'templates.save': 'Guardar',
+  'templates.imported': { one: 'Se importó {count} plantilla.', other: 'Se importaron {count} plantillas.' },
+  'templates.importSkipped': { one: '{count} ya estaba aquí.', other: '{count} ya estaban aquí.' },
+
+  // Command palette and keyboard shortcuts
+  'palette.title': 'Paleta de comandos',
+  'palette.placeholder': 'Escribe un comando o una conversación...',
+  'palette.noResults': 'No hay comandos que coincidan.',
+  'palette.groupChat': 'Chat',
+  'palette.groupComposer': 'Redacción',
+  'palette.groupConversations': 'Cambiar de conversación',
+  'palette.groupHelp': 'Ayuda',
+  'palette.turnOn': 'Activar {mode}',
+  'palette.turnOff': 'Desactivar {mode}',
+  'shortcuts.title': 'Atajos de teclado',
+  'shortcuts.hint': 'Elige un atajo y pulsa las nuevas teclas. Retroceso lo quita.',
+  'shortcuts.change': 'Cambiar el atajo de {action}',
+  'shortcuts.recording': 'Pulsa las teclas...',
+  'shortcuts.none': 'Ninguno',
+  'shortcuts.reset': 'Restablecer valores predeterminados',
+  'shortcuts.moved': 'Se movió de «{from}» a «{to}».',
+  'shortcut.openPalette': 'Abrir la paleta de comandos',
+  'shortcut.showShortcuts': 'Mostrar los atajos de teclado',
+  'shortcut.newConversation': 'Nuevo chat',
+  'shortcut.focusInput': 'Ir al cuadro de mensaje',
+  'shortcut.toggleSearch': 'Activar o desactivar Buscar',
+  'shortcut.toggleThink': 'Activar o desactivar Pensar',
+  'shortcut.toggleCanvas': 'Activar o desactivar Lienzo',
+  'shortcut.attachFile': 'Adjuntar un archivo',
+  'shortcut.copyLastReply': 'Copiar la última respuesta',
+  'shortcut.stopGeneration': 'Detener la generación',
+
+  // Canvas, reasoning, sources and code blocks
+  'canvas.resize': 'Arrastra para cambiar el tamaño',
+  'canvas.writing': 'Escribiendo...',
+  'canvas.versionOf': 'v{version} / {count}',
+  'canvas.compare': 'Comparar con la versión anterior',
+  'canvas.backToEditor': 'Volver al editor',
+  'canvas.copy': 'Copiar',
+  'canvas.download': 'Descargar {file}',
+  'canvas.close': 'Cerrar el lienzo',
+  'canvas.changes': 'Cambios de v{from} a v{to}',
+  'canvas.empty': 'Pide algo en el modo Lienzo para empezar un documento aquí.',
+  'canvas.untitled': 'Sin título',
+  'canvas.discard': 'Descartar',
+  'canvas.saveAs': 'Guardar como v{version}',
+  'reasoning.moment': 'Pensó un momento',
+  'reasoning.duration': { one: 'Pensó durante {count} segundo', other: 'Pensó durante {count} segundos' },
+  'sources.count': { one: '{count} fuente', other: '{count} fuentes' },
+  'code.copy': 'Copiar código',
+  'code.copyShort': 'Copiar',
+
+  // Slash commands and attachment checks
+  'command.new': 'Empezar una conversación nueva',
+  'command.clear': 'Quitar todos los mensajes de esta conversación',
+  'command.model': 'Cambiar el modelo de esta conversación',
+  'command.system': 'Definir el prompt del sistema; déjalo vacío para borrarlo',
+  'command.export': 'Descargar esta conversación',
+  'command.search': 'Buscar en la web, o activar o desactivar el modo Buscar',
+  'command.think': 'Pensar antes de responder, o activar o desactivar el modo Pensar',
+  'command.canvas': 'Responder en el lienzo, o activar o desactivar el modo Lienzo',
+  'command.currentModel': 'Modelo actual: {model}',
+  'command.defaultModel': 'Modelo actual: predeterminado',
+  'command.unknownModel': 'Modelo desconocido «{model}».',
+  'command.modelSet': 'Modelo cambiado a {model}.',
+  'command.systemUpdated': 'Prompt del sistema actualizado.',
+  'command.systemCleared': 'Prompt del sistema borrado.',
+  'command.exportFormats': 'El formato de exportación debe ser uno de estos: {formats}.',
+  'attachment.unsupported': '{name}: tipo de archivo no admitido. Adjunta imágenes, texto, código, CSV, JSON o PDF.',
+  'attachment.tooLarge.image': '{name} ocupa {size}; las imágenes pueden ocupar como máximo {limit}.',
+  'attachment.tooLarge.text': '{name} ocupa {size}; los archivos de texto pueden ocupar como máximo {limit}.',
+  'attachment.tooLarge.pdf': '{name} ocupa {size}; los PDF pueden ocupar como máximo {limit}.',
+  'attachment.unreadable': 'No se pudo leer {name}.',
+  'attachment.view': 'Ver {name}',
+  'attachment.unavailable': '{name} ya no está disponible.',
+
+  // Import errors, shared by conversation and template files
+  'import.notJson': 'Este archivo no es JSON válido.',
+  'import.notConversations': 'Este archivo no es una exportación de conversaciones de EndlessClaude.',
+  'import.notTemplates': 'Este archivo no es una biblioteca de plantillas de EndlessClaude.',
+  'import.conversationsVersion': 'La versión de exportación {version} no es compatible; esta aplicación lee hasta la versión {max}.',
+  'import.templatesVersion': 'La versión {version} de la biblioteca de plantillas no es compatible.',
+  'import.field.object': 'Archivo no válido: {path} debería ser un objeto.',
+  'import.field.string': 'Archivo no válido: {path} debería ser un texto.',
+  'import.field.number': 'Archivo no válido: {path} debería ser un número.',
+  'import.field.boolean': 'Archivo no válido: {path} debería ser true o false.',
+  'import.field.date': 'Archivo no válido: {path} debería ser una fecha ISO.',
+  'import.field.array': 'Archivo no válido: {path} debería ser una lista.',
+  'import.field.oneOf': 'Archivo no válido: {path} debería ser uno de estos valores: {options}.',
+
+  // Sidebar
+  'sidebar.newChat': 'Nuevo chat',
+  'sidebar.show': 'Mostrar conversaciones',
+  'sidebar.hide': 'Ocultar conversaciones',
+  'sidebar.export': 'Exportar',
+  'sidebar.rename': 'Cambiar nombre',
+  'sidebar.delete': 'Eliminar',
+  'sidebar.confirmDelete': '¿Eliminar «{title}»? Esta acción no se puede deshacer.',
+  'sidebar.exportAll': 'Exportar todo',
+  'sidebar.import': 'Importar',
+  'sidebar.importHint': 'Importar una copia de seguridad JSON',
+  'sidebar.exportFailed': 'La exportación falló. Inténtalo de nuevo.',
+  'sidebar.importFailed': 'La importación falló.',
+  'sidebar.appearance': 'Tema e idioma',
+  'export.markdown': 'Markdown (.md)',
+  'export.json': 'Copia de seguridad JSON (.json)',
+  'export.html': 'Página web (.html)',
+  'export.includeReasoning': 'Incluir el razonamiento',
+
+  // Message search
+  'search.placeholder': 'Buscar mensajes...',
+  'search.clear': 'Borrar la búsqueda',
+  'search.filters': 'Filtros de búsqueda',
+  'search.from': 'Desde',
+  'search.to': 'Hasta',
+  'search.sender': 'Remitente',
+  'search.anyone': 'Cualquiera',
+  'search.model': 'Modelo',
+  'search.anyModel': 'Cualquier modelo',
+  'search.noResults': 'No hay mensajes que coincidan.',
+  'search.resultCount': { one: '{count} mensaje', other: '{count} mensajes' },
+
+  // Theme and language menu
+  'theme.label': 'Tema',
+  'theme.system': 'Sistema',
+  'theme.dark': 'Oscuro',
+  'theme.light': 'Claro',
+  'theme.high-contrast': 'Alto contraste',
+  'theme.accent': 'Color de acento',
+  'theme.background': 'Fondo',
+  'theme.reset': 'Restablecer colores',
+  'language.label': 'Idioma',
+  'language.browser': 'Idioma del navegador',
+};
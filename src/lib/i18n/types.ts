@@ -0,0 +1,9 @@
+export type TextDirection = 'ltr' | 'rtl';
+
+// Variants picked by the `count` parameter through Intl.PluralRules; `other` is the fallback
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+// Placeholders are written as {name}
+export type CatalogMessage = string | PluralMessage;
+
+export type TranslationParams = Record<string, string | number>;
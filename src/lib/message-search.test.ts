@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { buildSnippet, createMessageIndex } from './message-search';
+import type { Conversation, Message } from '../types/chat';
+
+const message = (id: string, content: string, extra: Partial<Message> = {}): Message => ({
+  id,
+  content,
+  sender: 'user',
+  timestamp: new Date(`2024-01-0${id.slice(-1)}T00:00:00.000Z`),
+  ...extra,
+});
+
+const conversation = (id: string, messages: Message[]): Conversation => ({
+  id,
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+  messages,
+});
+
+const ids = (results: { messageId: string }[]) => results.map((result) => result.messageId);
+
+describe('createMessageIndex', () => {
+  const setup = () => {
+    const index = createMessageIndex();
+    const conversations = [
+      conversation('c1', [
+        message('m1', 'How do I configure webpack?'),
+        message('m2', 'Use a webpack.config.js file', { sender: 'ai', model: 'gpt' }),
+      ]),
+      conversation('c2', [message('m3', 'Is the web worth it?'), message('m4', 'Maybe', { sender: 'ai', model: 'claude' })]),
+    ];
+    index.sync(conversations);
+    return { index, conversations };
+  };
+
+  it('matches words by prefix and ranks whole words first', () => {
+    const { index } = setup();
+    expect(ids(index.search('web'))).toEqual(['m3', 'm2', 'm1']);
+  });
+
+  it('requires every query term', () => {
+    const { index } = setup();
+    expect(ids(index.search('webpack file'))).toEqual(['m2']);
+    expect(ids(index.search('webpack nothing'))).toEqual([]);
+  });
+
+  it('applies filters, alone or with a query', () => {
+    const { index } = setup();
+    expect(ids(index.search('', { sender: 'ai' }))).toEqual(['m4', 'm2']);
+    expect(ids(index.search('web', { model: 'gpt' }))).toEqual(['m2']);
+    expect(ids(index.search('web', { from: new Date('2024-01-02T00:00:00.000Z'), to: new Date('2024-01-03T00:00:00.000Z') }))).toEqual([
+      'm3',
+      'm2',
+    ]);
+    expect(index.search('')).toEqual([]);
+  });
+
+  it('re-indexes changed messages and forgets removed ones', () => {
+    const { index, conversations } = setup();
+    const [first] = conversations;
+    index.sync([{ ...first, messages: [{ ...first.messages[0], content: 'Rollup instead' }] }]);
+    expect(ids(index.search('webpack'))).toEqual([]);
+    expect(ids(index.search('rollup'))).toEqual(['m1']);
+    expect(index.models()).toEqual([]);
+  });
+
+  it('lists the models that replied', () => {
+    expect(setup().index.models()).toEqual(['claude', 'gpt']);
+  });
+
+  it('finds attachments by file name', () => {
+    const index = createMessageIndex();
+    index.sync([conversation('c1', [message('m1', '', { attachments: [{ hash: 'h', name: 'report.pdf', type: 'application/pdf', size: 1 }] })])]);
+    expect(ids(index.search('report'))).toEqual(['m1']);
+  });
+});
+
+describe('buildSnippet', () => {
+  it('marks every matching word', () => {
+    expect(buildSnippet('Webpack and the web', ['web'])).toEqual([
+      { text: 'Webpack', match: true },
+      { text: ' and the ', match: false },
+      { text: 'web', match: true },
+    ]);
+  });
+
+  it('starts near the first match in long text', () => {
+    const text = `${'filler '.repeat(30)}target word`;
+    const [first] = buildSnippet(text, ['target']);
+    expect(first.text.startsWith('…')).toBe(true);
+  });
+});
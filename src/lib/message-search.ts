@@ -0,0 +1,198 @@
+import type { Conversation, Message } from '../types/chat';
+
+export interface MessageSearchFilters {
+  // Inclusive bounds on the message timestamp
+  from?: Date;
+  to?: Date;
+  sender?: Message['sender'];
+  model?: string;
+}
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface MessageSearchResult {
+  conversationId: string;
+  messageId: string;
+  sender: Message['sender'];
+  model?: string;
+  timestamp: Date;
+  snippet: SnippetPart[];
+}
+
+export interface MessageIndex {
+  // Brings the index up to date; only messages that changed are re-indexed
+  sync: (conversations: Conversation[]) => void;
+  search: (query: string, filters?: MessageSearchFilters, limit?: number) => MessageSearchResult[];
+  // Models that produced at least one indexed reply, for the filter menu
+  models: () => string[];
+}
+
+interface IndexedMessage {
+  conversationId: string;
+  message: Message;
+  // Content and attachment names, whitespace collapsed
+  text: string;
+  tokens: Set<string>;
+}
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+const SNIPPET_LENGTH = 160;
+const SNIPPET_LEAD = 50;
+const DEFAULT_LIMIT = 50;
+
+export const tokenize = (text: string) => Array.from(text.toLowerCase().matchAll(TOKEN_PATTERN), (match) => match[0]);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Query terms match at the start of a word, so "web" finds "webpack"
+const termPattern = (terms: string[]) =>
+  new RegExp(`(?<![\\p{L}\\p{N}])(?:${terms.map(escapeRegExp).join('|')})[\\p{L}\\p{N}]*`, 'giu');
+
+/**
+ * A window of `text` around the first match, split into parts so every
+ * matched word can be highlighted.
+ */
+export const buildSnippet = (text: string, terms: string[]): SnippetPart[] => {
+  const pattern = terms.length > 0 ? termPattern(terms) : null;
+  const first = pattern ? text.search(pattern) : -1;
+  const start = first > SNIPPET_LEAD ? text.lastIndexOf(' ', first - SNIPPET_LEAD) + 1 : 0;
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const excerpt = `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+  if (!pattern) return [{ text: excerpt, match: false }];
+
+  const parts: SnippetPart[] = [];
+  let last = 0;
+  for (const match of excerpt.matchAll(pattern)) {
+    const index = match.index ?? 0;
+    if (index > last) parts.push({ text: excerpt.slice(last, index), match: false });
+    parts.push({ text: match[0], match: true });
+    last = index + match[0].length;
+  }
+  if (last < excerpt.length) parts.push({ text: excerpt.slice(last), match: false });
+  return parts;
+};
+
+const searchableText = (message: Message) =>
+  [message.content, ...(message.attachments ?? []).map((attachment) => attachment.name)]
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const matchesFilters = ({ message }: IndexedMessage, filters: MessageSearchFilters) =>
+  (!filters.sender || message.sender === filters.sender) &&
+  (!filters.model || message.model === filters.model) &&
+  (!filters.from || message.timestamp >= filters.from) &&
+  (!filters.to || message.timestamp <= filters.to);
+
+export const hasActiveFilters = (filters: MessageSearchFilters) =>
+  !!(filters.from || filters.to || filters.sender || filters.model);
+
+/**
+ * An in-memory inverted index over every message in every conversation,
+ * including branches that are not on screen.
+ */
+export const createMessageIndex = (): MessageIndex => {
+  const documents = new Map<string, IndexedMessage>();
+  // Word -> keys of the messages containing it
+  const postings = new Map<string, Set<string>>();
+  // Per conversation: message id -> the message object last indexed
+  const indexed = new Map<string, Map<string, Message>>();
+
+  const keyOf = (conversationId: string, messageId: string) => `${conversationId}/${messageId}`;
+
+  const remove = (key: string) => {
+    const document = documents.get(key);
+    if (!document) return;
+    for (const token of document.tokens) {
+      const keys = postings.get(token);
+      keys?.delete(key);
+      if (keys?.size === 0) postings.delete(token);
+    }
+    documents.delete(key);
+  };
+
+  const add = (conversationId: string, message: Message) => {
+    const key = keyOf(conversationId, message.id);
+    const text = searchableText(message);
+    const tokens = new Set(tokenize(text));
+    documents.set(key, { conversationId, message, text, tokens });
+    for (const token of tokens) {
+      const keys = postings.get(token);
+      if (keys) keys.add(key);
+      else postings.set(token, new Set([key]));
+    }
+  };
+
+  const sync = (conversations: Conversation[]) => {
+    const present = new Set(conversations.map((conversation) => conversation.id));
+    for (const [conversationId, messages] of indexed) {
+      if (present.has(conversationId)) continue;
+      for (const messageId of messages.keys()) remove(keyOf(conversationId, messageId));
+      indexed.delete(conversationId);
+    }
+
+    for (const conversation of conversations) {
+      const previous = indexed.get(conversation.id) ?? new Map<string, Message>();
+      const next = new Map<string, Message>();
+      for (const message of conversation.messages) {
+        next.set(message.id, message);
+        // Messages are replaced, never mutated, so an unchanged object needs no work
+        if (previous.get(message.id) === message) continue;
+        remove(keyOf(conversation.id, message.id));
+        add(conversation.id, message);
+      }
+      for (const messageId of previous.keys()) {
+        if (!next.has(messageId)) remove(keyOf(conversation.id, messageId));
+      }
+      indexed.set(conversation.id, next);
+    }
+  };
+
+  // Keys of messages with a word starting with `term`
+  const lookup = (term: string) => {
+    const keys = new Set<string>();
+    for (const [token, tokenKeys] of postings) {
+      if (token.startsWith(term)) tokenKeys.forEach((key) => keys.add(key));
+    }
+    return keys;
+  };
+
+  const search = (query: string, filters: MessageSearchFilters = {}, limit = DEFAULT_LIMIT) => {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0 && !hasActiveFilters(filters)) return [];
+
+    // Every term has to match; with no terms, the filters alone pick messages
+    let candidates: string[] | null = null;
+    for (const term of terms) {
+      const keys = lookup(term);
+      candidates = candidates ? candidates.filter((key) => keys.has(key)) : Array.from(keys);
+    }
+
+    const scored = Array.from(candidates ?? documents.keys(), (key) => documents.get(key)!)
+      .filter((document) => matchesFilters(document, filters))
+      .map((document) => ({
+        document,
+        // Whole-word hits rank above prefix-only hits
+        score: terms.reduce((total, term) => total + (document.tokens.has(term) ? 2 : 1), 0),
+      }))
+      .sort((a, b) => b.score - a.score || b.document.message.timestamp.getTime() - a.document.message.timestamp.getTime())
+      .slice(0, limit);
+
+    return scored.map(({ document: { conversationId, message, text } }) => ({
+      conversationId,
+      messageId: message.id,
+      sender: message.sender,
+      model: message.model,
+      timestamp: message.timestamp,
+      snippet: buildSnippet(text, terms),
+    }));
+  };
+
+  const models = () =>
+    Array.from(new Set(Array.from(documents.values(), ({ message }) => message.model).filter((model): model is string => !!model))).sort();
+
+  return { sync, search, models };
+};
@@ -0,0 +1,27 @@
+// Tracks in-flight requests so a provider's cancel() can abort all of them at once
+export const createCancelScope = () => {
+  const active = new Set<AbortController>();
+
+  return {
+    // Returns a signal that fires when either `signal` or cancel() does; call release when finished
+    link: (signal?: AbortSignal) => {
+      const controller = new AbortController();
+      const onAbort = () => controller.abort();
+      if (signal?.aborted) controller.abort();
+      signal?.addEventListener('abort', onAbort, { once: true });
+      active.add(controller);
+
+      return {
+        signal: controller.signal,
+        release: () => {
+          signal?.removeEventListener('abort', onAbort);
+          active.delete(controller);
+        },
+      };
+    },
+    cancel: () => {
+      active.forEach((controller) => controller.abort());
+      active.clear();
+    },
+  };
+};
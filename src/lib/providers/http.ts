@@ -0,0 +1,217 @@
+import { abortable } from '../abortable';
+import { classifyError, errorFromResponse } from '../errors';
+import { createCancelScope } from './cancel-scope';
+import { readServerSentEvents } from './sse';
+import type { ChatProvider, ChatRequest, ChatStreamPart, ModelInfo, ProviderContentPart, ProviderMessage } from './types';
+
+export type HttpApiFlavor = 'openai' | 'anthropic';
+
+export interface HttpProviderConfig {
+  // e.g. http://localhost:11434/v1 or https://gateway.example.com/anthropic/v1
+  baseUrl: string;
+  flavor: HttpApiFlavor;
+  apiKey?: string;
+  defaultModel?: string;
+  // Anthropic requires an explicit output limit
+  maxTokens?: number;
+}
+
+const readAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error(`Failed to read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+
+const joinText = (parts: ProviderContentPart[]) =>
+  parts.map((part) => (part.type === 'text' ? part.text : '')).filter(Boolean).join('\n\n');
+
+const toOpenAIMessage = (message: ProviderMessage) => {
+  if (message.content.every((part) => part.type === 'text')) {
+    return { role: message.role, content: joinText(message.content) };
+  }
+  return {
+    role: message.role,
+    content: message.content.map((part) =>
+      part.type === 'text'
+        ? { type: 'text', text: part.text }
+        : { type: 'image_url', image_url: { url: part.attachment.ref } }
+    ),
+  };
+};
+
+const toAnthropicContent = (part: ProviderContentPart) => {
+  if (part.type === 'text') return { type: 'text', text: part.text };
+  const [, data = ''] = part.attachment.ref.split(',', 2);
+  return { type: 'image', source: { type: 'base64', media_type: part.attachment.mimeType, data } };
+};
+
+// Tokens the Anthropic API may spend on extended thinking
+const THINKING_BUDGET = 4096;
+
+interface HttpRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+}
+
+const baseUrlOf = (config: HttpProviderConfig) => config.baseUrl.replace(/\/+$/, '');
+
+const authHeaders = (config: HttpProviderConfig): Record<string, string> => {
+  if (config.flavor === 'openai') {
+    return config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {};
+  }
+  return {
+    'anthropic-version': '2023-06-01',
+    'anthropic-dangerous-direct-browser-access': 'true',
+    ...(config.apiKey ? { 'x-api-key': config.apiKey } : {}),
+  };
+};
+
+const buildRequest = (config: HttpProviderConfig, request: ChatRequest): HttpRequest => {
+  const baseUrl = baseUrlOf(config);
+  // Extended thinking does not allow a custom temperature
+  const temperature = request.temperature !== undefined && !request.reasoning ? { temperature: request.temperature } : {};
+
+  if (config.flavor === 'openai') {
+    return {
+      url: `${baseUrl}/chat/completions`,
+      headers: authHeaders(config),
+      body: {
+        model: request.model,
+        stream: true,
+        // Adds a final chunk with token counts
+        stream_options: { include_usage: true },
+        ...temperature,
+        ...(request.maxTokens !== undefined ? { max_tokens: request.maxTokens } : {}),
+        messages: request.messages.map(toOpenAIMessage),
+      },
+    };
+  }
+
+  // Anthropic takes system prompts as a top-level field rather than a message
+  const system = request.messages.filter((message) => message.role === 'system').map((message) => joinText(message.content));
+  return {
+    url: `${baseUrl}/messages`,
+    headers: authHeaders(config),
+    body: {
+      model: request.model,
+      stream: true,
+      ...temperature,
+      max_tokens: Math.max(request.maxTokens ?? config.maxTokens ?? 4096, request.reasoning ? THINKING_BUDGET + 1024 : 0),
+      ...(request.reasoning ? { thinking: { type: 'enabled', budget_tokens: THINKING_BUDGET } } : {}),
+      ...(system.length > 0 ? { system: system.join('\n\n') } : {}),
+      messages: request.messages
+        .filter((message) => message.role !== 'system')
+        .map((message) => ({ role: message.role, content: message.content.map(toAnthropicContent) })),
+    },
+  };
+};
+
+// Pulls the streamed parts out of one event; most events carry none
+const parseDelta = (flavor: HttpApiFlavor, data: string): ChatStreamPart[] => {
+  if (data === '[DONE]') return [];
+  const payload = JSON.parse(data);
+
+  if (payload?.error) {
+    // The error type (e.g. overloaded_error, rate_limit_error) says more than the message
+    const { type, message = 'The endpoint reported an error' } = payload.error;
+    throw classifyError(typeof type === 'string' ? `${type}: ${message}` : message);
+  }
+
+  const parts: ChatStreamPart[] = [];
+  if (flavor === 'openai') {
+    const delta = payload?.choices?.[0]?.delta;
+    // Reasoning models served through OpenAI-style APIs stream thoughts under one of these keys
+    const reasoning = delta?.reasoning_content ?? delta?.reasoning;
+    if (typeof reasoning === 'string' && reasoning) parts.push({ type: 'reasoning', text: reasoning });
+    if (typeof delta?.content === 'string' && delta.content) parts.push({ type: 'text', text: delta.content });
+    if (payload?.usage) {
+      parts.push({ type: 'usage', usage: { inputTokens: payload.usage.prompt_tokens, outputTokens: payload.usage.completion_tokens } });
+    }
+    return parts;
+  }
+
+  if (payload?.type === 'content_block_delta') {
+    if (payload.delta?.type === 'text_delta') parts.push({ type: 'text', text: payload.delta.text });
+    if (payload.delta?.type === 'thinking_delta') parts.push({ type: 'reasoning', text: payload.delta.thinking });
+  }
+  // Input tokens come with message_start, the running output count with message_delta
+  if (payload?.type === 'message_start' && payload.message?.usage) {
+    parts.push({ type: 'usage', usage: { inputTokens: payload.message.usage.input_tokens } });
+  }
+  if (payload?.type === 'message_delta' && payload.usage) {
+    parts.push({ type: 'usage', usage: { outputTokens: payload.usage.output_tokens } });
+  }
+  return parts;
+};
+
+/**
+ * Talks to any OpenAI- or Anthropic-compatible HTTP endpoint, such as a
+ * self-hosted gateway or a local model server.
+ */
+export const createHttpProvider = (config: HttpProviderConfig): ChatProvider => {
+  const scope = createCancelScope();
+  const defaultModel = config.defaultModel ?? (config.flavor === 'openai' ? 'gpt-4o-mini' : 'claude-sonnet-4-20250514');
+
+  return {
+    id: config.flavor,
+    label: config.flavor === 'openai' ? 'OpenAI-compatible' : 'Anthropic-compatible',
+    defaultModel,
+    // The Anthropic API has a standard thinking switch; OpenAI-style servers vary by model
+    supportsReasoning: config.flavor === 'anthropic',
+
+    // Both API styles expose GET /models returning { data: [{ id, ... }] }
+    listModels: async () => {
+      const fallback: ModelInfo[] = [{ id: defaultModel }];
+      try {
+        const response = await fetch(`${baseUrlOf(config)}/models`, { headers: authHeaders(config) });
+        if (!response.ok) return fallback;
+        const payload = await response.json();
+        const models: ModelInfo[] = (Array.isArray(payload?.data) ? payload.data : [])
+          .filter((model: any) => typeof model?.id === 'string')
+          .map((model: any) => ({
+            id: model.id,
+            label: model.display_name,
+            // OpenRouter and some gateways list the context size
+            contextWindow: typeof model.context_length === 'number' ? model.context_length : undefined,
+          }));
+        return models.length > 0 ? models : fallback;
+      } catch (error) {
+        console.warn('Failed to list models:', error);
+        return fallback;
+      }
+    },
+
+    // Images are inlined as data URLs, so there is nothing to upload or clean up
+    uploadAttachment: async (file) => ({ name: file.name, mimeType: file.type, ref: await readAsDataUrl(file) }),
+    releaseAttachment: async () => {},
+
+    streamChat: async function* (request: ChatRequest): AsyncGenerator<ChatStreamPart> {
+      const { signal, release } = scope.link(request.signal);
+      const { url, headers, body } = buildRequest(config, request);
+
+      try {
+        const response = await fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...headers },
+          body: JSON.stringify(body),
+          signal,
+        });
+
+        if (!response.ok || !response.body) {
+          throw await errorFromResponse(response);
+        }
+
+        for await (const event of abortable(readServerSentEvents(response.body), signal)) {
+          yield* parseDelta(config.flavor, event.data);
+        }
+      } finally {
+        release();
+      }
+    },
+
+    cancel: scope.cancel,
+  };
+};
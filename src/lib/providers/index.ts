@@ -0,0 +1,37 @@
+import { createHttpProvider } from './http';
+import { createMockProvider } from './mock';
+import { createPuterProvider } from './puter';
+import type { ChatProvider } from './types';
+
+export type { ChatProvider, ChatRequest, ChatStreamPart, ModelInfo, ProviderContentPart, ProviderMessage, TokenUsage, UploadedAttachment } from './types';
+export { createHttpProvider, createMockProvider, createPuterProvider };
+
+/**
+ * Builds the provider selected by the VITE_CHAT_* environment variables,
+ * falling back to Puter when nothing is configured.
+ */
+export const createProviderFromEnv = (env: ImportMetaEnv = import.meta.env): ChatProvider => {
+  const kind = (env.VITE_CHAT_PROVIDER || 'puter').toLowerCase();
+
+  switch (kind) {
+    case 'mock':
+      return createMockProvider();
+    case 'openai':
+    case 'anthropic':
+      if (!env.VITE_CHAT_BASE_URL) {
+        console.warn(`VITE_CHAT_PROVIDER is "${kind}" but VITE_CHAT_BASE_URL is not set; falling back to Puter.`);
+        return createPuterProvider({ defaultModel: env.VITE_CHAT_MODEL });
+      }
+      return createHttpProvider({
+        flavor: kind,
+        baseUrl: env.VITE_CHAT_BASE_URL,
+        apiKey: env.VITE_CHAT_API_KEY,
+        defaultModel: env.VITE_CHAT_MODEL,
+      });
+    case 'puter':
+      return createPuterProvider({ defaultModel: env.VITE_CHAT_MODEL });
+    default:
+      console.warn(`Unknown VITE_CHAT_PROVIDER "${kind}"; falling back to Puter.`);
+      return createPuterProvider({ defaultModel: env.VITE_CHAT_MODEL });
+  }
+};
@@ -0,0 +1,92 @@
+import { createAbortError } from '../abortable';
+import { createCancelScope } from './cancel-scope';
+import type { ChatProvider, ChatRequest, ChatStreamPart } from './types';
+import { estimateTextTokens } from '../tokens';
+
+export interface MockProviderConfig {
+  // Delay between streamed words, in milliseconds
+  tokenDelay?: number;
+}
+
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+// The reply depends only on the request, so the same conversation always streams the same text
+const composeReply = (request: ChatRequest) => {
+  const last = [...request.messages].reverse().find((message) => message.role === 'user');
+  const text = last?.content.map((part) => (part.type === 'text' ? part.text : '')).join(' ').trim() ?? '';
+  const attachments = last?.content.filter((part) => part.type === 'attachment').length ?? 0;
+  const turns = request.messages.filter((message) => message.role !== 'system').length;
+
+  return [
+    `Mock reply from ${request.model}${request.temperature !== undefined ? ` at temperature ${request.temperature}` : ''}.`,
+    `You said: "${text || '(no text)'}".`,
+    attachments > 0 ? `You attached ${attachments} file${attachments === 1 ? '' : 's'}.` : '',
+    `This conversation has ${turns} turn${turns === 1 ? '' : 's'} of history.`,
+  ].filter(Boolean).join(' ');
+};
+
+const composeReasoning = (request: ChatRequest) =>
+  `The user sent ${request.messages.length} message${request.messages.length === 1 ? '' : 's'}. ` +
+  'I will restate what they said and summarize the conversation length.';
+
+/**
+ * Offline provider that streams a deterministic reply, for development
+ * without network access.
+ */
+export const createMockProvider = (config: MockProviderConfig = {}): ChatProvider => {
+  const scope = createCancelScope();
+  const tokenDelay = config.tokenDelay ?? 30;
+
+  return {
+    id: 'mock',
+    label: 'Mock (offline)',
+    defaultModel: 'mock-model',
+    supportsReasoning: true,
+
+    listModels: async () => [
+      { id: 'mock-model', label: 'Mock model' },
+      { id: 'mock-model-large', label: 'Mock model (large)' },
+    ],
+
+    uploadAttachment: async (file) => ({ name: file.name, mimeType: file.type, ref: `mock://${file.name}` }),
+    releaseAttachment: async () => {},
+
+    streamChat: async function* (request: ChatRequest): AsyncGenerator<ChatStreamPart> {
+      const { signal, release } = scope.link(request.signal);
+      try {
+        await wait(tokenDelay * 5, signal);
+        if (request.reasoning) {
+          for (const word of composeReasoning(request).split(/(?<= )/)) {
+            if (signal.aborted) return;
+            yield { type: 'reasoning', text: word };
+            await wait(tokenDelay, signal).catch(() => {});
+          }
+        }
+        const reply = composeReply(request);
+        for (const word of reply.split(/(?<= )/)) {
+          if (signal.aborted) return;
+          yield { type: 'text', text: word };
+          await wait(tokenDelay, signal).catch(() => {});
+        }
+        // Reported like a real service would, so the stats path can be tried offline
+        const prompt = request.messages.flatMap((message) => message.content.map((part) => (part.type === 'text' ? part.text : '')));
+        yield { type: 'usage', usage: { inputTokens: estimateTextTokens(prompt.join('\n')), outputTokens: estimateTextTokens(reply) } };
+      } finally {
+        release();
+      }
+    },
+
+    cancel: scope.cancel,
+  };
+};
@@ -0,0 +1,135 @@
+import { abortable, raceAbort } from '../abortable';
+import { ChatError } from '../errors';
+import { createCancelScope } from './cancel-scope';
+import type { ChatProvider, ChatRequest, ChatStreamPart, ModelInfo, ProviderMessage } from './types';
+
+declare global {
+  interface Window { puter?: any; }
+}
+
+// helper to lazily obtain puter
+const getPuter = async (): Promise<any> => {
+  // prefer a global puter (CDN script)
+  if (typeof window !== 'undefined' && (window as any).puter) {
+    return (window as any).puter;
+  }
+
+  // otherwise try dynamic import (works if package is installed)
+  try {
+    const mod = await import('@puter/js');
+    // depending on package export style, it might be default or named
+    return (mod && (mod.default || mod));
+  } catch (err) {
+    console.warn('Failed to dynamically import @puter.js, and window.puter not found.', err);
+    throw err;
+  }
+};
+
+const requirePuter = async () => {
+  try {
+    return await getPuter();
+  } catch (err) {
+    console.error('Puter not available:', err);
+    throw new ChatError('script-missing', 'AI service is unavailable. Make sure puter is included or @puter/js is installed.', {
+      cause: err,
+    });
+  }
+};
+
+// Text-only turns go over as plain strings, multimodal ones as Puter content parts
+const toPuterMessage = (message: ProviderMessage) => {
+  if (message.content.every((part) => part.type === 'text')) {
+    return {
+      role: message.role,
+      content: message.content.map((part) => (part.type === 'text' ? part.text : '')).join('\n\n'),
+    };
+  }
+
+  return {
+    role: message.role,
+    content: message.content.map((part) =>
+      part.type === 'text'
+        ? { type: 'text', text: part.text }
+        : { type: 'file', puter_path: part.attachment.ref }
+    ),
+  };
+};
+
+// Used when the loaded Puter SDK cannot list its models
+const KNOWN_MODELS: ModelInfo[] = [
+  { id: 'claude-sonnet-4', label: 'Claude Sonnet 4' },
+  { id: 'claude-opus-4', label: 'Claude Opus 4' },
+  { id: 'claude-3-7-sonnet', label: 'Claude 3.7 Sonnet' },
+  { id: 'claude-3-5-sonnet', label: 'Claude 3.5 Sonnet' },
+];
+
+export interface PuterProviderConfig {
+  defaultModel?: string;
+}
+
+export const createPuterProvider = (config: PuterProviderConfig = {}): ChatProvider => {
+  const scope = createCancelScope();
+
+  return {
+    id: 'puter',
+    label: 'Puter',
+    defaultModel: config.defaultModel ?? 'claude-sonnet-4',
+    supportsReasoning: false,
+
+    prepare: async () => {
+      await getPuter();
+    },
+
+    listModels: async () => {
+      const puter = await requirePuter();
+      if (typeof puter.ai?.listModels !== 'function') return KNOWN_MODELS;
+      try {
+        const models: any[] = await puter.ai.listModels();
+        const listed = models
+          .map((model) => (typeof model === 'string' ? { id: model } : { id: model?.id, label: model?.name }))
+          .filter((model): model is ModelInfo => typeof model.id === 'string');
+        return listed.length > 0 ? listed : KNOWN_MODELS;
+      } catch (error) {
+        console.warn('Failed to list Puter models:', error);
+        return KNOWN_MODELS;
+      }
+    },
+
+    uploadAttachment: async (file) => {
+      const puter = await requirePuter();
+      // Upload files to Puter's file system temporarily
+      const fileName = `temp_image_${Date.now()}_${file.name}`;
+      const uploadedFile = await puter.fs.write(fileName, file);
+      return { name: file.name, mimeType: file.type, ref: uploadedFile.path };
+    },
+
+    releaseAttachment: async (attachment) => {
+      const puter = await requirePuter();
+      await puter.fs.delete(attachment.ref);
+    },
+
+    streamChat: async function* (request: ChatRequest): AsyncGenerator<ChatStreamPart> {
+      const puter = await requirePuter();
+      const { signal, release } = scope.link(request.signal);
+
+      try {
+        const response = await raceAbort<AsyncIterable<any>>(puter.ai.chat(request.messages.map(toPuterMessage), {
+          model: request.model,
+          stream: true,
+          ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+          ...(request.maxTokens !== undefined ? { max_tokens: request.maxTokens } : {})
+        }), signal);
+
+        for await (const part of abortable(response, signal)) {
+          // Some Puter models stream their reasoning separately from the answer
+          if (part?.reasoning) yield { type: 'reasoning', text: part.reasoning };
+          if (part?.text) yield { type: 'text', text: part.text };
+        }
+      } finally {
+        release();
+      }
+    },
+
+    cancel: scope.cancel,
+  };
+};
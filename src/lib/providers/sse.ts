@@ -0,0 +1,57 @@
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Parses a `text/event-stream` body into events. Comment lines and unknown
+ * fields are ignored; multi-line `data:` fields are joined with newlines.
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event = 'message';
+  let data: string[] = [];
+  let finished = false;
+
+  const dispatch = (): ServerSentEvent | null => {
+    const result = data.length > 0 ? { event, data: data.join('\n') } : null;
+    event = 'message';
+    data = [];
+    return result;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      const lines = buffer.split(/\r\n|\r|\n/);
+      // Keep a trailing partial line until more data arrives
+      buffer = done ? '' : lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (line === '') {
+          const dispatched = dispatch();
+          if (dispatched) yield dispatched;
+        } else if (line.startsWith('event:')) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          data.push(line.slice(5).replace(/^ /, ''));
+        }
+      }
+
+      if (done) {
+        finished = true;
+        const dispatched = dispatch();
+        if (dispatched) yield dispatched;
+        return;
+      }
+    }
+  } finally {
+    // Stop the download if the consumer bailed out early
+    if (!finished) reader.cancel().catch(() => {});
+    reader.releaseLock();
+  }
+}
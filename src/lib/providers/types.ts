@@ -0,0 +1,62 @@
+import type { ChatRole } from '../history';
+
+// A file made available to the model, e.g. uploaded to Puter or inlined as a data URL
+export interface UploadedAttachment {
+  name: string;
+  mimeType: string;
+  ref: string;
+}
+
+export type ProviderContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'attachment'; attachment: UploadedAttachment };
+
+export interface ProviderMessage {
+  role: ChatRole;
+  content: ProviderContentPart[];
+}
+
+export interface ChatRequest {
+  model: string;
+  messages: ProviderMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  // Ask for extended reasoning; only honoured when the provider supportsReasoning
+  reasoning?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface ModelInfo {
+  id: string;
+  label?: string;
+  // Context window in tokens, when the service lists it
+  contextWindow?: number;
+}
+
+// Token counts as reported by the service; later reports replace earlier ones
+export interface TokenUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+export type ChatStreamPart =
+  // Reasoning parts carry the model's thinking and are kept apart from the answer
+  | { type: 'text' | 'reasoning'; text: string }
+  | { type: 'usage'; usage: TokenUsage };
+
+export interface ChatProvider {
+  readonly id: string;
+  readonly label: string;
+  readonly defaultModel: string;
+  // Whether the provider can request extended reasoning natively
+  readonly supportsReasoning: boolean;
+  // Optional warm-up so the first request is faster
+  prepare?: () => Promise<void>;
+  listModels: () => Promise<ModelInfo[]>;
+  uploadAttachment: (file: File) => Promise<UploadedAttachment>;
+  // Frees whatever uploadAttachment created; called once the request has finished
+  releaseAttachment: (attachment: UploadedAttachment) => Promise<void>;
+  streamChat: (request: ChatRequest) => AsyncIterable<ChatStreamPart>;
+  // Aborts every stream this provider currently has in flight
+  cancel: () => void;
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { createThinkingTagParser } from './reasoning';
+import type { ChatStreamPart } from './providers';
+
+// Feeds the chunks through a parser and joins consecutive parts of the same type
+const parse = (chunks: string[]) => {
+  const parser = createThinkingTagParser();
+  const parts = [...chunks.flatMap((chunk) => parser.push(chunk)), ...parser.flush()];
+  return parts.reduce<ChatStreamPart[]>((merged, part) => {
+    const last = merged[merged.length - 1];
+    if (last && 'text' in last && 'text' in part && last.type === part.type) last.text += part.text;
+    else merged.push({ ...part });
+    return merged;
+  }, []);
+};
+
+describe('createThinkingTagParser', () => {
+  it('splits reasoning from the answer', () => {
+    expect(parse(['<thinking>Let me see.</thinking>The answer is 4.'])).toEqual([
+      { type: 'reasoning', text: 'Let me see.' },
+      { type: 'text', text: 'The answer is 4.' },
+    ]);
+  });
+
+  it('handles tags split across chunks', () => {
+    expect(parse(['<thin', 'king>Hmm', '.</thi', 'nking>', 'Done'])).toEqual([
+      { type: 'reasoning', text: 'Hmm.' },
+      { type: 'text', text: 'Done' },
+    ]);
+  });
+
+  it('holds back a possible tag start until the next chunk', () => {
+    const parser = createThinkingTagParser();
+    expect(parser.push('a <')).toEqual([{ type: 'text', text: 'a ' }]);
+    expect(parser.push('b')).toEqual([{ type: 'text', text: '<b' }]);
+  });
+
+  it('releases held-back text when the stream ends', () => {
+    const parser = createThinkingTagParser();
+    parser.push('2 <');
+    expect(parser.flush()).toEqual([{ type: 'text', text: '<' }]);
+  });
+
+  it('passes plain answers through', () => {
+    expect(parse(['Just ', 'text'])).toEqual([{ type: 'text', text: 'Just text' }]);
+  });
+});
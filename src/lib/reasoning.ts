@@ -0,0 +1,48 @@
+import type { ChatStreamPart } from './providers';
+import { partialTagLength } from './stream-tags';
+
+const OPEN_TAG = '<thinking>';
+const CLOSE_TAG = '</thinking>';
+
+// Sent to providers without native extended reasoning so the model's thoughts can be separated
+export const THINK_INSTRUCTION =
+  'Before answering, reason through the problem step by step inside <thinking></thinking> tags. ' +
+  'After the closing tag, write only the final answer for the user.';
+
+/**
+ * Splits streamed text into reasoning and answer parts based on
+ * <thinking>…</thinking> tags, even when a tag is split across chunks.
+ */
+export const createThinkingTagParser = () => {
+  let buffer = '';
+  let inside = false;
+
+  const drain = (final: boolean): ChatStreamPart[] => {
+    const parts: ChatStreamPart[] = [];
+    while (buffer) {
+      const tag = inside ? CLOSE_TAG : OPEN_TAG;
+      const index = buffer.indexOf(tag);
+      if (index !== -1) {
+        if (index > 0) parts.push({ type: inside ? 'reasoning' : 'text', text: buffer.slice(0, index) });
+        buffer = buffer.slice(index + tag.length);
+        inside = !inside;
+        continue;
+      }
+      // Hold back what might be the beginning of a tag until the next chunk arrives
+      const held = final ? 0 : partialTagLength(buffer, tag);
+      const ready = buffer.slice(0, buffer.length - held);
+      if (ready) parts.push({ type: inside ? 'reasoning' : 'text', text: ready });
+      buffer = buffer.slice(ready.length);
+      break;
+    }
+    return parts;
+  };
+
+  return {
+    push: (chunk: string) => {
+      buffer += chunk;
+      return drain(false);
+    },
+    flush: () => drain(true),
+  };
+};
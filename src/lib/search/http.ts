@@ -0,0 +1,35 @@
+import type { SearchProvider, SearchResult } from './types';
+
+export interface HttpSearchProviderConfig {
+  // Base URL of a SearxNG-compatible instance exposing /search?format=json
+  baseUrl: string;
+}
+
+/**
+ * Queries a SearxNG-compatible JSON search endpoint, e.g. a self-hosted
+ * instance behind the team gateway.
+ */
+export const createHttpSearchProvider = (config: HttpSearchProviderConfig): SearchProvider => ({
+  id: 'searxng',
+  label: 'Web search',
+  search: async (query, { limit = 5, signal } = {}) => {
+    const url = new URL(`${config.baseUrl.replace(/\/+$/, '')}/search`);
+    url.searchParams.set('q', query);
+    url.searchParams.set('format', 'json');
+
+    const response = await fetch(url, { signal });
+    if (!response.ok) {
+      throw new Error(`Search failed: ${response.status} ${response.statusText}`);
+    }
+
+    const payload = await response.json();
+    const results: SearchResult[] = (Array.isArray(payload?.results) ? payload.results : [])
+      .filter((result: any) => typeof result?.url === 'string')
+      .map((result: any) => ({
+        title: String(result.title ?? result.url),
+        url: result.url,
+        snippet: String(result.content ?? ''),
+      }));
+    return results.slice(0, limit);
+  },
+});
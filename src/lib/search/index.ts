@@ -0,0 +1,31 @@
+import { createHttpSearchProvider } from './http';
+import { createLocalSearchProvider } from './local';
+import type { SearchProvider, SearchResult } from './types';
+
+export type { SearchOptions, SearchProvider, SearchResult } from './types';
+export { createHttpSearchProvider, createLocalSearchProvider };
+
+export const createSearchProviderFromEnv = (env: ImportMetaEnv = import.meta.env): SearchProvider =>
+  env.VITE_SEARCH_URL ? createHttpSearchProvider({ baseUrl: env.VITE_SEARCH_URL }) : createLocalSearchProvider();
+
+/**
+ * Appends numbered search results to the user's question so the model can
+ * ground its answer and cite sources as [1], [2], ...
+ */
+export const groundPrompt = (question: string, results: SearchResult[]) => {
+  if (results.length === 0) return question;
+
+  const sources = results
+    .map((result, index) => `[${index + 1}] ${result.title}\n${result.url}\n${result.snippet}`)
+    .join('\n\n');
+
+  return [
+    question,
+    '',
+    '<search_results>',
+    sources,
+    '</search_results>',
+    '',
+    'Answer using the search results above where they are relevant. Cite them inline by number, e.g. [1] or [2][3]. If the results do not cover the question, say so.',
+  ].join('\n');
+};
@@ -0,0 +1,74 @@
+import { createAbortError } from '../abortable';
+import type { SearchProvider, SearchResult } from './types';
+
+export interface SearchDocument extends SearchResult {
+  // Extra text that is searched but not shown in the snippet
+  body?: string;
+}
+
+const tokenize = (text: string) => text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+// Built-in corpus so Search mode can be exercised without network access
+const DEVELOPMENT_DOCUMENTS: SearchDocument[] = [
+  {
+    title: 'Puter.js AI documentation',
+    url: 'https://docs.puter.com/AI/chat/',
+    snippet: 'puter.ai.chat() sends a prompt or a list of messages to a model and can stream the reply part by part.',
+    body: 'puter ai chat stream model claude messages images files',
+  },
+  {
+    title: 'Vite: Env Variables and Modes',
+    url: 'https://vitejs.dev/guide/env-and-mode',
+    snippet: 'Vite exposes env variables prefixed with VITE_ on import.meta.env to client code.',
+    body: 'vite env environment variables import.meta.env mode dotenv configuration',
+  },
+  {
+    title: 'React: useEffect',
+    url: 'https://react.dev/reference/react/useEffect',
+    snippet: 'useEffect lets you synchronize a component with an external system, with cleanup when dependencies change.',
+    body: 'react hooks effect cleanup dependencies subscribe',
+  },
+  {
+    title: 'MDN: IndexedDB API',
+    url: 'https://developer.mozilla.org/en-US/docs/Web/API/IndexedDB_API',
+    snippet: 'IndexedDB is a low-level API for client-side storage of significant amounts of structured data, including files and blobs.',
+    body: 'indexeddb storage database browser offline blobs transactions',
+  },
+  {
+    title: 'Tailwind CSS: Dark mode',
+    url: 'https://tailwindcss.com/docs/dark-mode',
+    snippet: 'Tailwind can style your site differently when dark mode is enabled using the dark: variant.',
+    body: 'tailwind css dark mode theme colors variant',
+  },
+];
+
+/**
+ * Offline stand-in that ranks a fixed set of documents by term overlap.
+ * Useful for developing Search mode without a search backend.
+ */
+export const createLocalSearchProvider = (documents: SearchDocument[] = DEVELOPMENT_DOCUMENTS): SearchProvider => {
+  const indexed = documents.map((document) => ({
+    document,
+    terms: new Set(tokenize(`${document.title} ${document.snippet} ${document.body ?? ''}`)),
+  }));
+
+  return {
+    id: 'local',
+    label: 'Local (offline)',
+    search: async (query, { limit = 5, signal } = {}) => {
+      if (signal?.aborted) throw createAbortError();
+      const queryTerms = [...new Set(tokenize(query))];
+      if (queryTerms.length === 0) return [];
+
+      return indexed
+        .map(({ document, terms }) => ({
+          document,
+          score: queryTerms.filter((term) => terms.has(term)).length,
+        }))
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit)
+        .map(({ document: { title, url, snippet } }) => ({ title, url, snippet }));
+    },
+  };
+};
@@ -0,0 +1,16 @@
+export interface SearchResult {
+  title: string;
+  url: string;
+  snippet: string;
+}
+
+export interface SearchOptions {
+  limit?: number;
+  signal?: AbortSignal;
+}
+
+export interface SearchProvider {
+  readonly id: string;
+  readonly label: string;
+  search: (query: string, options?: SearchOptions) => Promise<SearchResult[]>;
+}
@@ -0,0 +1,102 @@
+export type ShortcutId =
+  | 'openPalette'
+  | 'showShortcuts'
+  | 'newConversation'
+  | 'focusInput'
+  | 'toggleSearch'
+  | 'toggleThink'
+  | 'toggleCanvas'
+  | 'attachFile'
+  | 'copyLastReply'
+  | 'stopGeneration';
+
+// Labels live in the message catalog under `shortcut.<id>`
+export interface ShortcutDefinition {
+  id: ShortcutId;
+  // Written as in `keysFromEvent`, e.g. "Mod+K"; "Mod" is Cmd on macOS and Ctrl elsewhere
+  defaultKeys: string;
+}
+
+// Every rebindable shortcut, in cheat-sheet order
+export const SHORTCUTS: ShortcutDefinition[] = [
+  { id: 'openPalette', defaultKeys: 'Mod+K' },
+  { id: 'showShortcuts', defaultKeys: 'Mod+/' },
+  { id: 'newConversation', defaultKeys: 'Mod+Shift+O' },
+  { id: 'focusInput', defaultKeys: 'Shift+Escape' },
+  { id: 'toggleSearch', defaultKeys: 'Alt+S' },
+  { id: 'toggleThink', defaultKeys: 'Alt+T' },
+  { id: 'toggleCanvas', defaultKeys: 'Alt+C' },
+  { id: 'attachFile', defaultKeys: 'Alt+U' },
+  { id: 'copyLastReply', defaultKeys: 'Mod+Shift+;' },
+  { id: 'stopGeneration', defaultKeys: 'Mod+.' },
+];
+
+// An empty string leaves the action without a shortcut
+export type ShortcutBindings = Record<ShortcutId, string>;
+
+export const DEFAULT_BINDINGS = Object.fromEntries(
+  SHORTCUTS.map((shortcut) => [shortcut.id, shortcut.defaultKeys])
+) as ShortcutBindings;
+
+const MODIFIER_KEYS = ['Control', 'Meta', 'Alt', 'Shift', 'AltGraph', 'CapsLock'];
+
+// Shift changes punctuation, e.g. "/" to "?"; these keys are recorded by their physical key
+const PUNCTUATION_CODES: Record<string, string> = {
+  Slash: '/',
+  Period: '.',
+  Comma: ',',
+  Semicolon: ';',
+  Quote: "'",
+  BracketLeft: '[',
+  BracketRight: ']',
+  Backslash: '\\',
+  Minus: '-',
+  Equal: '=',
+  Backquote: '`',
+};
+
+export const isMac = () => typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+/**
+ * The pressed combination as "Mod+Alt+Shift+Key", or null while only
+ * modifiers are held. Letters and digits come from the physical key, so
+ * Alt+S stays "Alt+S" on layouts where Alt changes the character.
+ */
+export const keysFromEvent = (event: Pick<KeyboardEvent, 'key' | 'code' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>) => {
+  if (MODIFIER_KEYS.includes(event.key)) return null;
+  const letter = /^Key([A-Z])$/.exec(event.code)?.[1] ?? /^Digit(\d)$/.exec(event.code)?.[1];
+  const punctuation = event.shiftKey ? PUNCTUATION_CODES[event.code] : undefined;
+  const key = letter ?? punctuation ?? (event.key.length === 1 ? event.key.toUpperCase() : event.key);
+  const mod = isMac() ? event.metaKey : event.ctrlKey;
+  return [mod && 'Mod', event.altKey && 'Alt', event.shiftKey && 'Shift', key].filter(Boolean).join('+');
+};
+
+// Without Mod or Alt, a printable key would also type into the focused field
+export const typesText = (keys: string) => {
+  const parts = keys.split('+');
+  const key = parts[parts.length - 1] || '+';
+  return !parts.includes('Mod') && !parts.includes('Alt') && key.length === 1;
+};
+
+const MAC_SYMBOLS: Record<string, string> = { Mod: '⌘', Alt: '⌥', Shift: '⇧' };
+
+// Keys as shown to the user, e.g. ["Ctrl", "K"] or ["⌘", "K"]
+export const formatKeys = (keys: string) => {
+  if (!keys) return [];
+  const mac = isMac();
+  return keys.split('+').map((part) => (mac ? MAC_SYMBOLS[part] : part === 'Mod' ? 'Ctrl' : undefined) ?? part);
+};
+
+export const shortcutFor = (bindings: ShortcutBindings, keys: string) =>
+  SHORTCUTS.find((shortcut) => bindings[shortcut.id] === keys)?.id;
+
+// Stored bindings are merged over the defaults, so new shortcuts get their default key
+export const parseBindings = (value: unknown): ShortcutBindings => {
+  const bindings = { ...DEFAULT_BINDINGS };
+  if (typeof value !== 'object' || value === null) return bindings;
+  for (const { id } of SHORTCUTS) {
+    const keys = (value as Record<string, unknown>)[id];
+    if (typeof keys === 'string') bindings[id] = keys;
+  }
+  return bindings;
+};
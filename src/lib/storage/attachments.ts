@@ -0,0 +1,75 @@
+import type { MessageAttachment } from '../../types/chat';
+import { STORES, withStore } from './db';
+
+interface StoredAttachment {
+  hash: string;
+  blob: Blob;
+}
+
+// Files saved or loaded this session, keyed by `${hash}/${name}`; also keeps them safe from pruning
+const loaded = new Map<string, File>();
+
+const cacheKey = (attachment: Pick<MessageAttachment, 'hash' | 'name'>) => `${attachment.hash}/${attachment.name}`;
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+// 64-bit FNV-1a, for insecure contexts (plain-HTTP self hosting) where crypto.subtle is missing
+const fnv1a = (bytes: Uint8Array) => {
+  let hash = 0xcbf29ce484222325n;
+  for (const byte of bytes) {
+    hash ^= BigInt(byte);
+    hash = (hash * 0x100000001b3n) & 0xffffffffffffffffn;
+  }
+  return `fnv1a-${hash.toString(16).padStart(16, '0')}`;
+};
+
+export const hashBlob = async (blob: Blob) => {
+  const buffer = await blob.arrayBuffer();
+  if (typeof crypto === 'undefined' || !crypto.subtle) return fnv1a(new Uint8Array(buffer));
+  return toHex(await crypto.subtle.digest('SHA-256', buffer));
+};
+
+/**
+ * Stores a file's bytes under its content hash and returns the reference kept
+ * on the message. Identical files are stored once.
+ */
+export const saveAttachment = async (file: File): Promise<MessageAttachment> => {
+  const attachment: MessageAttachment = { hash: await hashBlob(file), name: file.name, type: file.type, size: file.size };
+  loaded.set(cacheKey(attachment), file);
+  try {
+    await withStore(STORES.attachments, 'readwrite', (store) => store.put({ hash: attachment.hash, blob: file }));
+  } catch (error) {
+    // The file stays usable for this session; it just won't survive a reload
+    console.warn('Failed to store attachment:', file.name, error);
+  }
+  return attachment;
+};
+
+export const loadAttachment = async (attachment: MessageAttachment): Promise<File> => {
+  const key = cacheKey(attachment);
+  const cached = loaded.get(key);
+  if (cached) return cached;
+
+  const stored = await withStore<StoredAttachment | undefined>(STORES.attachments, 'readonly', (store) =>
+    store.get(attachment.hash)
+  );
+  if (!stored) throw new Error(`${attachment.name} is no longer available.`);
+
+  const file = new File([stored.blob], attachment.name, { type: attachment.type });
+  loaded.set(key, file);
+  return file;
+};
+
+// Deletes stored blobs that no saved message refers to anymore
+export const pruneAttachments = async (referenced: Set<string>) => {
+  const inUse = new Set(referenced);
+  loaded.forEach((_file, key) => inUse.add(key.slice(0, key.indexOf('/'))));
+
+  const hashes = await withStore<IDBValidKey[]>(STORES.attachments, 'readonly', (store) => store.getAllKeys());
+  const orphaned = (hashes ?? []).filter((hash) => !inUse.has(String(hash)));
+  if (orphaned.length === 0) return;
+  await withStore(STORES.attachments, 'readwrite', (store) => {
+    orphaned.forEach((hash) => store.delete(hash));
+  });
+};
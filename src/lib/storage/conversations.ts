@@ -0,0 +1,136 @@
+import type { Conversation, Message } from '../../types/chat';
+import { STORES, withStore } from './db';
+import { pruneAttachments, saveAttachment } from './attachments';
+import { activePath, normalizeTree } from '../tree';
+
+// Key the legacy magic.html page used for its chats
+const LEGACY_STORAGE_KEY = 'allChats';
+const LEGACY_MIGRATED_KEY = 'endlessclaude:legacyChatsMigrated';
+
+interface LegacyMessage {
+  content?: unknown;
+  timestamp?: unknown;
+  isUser?: unknown;
+}
+
+interface LegacyChat {
+  id?: unknown;
+  messages?: unknown;
+}
+
+const TITLE_LENGTH = 30;
+
+// `untitled` is for conversations with nothing said yet; the app passes its translation, exports keep English
+export const conversationTitle = (conversation: Conversation, untitled = 'New Chat') => {
+  if (conversation.title) return conversation.title;
+  const firstMessage = activePath(conversation).find((message) => message.content.trim())?.content.trim();
+  if (!firstMessage) return untitled;
+  return firstMessage.length > TITLE_LENGTH ? `${firstMessage.substring(0, TITLE_LENGTH)}...` : firstMessage;
+};
+
+export const createConversation = (): Conversation => {
+  const now = new Date();
+  return { id: Date.now().toString(), createdAt: now, updatedAt: now, messages: [] };
+};
+
+// Messages saved before attachments moved to their own store kept the raw File objects
+type StoredMessage = Message & { files?: File[] };
+
+const upgradeAttachments = async (conversation: Conversation) => {
+  const messages = conversation.messages as StoredMessage[];
+  if (!messages.some((message) => message.files)) return conversation;
+
+  const upgraded: Conversation = {
+    ...conversation,
+    messages: await Promise.all(messages.map(async ({ files, ...message }) => (
+      files ? { ...message, attachments: await Promise.all(files.map(saveAttachment)) } : message
+    ))),
+  };
+  await saveConversation(upgraded);
+  return upgraded;
+};
+
+export const listConversations = async (): Promise<Conversation[]> => {
+  const stored = await withStore<Conversation[]>(STORES.conversations, 'readonly', (store) => store.getAll());
+  const conversations = (await Promise.all((stored ?? []).map(upgradeAttachments)))
+    .map((conversation) => ({ ...conversation, messages: normalizeTree(conversation.messages) }));
+  return conversations.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+};
+
+export const saveConversation = async (conversation: Conversation) => {
+  // Never persist a reply that is still streaming as if it were finished
+  const messages = conversation.messages.map((message) =>
+    message.status === 'streaming' ? { ...message, status: 'stopped' as const } : message
+  );
+  await withStore(STORES.conversations, 'readwrite', (store) => store.put({ ...conversation, messages }));
+};
+
+export const deleteConversation = async (id: string) => {
+  await withStore(STORES.conversations, 'readwrite', (store) => store.delete(id));
+
+  const remaining = await withStore<Conversation[]>(STORES.conversations, 'readonly', (store) => store.getAll());
+  const referenced = new Set(
+    (remaining ?? []).flatMap((conversation) =>
+      conversation.messages.flatMap((message) => message.attachments?.map((attachment) => attachment.hash) ?? [])
+    )
+  );
+  try {
+    await pruneAttachments(referenced);
+  } catch (error) {
+    console.warn('Failed to clean up attachments:', error);
+  }
+};
+
+const fromLegacyChat = (chat: LegacyChat, index: number): Conversation | null => {
+  if (!Array.isArray(chat.messages) || chat.messages.length === 0) return null;
+
+  // Legacy ids were Date.now() strings; timestamps only kept the time of day
+  const created = new Date(Number(chat.id));
+  const createdAt = Number.isNaN(created.getTime()) ? new Date() : created;
+
+  const messages: Message[] = (chat.messages as LegacyMessage[])
+    .filter((message) => typeof message?.content === 'string')
+    .map((message, position) => ({
+      id: `legacy-${String(chat.id ?? index)}-${position}`,
+      content: message.content as string,
+      sender: message.isUser ? 'user' : 'ai',
+      timestamp: createdAt,
+      status: message.isUser ? undefined : 'complete',
+    }));
+  if (messages.length === 0) return null;
+
+  return {
+    id: `legacy-${String(chat.id ?? index)}`,
+    createdAt,
+    updatedAt: createdAt,
+    messages,
+  };
+};
+
+/**
+ * Imports chats saved by the old magic.html page into IndexedDB. Runs once;
+ * the original localStorage data is left in place.
+ */
+export const migrateLegacyChats = async () => {
+  if (typeof localStorage === 'undefined' || localStorage.getItem(LEGACY_MIGRATED_KEY)) return;
+
+  let chats: LegacyChat[] = [];
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(LEGACY_STORAGE_KEY) ?? '[]');
+    if (Array.isArray(parsed)) chats = parsed;
+  } catch (error) {
+    console.warn('Ignoring unreadable legacy chats:', error);
+  }
+
+  try {
+    for (const conversation of chats.map(fromLegacyChat)) {
+      if (conversation) await saveConversation(conversation);
+    }
+  } catch (error) {
+    // Leave the marker unset so the import is retried next time
+    console.warn('Failed to migrate legacy chats:', error);
+    return;
+  }
+
+  localStorage.setItem(LEGACY_MIGRATED_KEY, new Date().toISOString());
+};
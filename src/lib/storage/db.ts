@@ -0,0 +1,59 @@
+const DB_NAME = 'endless-claude';
+const DB_VERSION = 2;
+
+export const STORES = {
+  conversations: 'conversations',
+  attachments: 'attachments',
+} as const;
+
+export type StoreName = (typeof STORES)[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser.'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORES.conversations)) {
+        db.createObjectStore(STORES.conversations, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORES.attachments)) {
+        db.createObjectStore(STORES.attachments, { keyPath: 'hash' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const getDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = openDatabase().catch((error) => {
+      // Allow a later call to retry instead of caching the failure
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+};
+
+// Runs `fn` inside a transaction and resolves once the transaction commits
+export const withStore = async <T,>(
+  name: StoreName,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await getDatabase();
+  return new Promise<T | undefined>((resolve, reject) => {
+    const transaction = db.transaction(name, mode);
+    const request = fn(transaction.objectStore(name));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
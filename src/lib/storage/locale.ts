@@ -0,0 +1,22 @@
+import { isLocale, type Locale } from '../i18n';
+
+const LOCALE_KEY = 'endlessclaude:locale';
+
+// The chosen language, or null to follow the browser's
+export const loadLocale = (): Locale | null => {
+  if (typeof localStorage === 'undefined') return null;
+  const stored = localStorage.getItem(LOCALE_KEY);
+  if (!stored) return null;
+  if (isLocale(stored)) return stored;
+  console.warn('Ignoring unknown locale:', stored);
+  return null;
+};
+
+export const saveLocale = (locale: Locale | null) => {
+  try {
+    if (locale) localStorage.setItem(LOCALE_KEY, locale);
+    else localStorage.removeItem(LOCALE_KEY);
+  } catch (error) {
+    console.error('Failed to save locale:', error);
+  }
+};
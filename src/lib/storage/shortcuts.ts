@@ -0,0 +1,23 @@
+import { DEFAULT_BINDINGS, parseBindings, type ShortcutBindings } from '../shortcuts';
+
+const SHORTCUTS_KEY = 'endlessclaude:shortcuts';
+
+export const loadShortcuts = (): ShortcutBindings => {
+  if (typeof localStorage === 'undefined') return DEFAULT_BINDINGS;
+  const stored = localStorage.getItem(SHORTCUTS_KEY);
+  if (!stored) return DEFAULT_BINDINGS;
+  try {
+    return parseBindings(JSON.parse(stored));
+  } catch (error) {
+    console.warn('Ignoring unreadable keyboard shortcuts:', error);
+    return DEFAULT_BINDINGS;
+  }
+};
+
+export const saveShortcuts = (bindings: ShortcutBindings) => {
+  try {
+    localStorage.setItem(SHORTCUTS_KEY, JSON.stringify(bindings));
+  } catch (error) {
+    console.error('Failed to save keyboard shortcuts:', error);
+  }
+};
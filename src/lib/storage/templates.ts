@@ -0,0 +1,24 @@
+import { DEFAULT_TEMPLATES, exportTemplatesJson, parseTemplateLibrary, type PromptTemplate } from '../templates';
+
+const TEMPLATES_KEY = 'endlessclaude:promptTemplates';
+
+// Stored in the same format as a shared library file; the starter set is used until the first change
+export const loadTemplates = (): PromptTemplate[] => {
+  if (typeof localStorage === 'undefined') return DEFAULT_TEMPLATES;
+  const stored = localStorage.getItem(TEMPLATES_KEY);
+  if (!stored) return DEFAULT_TEMPLATES;
+  try {
+    return parseTemplateLibrary(stored);
+  } catch (error) {
+    console.warn('Ignoring unreadable prompt templates:', error);
+    return DEFAULT_TEMPLATES;
+  }
+};
+
+export const saveTemplates = (templates: PromptTemplate[]) => {
+  try {
+    localStorage.setItem(TEMPLATES_KEY, exportTemplatesJson(templates));
+  } catch (error) {
+    console.error('Failed to save prompt templates:', error);
+  }
+};
@@ -0,0 +1,23 @@
+import { DEFAULT_THEME, parseThemePreference, type ThemePreference } from '../theme';
+
+const THEME_KEY = 'endlessclaude:theme';
+
+export const loadTheme = (): ThemePreference => {
+  if (typeof localStorage === 'undefined') return DEFAULT_THEME;
+  const stored = localStorage.getItem(THEME_KEY);
+  if (!stored) return DEFAULT_THEME;
+  try {
+    return parseThemePreference(JSON.parse(stored));
+  } catch (error) {
+    console.warn('Ignoring unreadable theme:', error);
+    return DEFAULT_THEME;
+  }
+};
+
+export const saveTheme = (preference: ThemePreference) => {
+  try {
+    localStorage.setItem(THEME_KEY, JSON.stringify(preference));
+  } catch (error) {
+    console.error('Failed to save theme:', error);
+  }
+};
@@ -0,0 +1,11 @@
+/**
+ * Length of the longest suffix of `text` that could be the start of `tag`.
+ * Streaming parsers hold that much back until the next chunk shows whether
+ * it really is the tag.
+ */
+export const partialTagLength = (text: string, tag: string) => {
+  for (let length = Math.min(tag.length - 1, text.length); length > 0; length--) {
+    if (tag.startsWith(text.slice(-length))) return length;
+  }
+  return 0;
+};
@@ -0,0 +1,122 @@
+import { LocalizedError } from './i18n';
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  // Text with {{variable}} placeholders
+  body: string;
+}
+
+// Filled in from the editor state rather than asked for by name
+export const BUILTIN_VARIABLES = ['selection', 'clipboard'] as const;
+export type BuiltinVariable = (typeof BUILTIN_VARIABLES)[number];
+
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z][\w-]*)\s*\}\}/g;
+
+export const isBuiltinVariable = (name: string): name is BuiltinVariable =>
+  (BUILTIN_VARIABLES as readonly string[]).includes(name);
+
+// Variable names in order of first use
+export const templateVariables = (body: string) =>
+  Array.from(new Set(Array.from(body.matchAll(VARIABLE_PATTERN), (match) => match[1])));
+
+export const fillTemplate = (body: string, values: Record<string, string>) =>
+  body.replace(VARIABLE_PATTERN, (_match, name: string) => values[name] ?? '');
+
+export const DEFAULT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'default-review',
+    name: 'Code review',
+    description: 'Look for bugs, readability and performance issues',
+    body: 'Review the following code for bugs, readability and performance. Suggest concrete changes and explain why.\n\n{{selection}}',
+  },
+  {
+    id: 'default-translate',
+    name: 'Translate',
+    description: 'Translate text, keeping its formatting',
+    body: 'Translate the following text into {{language}}. Keep the formatting and tone.\n\n{{selection}}',
+  },
+  {
+    id: 'default-summarize',
+    name: 'Summarize',
+    description: 'Summarize the clipboard as bullet points',
+    body: 'Summarize the following in {{count}} bullet points:\n\n{{clipboard}}',
+  },
+];
+
+// --- Import and export ----------------------------------------------------
+
+export const TEMPLATE_EXPORT_FORMAT = 'endless-claude/prompt-templates';
+export const TEMPLATE_EXPORT_VERSION = 1;
+
+export const exportTemplatesJson = (templates: PromptTemplate[]) =>
+  JSON.stringify(
+    { format: TEMPLATE_EXPORT_FORMAT, version: TEMPLATE_EXPORT_VERSION, exportedAt: new Date(), templates },
+    null,
+    2
+  );
+
+const fail = (path: string, expected: 'object' | 'string' | 'array'): never => {
+  throw new LocalizedError({ key: `import.field.${expected}`, params: { path } });
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const string = (value: unknown, path: string) => (typeof value === 'string' ? value : fail(path, 'string'));
+
+const parseTemplate = (value: unknown, path: string): PromptTemplate => {
+  const template = isRecord(value) ? value : fail(path, 'object');
+  return {
+    id: string(template.id, `${path}.id`),
+    name: string(template.name, `${path}.name`),
+    description: template.description === undefined ? undefined : string(template.description, `${path}.description`),
+    body: string(template.body, `${path}.body`),
+  };
+};
+
+/**
+ * Parses a shared template library. Throws a LocalizedError naming the first
+ * invalid field.
+ */
+export const parseTemplateLibrary = (text: string): PromptTemplate[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new LocalizedError({ key: 'import.notJson' });
+  }
+  const root = isRecord(parsed) ? parsed : fail('file', 'object');
+  if (root.format !== TEMPLATE_EXPORT_FORMAT) throw new LocalizedError({ key: 'import.notTemplates' });
+  if (typeof root.version !== 'number' || root.version > TEMPLATE_EXPORT_VERSION) {
+    throw new LocalizedError({ key: 'import.templatesVersion', params: { version: String(root.version) } });
+  }
+  if (!Array.isArray(root.templates)) fail('templates', 'array');
+  return (root.templates as unknown[]).map((template, index) => parseTemplate(template, `templates[${index}]`));
+};
+
+export interface TemplateMergeResult {
+  templates: PromptTemplate[];
+  added: number;
+  // Templates already in the library with the same name and text
+  skipped: number;
+}
+
+// Imported templates never replace existing ones; clashing ids get a new id
+export const mergeTemplates = (existing: PromptTemplate[], incoming: PromptTemplate[]): TemplateMergeResult => {
+  const merged = [...existing];
+  let added = 0;
+  let skipped = 0;
+  for (const template of incoming) {
+    if (merged.some((item) => item.name === template.name && item.body === template.body)) {
+      skipped++;
+      continue;
+    }
+    let id = template.id;
+    for (let suffix = 1; merged.some((item) => item.id === id); suffix++) id = `${template.id}-import-${suffix}`;
+    merged.push({ ...template, id });
+    added++;
+  }
+  return { templates: merged, added, skipped };
+};
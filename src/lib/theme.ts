@@ -0,0 +1,77 @@
+export type ThemeName = 'dark' | 'light' | 'high-contrast';
+export type ThemeChoice = ThemeName | 'system';
+
+export interface ThemePreference {
+  theme: ThemeChoice;
+  // Custom colors as #rrggbb, applied over the chosen theme
+  accent?: string;
+  background?: string;
+}
+
+export const THEME_CHOICES: ThemeChoice[] = ['system', 'dark', 'light', 'high-contrast'];
+
+export const DEFAULT_THEME: ThemePreference = { theme: 'system' };
+
+// What the operating system asks for, from the prefers-* media queries
+export interface SystemThemeHints {
+  dark: boolean;
+  moreContrast: boolean;
+}
+
+export const resolveTheme = (choice: ThemeChoice, hints: SystemThemeHints): ThemeName => {
+  if (choice !== 'system') return choice;
+  if (hints.moreContrast) return 'high-contrast';
+  return hints.dark ? 'dark' : 'light';
+};
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export const isHexColor = (value: unknown): value is string => typeof value === 'string' && HEX_COLOR.test(value);
+
+// "#f97316" -> [249, 115, 22]
+const hexChannels = (hex: string) => [1, 3, 5].map((start) => parseInt(hex.slice(start, start + 2), 16));
+
+// Relative luminance per WCAG 2
+const luminance = (hex: string) => {
+  const [r, g, b] = hexChannels(hex).map((channel) => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+// Black or white, whichever reads better on `hex`
+const readableOn = (hex: string) => (luminance(hex) > 0.179 ? '0 0 0' : '255 255 255');
+
+// CSS custom properties for the custom colors; they override the theme's own values
+export const customProperties = (preference: ThemePreference): Record<string, string> => {
+  const properties: Record<string, string> = {};
+  if (preference.accent) {
+    properties['--color-accent'] = hexChannels(preference.accent).join(' ');
+    properties['--color-on-accent'] = readableOn(preference.accent);
+  }
+  if (preference.background) {
+    properties['--app-background'] = `linear-gradient(${preference.background}, ${preference.background})`;
+  }
+  return properties;
+};
+
+// Unknown themes fall back to the default and malformed colors are dropped
+export const parseThemePreference = (value: unknown): ThemePreference => {
+  if (typeof value !== 'object' || value === null) return DEFAULT_THEME;
+  const stored = value as Record<string, unknown>;
+  const theme = THEME_CHOICES.find((choice) => choice === stored.theme) ?? DEFAULT_THEME.theme;
+  return {
+    theme,
+    accent: isHexColor(stored.accent) ? stored.accent : undefined,
+    background: isHexColor(stored.background) ? stored.background : undefined,
+  };
+};
+
+// "249 115 22" (as stored in the CSS variables) -> "#f97316"
+export const channelsToHex = (channels: string) =>
+  `#${channels
+    .trim()
+    .split(/\s+/)
+    .map((channel) => Number(channel).toString(16).padStart(2, '0'))
+    .join('')}`;
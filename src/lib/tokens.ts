@@ -0,0 +1,63 @@
+import type { ModelInfo } from './providers';
+import type { HistoryTurn } from './history';
+import { attachmentCost, attachmentKind, type AttachmentMeta } from './attachments';
+
+// Rule of thumb for English prose and code
+const CHARS_PER_TOKEN = 4;
+// Chinese, Japanese and Korean text runs closer to one token per character
+const WIDE_CHARS = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/g;
+// Vision models bill images by area and downscale large ones; assume a full-size image
+const IMAGE_TOKENS = 1600;
+// Role markers and separators around each turn
+const TURN_OVERHEAD = 4;
+
+/** Approximate token count; real tokenizers differ by model, so treat it as a guide. */
+export const estimateTextTokens = (text: string) => {
+  if (!text) return 0;
+  const wide = text.match(WIDE_CHARS)?.length ?? 0;
+  return Math.ceil((text.length - wide) / CHARS_PER_TOKEN + wide);
+};
+
+export const estimateAttachmentTokens = (file: AttachmentMeta) =>
+  attachmentKind(file) === 'image' ? IMAGE_TOKENS : Math.ceil(attachmentCost(file) / CHARS_PER_TOKEN);
+
+export const estimateTurnTokens = (turn: HistoryTurn) =>
+  TURN_OVERHEAD +
+  estimateTextTokens(turn.content) +
+  (turn.attachments ?? []).reduce((total, file) => total + estimateAttachmentTokens(file), 0);
+
+export const estimateHistoryTokens = (turns: HistoryTurn[]) =>
+  turns.reduce((total, turn) => total + estimateTurnTokens(turn), 0);
+
+// Published context sizes by model family, checked in order
+const CONTEXT_WINDOWS: [RegExp, number][] = [
+  [/gpt-4\.1|gemini/i, 1_000_000],
+  [/claude/i, 200_000],
+  [/(^|\/)o[134]\b/i, 200_000],
+  [/gpt-4o|gpt-4-turbo|llama-3|mistral-large|deepseek|qwen/i, 128_000],
+  [/gpt-3\.5/i, 16_385],
+  [/mock/i, 8_192],
+];
+// Unknown models, often small local ones, get a conservative limit
+const DEFAULT_CONTEXT_WINDOW = 32_768;
+
+export const contextWindowFor = (model: string, models: ModelInfo[] = []) =>
+  models.find((item) => item.id === model)?.contextWindow ??
+  CONTEXT_WINDOWS.find(([pattern]) => pattern.test(model))?.[1] ??
+  DEFAULT_CONTEXT_WINDOW;
+
+// 950, 12.3k, 1.2M
+export const formatTokenCount = (tokens: number) => {
+  if (tokens < 1000) return String(Math.round(tokens));
+  if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(tokens < 10_000 ? 1 : 0)}k`;
+  return `${(tokens / 1_000_000).toFixed(1)}M`;
+};
+
+/** History tokens for the next request and the model's context window. */
+export interface ContextUsage {
+  historyTokens: number;
+  limit: number;
+}
+
+// Share of the window at which the meter turns amber
+export const CONTEXT_WARNING_RATIO = 0.8;
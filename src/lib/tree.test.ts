@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { activePath, branchPosition, normalizeTree, pathTo } from './tree';
+import type { Message } from '../types/chat';
+
+const message = (id: string, parentId?: string): Message => ({
+  id,
+  parentId,
+  content: id,
+  sender: id.startsWith('u') ? 'user' : 'ai',
+  timestamp: new Date(0),
+});
+
+// u1 ─ a1 ─ u2 ─ a2
+//         └ u3 ─ a3   (an edit of u2)
+const messages = [message('u1', ''), message('a1', 'u1'), message('u2', 'a1'), message('a2', 'u2'), message('u3', 'a1'), message('a3', 'u3')];
+const ids = (path: Message[]) => path.map((entry) => entry.id);
+
+describe('activePath', () => {
+  it('follows the newest child when nothing is selected', () => {
+    expect(ids(activePath({ messages }))).toEqual(['u1', 'a1', 'u3', 'a3']);
+  });
+
+  it('follows the selected child of each message', () => {
+    expect(ids(activePath({ messages, activeChildren: { a1: 'u2' } }))).toEqual(['u1', 'a1', 'u2', 'a2']);
+  });
+
+  it('falls back to the newest child when the selection is gone', () => {
+    expect(ids(activePath({ messages, activeChildren: { a1: 'deleted' } }))).toEqual(['u1', 'a1', 'u3', 'a3']);
+  });
+
+  it('stops at a cycle instead of looping', () => {
+    expect(ids(activePath({ messages: [message('u1', ''), message('a1', 'u1'), message('u1', 'a1')] }))).toEqual(['u1', 'a1']);
+  });
+});
+
+describe('branches', () => {
+  it('walks up from any message to the root', () => {
+    expect(ids(pathTo(messages, 'a2'))).toEqual(['u1', 'a1', 'u2', 'a2']);
+  });
+
+  it('reports the position among siblings', () => {
+    const position = branchPosition(messages, messages[2]);
+    expect(position.index).toBe(1);
+    expect(position.count).toBe(2);
+    expect(ids(position.siblings)).toEqual(['u2', 'u3']);
+  });
+
+  it('chains messages saved before conversations were trees', () => {
+    const legacy = normalizeTree([message('u1'), message('a1'), message('u2')]);
+    expect(legacy.map((entry) => entry.parentId)).toEqual(['', 'u1', 'a1']);
+  });
+});
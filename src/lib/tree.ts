@@ -0,0 +1,74 @@
+import type { Conversation, Message } from '../types/chat';
+
+// Parent key used for the first message(s) of a conversation
+export const ROOT_ID = '';
+
+const parentOf = (message: Message) => message.parentId ?? ROOT_ID;
+
+/**
+ * Fills in `parentId` for messages saved before conversations became trees,
+ * chaining them in their stored order.
+ */
+export const normalizeTree = (messages: Message[]): Message[] => {
+  if (messages.every((message) => message.parentId !== undefined)) return messages;
+  let previous = ROOT_ID;
+  return messages.map((message) => {
+    const normalized = message.parentId !== undefined ? message : { ...message, parentId: previous };
+    previous = normalized.id;
+    return normalized;
+  });
+};
+
+export const childrenOf = (messages: Message[], parentId: string) =>
+  messages.filter((message) => parentOf(message) === parentId);
+
+/**
+ * The branch currently shown: starting at the root, follow the selected child
+ * of each message, defaulting to the newest one.
+ */
+export const activePath = (conversation: Pick<Conversation, 'messages' | 'activeChildren'>): Message[] => {
+  const byParent = new Map<string, Message[]>();
+  for (const message of conversation.messages) {
+    const siblings = byParent.get(parentOf(message));
+    if (siblings) siblings.push(message);
+    else byParent.set(parentOf(message), [message]);
+  }
+
+  const path: Message[] = [];
+  const seen = new Set<string>();
+  let parentId = ROOT_ID;
+  for (;;) {
+    const children = byParent.get(parentId);
+    if (!children?.length) break;
+    const selected = conversation.activeChildren?.[parentId];
+    const next = children.find((message) => message.id === selected) ?? children[children.length - 1];
+    // Guard against corrupt data looping back on itself
+    if (seen.has(next.id)) break;
+    seen.add(next.id);
+    path.push(next);
+    parentId = next.id;
+  }
+  return path;
+};
+
+// The chain from the first message down to `messageId`, whichever branch it is on
+export const pathTo = (messages: Message[], messageId: string): Message[] => {
+  const byId = new Map(messages.map((message) => [message.id, message]));
+  const path: Message[] = [];
+  for (let current = byId.get(messageId); current && !path.includes(current); current = byId.get(parentOf(current))) {
+    path.unshift(current);
+  }
+  return path;
+};
+
+export interface BranchPosition {
+  // 1-based position among siblings
+  index: number;
+  count: number;
+  siblings: Message[];
+}
+
+export const branchPosition = (messages: Message[], message: Message): BranchPosition => {
+  const siblings = childrenOf(messages, parentOf(message));
+  return { index: siblings.findIndex((sibling) => sibling.id === message.id) + 1, count: siblings.length, siblings };
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { alignOffset, layoutItems, visibleRange } from './virtual-list';
+
+describe('layoutItems', () => {
+  it('stacks measured sizes and estimates the rest', () => {
+    const layout = layoutItems(['a', 'b', 'c'], new Map([['b', 40]]), 100);
+    expect(layout).toEqual({ offsets: [0, 100, 140], totalSize: 240 });
+  });
+
+  it('handles an empty list', () => {
+    expect(layoutItems([], new Map(), 100)).toEqual({ offsets: [], totalSize: 0 });
+  });
+});
+
+describe('visibleRange', () => {
+  // Items at 0-100, 100-140, 140-240, 240-340
+  const offsets = [0, 100, 140, 240];
+
+  it('includes items that are partly visible', () => {
+    expect(visibleRange(offsets, 120, 150)).toEqual({ start: 1, end: 3 });
+  });
+
+  it('counts an item starting exactly at the top as visible', () => {
+    expect(visibleRange(offsets, 140, 200)).toEqual({ start: 2, end: 3 });
+  });
+
+  it('clamps to the ends of the list', () => {
+    expect(visibleRange(offsets, -50, 10_000)).toEqual({ start: 0, end: 4 });
+    expect(visibleRange([], 0, 500)).toEqual({ start: 0, end: 0 });
+  });
+});
+
+describe('alignOffset', () => {
+  it('centers the item', () => {
+    expect(alignOffset(1000, 100, 0, 500, 'center')).toBe(800);
+  });
+
+  it('leaves a fully visible item in place', () => {
+    expect(alignOffset(250, 100, 200, 500, 'nearest')).toBe(200);
+  });
+
+  it('scrolls as little as possible to reveal the item', () => {
+    // Above the viewport: align its top
+    expect(alignOffset(100, 50, 200, 500, 'nearest')).toBe(100);
+    // Below the viewport: align its bottom
+    expect(alignOffset(800, 100, 200, 500, 'nearest')).toBe(400);
+  });
+
+  it('shows the top of an item taller than the viewport', () => {
+    expect(alignOffset(300, 900, 200, 500, 'nearest')).toBe(300);
+  });
+});
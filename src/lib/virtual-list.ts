@@ -0,0 +1,54 @@
+export type ScrollAlign = 'center' | 'nearest';
+
+export interface ItemLayout {
+  // Where each item starts, from the top of the list
+  offsets: number[];
+  totalSize: number;
+}
+
+/** Stacks the items using measured heights where known and `estimateSize` elsewhere. */
+export const layoutItems = (keys: string[], sizes: Map<string, number>, estimateSize: number): ItemLayout => {
+  const offsets = new Array<number>(keys.length);
+  let totalSize = 0;
+  keys.forEach((key, index) => {
+    offsets[index] = totalSize;
+    totalSize += sizes.get(key) ?? estimateSize;
+  });
+  return { offsets, totalSize };
+};
+
+// Index of the last item starting at or before `position`
+const indexAt = (offsets: number[], position: number) => {
+  let low = 0;
+  let high = offsets.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (offsets[middle] <= position) low = middle;
+    else high = middle - 1;
+  }
+  return low;
+};
+
+/** Indexes [start, end) of the items overlapping the span from `top` to `bottom`. */
+export const visibleRange = (offsets: number[], top: number, bottom: number) => {
+  if (offsets.length === 0) return { start: 0, end: 0 };
+  return { start: indexAt(offsets, Math.max(0, top)), end: indexAt(offsets, bottom) + 1 };
+};
+
+/**
+ * The scroll position, in list coordinates, that brings an item into view.
+ * "nearest" leaves a fully visible item where it is and otherwise moves as
+ * little as possible.
+ */
+export const alignOffset = (
+  itemTop: number,
+  itemSize: number,
+  scrollTop: number,
+  viewportHeight: number,
+  align: ScrollAlign
+) => {
+  if (align === 'center') return itemTop - (viewportHeight - itemSize) / 2;
+  if (itemTop < scrollTop || itemSize > viewportHeight) return itemTop;
+  if (itemTop + itemSize > scrollTop + viewportHeight) return itemTop + itemSize - viewportHeight;
+  return scrollTop;
+};
@@ -0,0 +1,159 @@
+import { LocalizedError } from '../i18n';
+
+export interface TranscriptionSession {
+  // Resolves with the transcript once the recording has stopped
+  finish: (recording: Blob) => Promise<string>;
+  cancel: () => void;
+}
+
+export interface Transcriber {
+  readonly id: string;
+  readonly label: string;
+  // Called when capture begins; live transcribers listen along, batch ones wait for the recording.
+  // `lang` is the app's language, used when the transcriber was not given one of its own
+  start: (stream: MediaStream, lang?: string) => TranscriptionSession;
+}
+
+// Minimal typing for the Web Speech API, which lib.dom does not ship
+interface SpeechRecognitionResultLike {
+  isFinal: boolean;
+  0: { transcript: string };
+}
+interface SpeechRecognitionEventLike {
+  resultIndex: number;
+  results: ArrayLike<SpeechRecognitionResultLike>;
+}
+interface SpeechRecognitionLike {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: SpeechRecognitionEventLike) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+}
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike;
+
+const getSpeechRecognition = (): SpeechRecognitionConstructor | null => {
+  if (typeof window === 'undefined') return null;
+  const scope = window as unknown as Record<string, SpeechRecognitionConstructor | undefined>;
+  return scope.SpeechRecognition ?? scope.webkitSpeechRecognition ?? null;
+};
+
+export const isSpeechRecognitionSupported = () => getSpeechRecognition() !== null;
+
+/**
+ * Uses the browser's built-in speech recognition. It listens to the default
+ * microphone alongside the recorder and ignores the recorded audio.
+ */
+export const createSpeechRecognitionTranscriber = (lang?: string): Transcriber => ({
+  id: 'browser',
+  label: 'Browser speech recognition',
+  start: (_stream, appLang) => {
+    const Recognition = getSpeechRecognition();
+    if (!Recognition) throw new LocalizedError({ key: 'voice.recognitionUnsupported' });
+
+    const recognition = new Recognition();
+    recognition.lang = lang ?? appLang ?? (typeof navigator !== 'undefined' ? navigator.language : 'en-US');
+    recognition.continuous = true;
+    recognition.interimResults = false;
+
+    const finals: string[] = [];
+    let failure: string | null = null;
+    let ended = false;
+    let onEnded: (() => void) | null = null;
+
+    recognition.onresult = (event) => {
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        if (result.isFinal) finals.push(result[0].transcript.trim());
+      }
+    };
+    recognition.onerror = (event) => {
+      // "no-speech" just means silence; anything else is a real failure
+      if (event.error !== 'no-speech' && event.error !== 'aborted') failure = event.error;
+    };
+    recognition.onend = () => {
+      ended = true;
+      onEnded?.();
+    };
+    recognition.start();
+
+    return {
+      finish: () =>
+        new Promise<string>((resolve, reject) => {
+          const settle = () => {
+            if (failure) reject(new LocalizedError({ key: 'voice.recognitionFailed', params: { reason: failure } }));
+            else resolve(finals.filter(Boolean).join(' '));
+          };
+          if (ended) {
+            settle();
+            return;
+          }
+          onEnded = settle;
+          recognition.stop();
+        }),
+      cancel: () => recognition.abort(),
+    };
+  },
+});
+
+export interface EndpointTranscriberConfig {
+  // Full URL of an OpenAI-compatible /audio/transcriptions endpoint
+  url: string;
+  apiKey?: string;
+  model?: string;
+}
+
+/**
+ * Uploads the finished recording to a transcription endpoint, such as a
+ * self-hosted Whisper server.
+ */
+export const createEndpointTranscriber = (config: EndpointTranscriberConfig): Transcriber => ({
+  id: 'endpoint',
+  label: 'Transcription endpoint',
+  start: () => {
+    const controller = new AbortController();
+    return {
+      finish: async (recording) => {
+        const extension = recording.type.includes('ogg') ? 'ogg' : recording.type.includes('mp4') ? 'm4a' : 'webm';
+        const form = new FormData();
+        form.append('file', recording, `voice-input.${extension}`);
+        form.append('model', config.model ?? 'whisper-1');
+
+        const response = await fetch(config.url, {
+          method: 'POST',
+          headers: config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {},
+          body: form,
+          signal: controller.signal,
+        });
+        if (!response.ok) {
+          throw new LocalizedError({
+            key: 'voice.transcriptionFailed',
+            params: { status: `${response.status} ${response.statusText}`.trim() },
+          });
+        }
+        const payload = await response.json();
+        return typeof payload?.text === 'string' ? payload.text.trim() : '';
+      },
+      cancel: () => controller.abort(),
+    };
+  },
+});
+
+/**
+ * Prefers a configured transcription endpoint and falls back to the
+ * browser's speech recognition. Returns null when neither is available.
+ */
+export const createTranscriberFromEnv = (env: ImportMetaEnv = import.meta.env): Transcriber | null => {
+  if (env.VITE_TRANSCRIBE_URL) {
+    return createEndpointTranscriber({
+      url: env.VITE_TRANSCRIBE_URL,
+      apiKey: env.VITE_TRANSCRIBE_API_KEY,
+      model: env.VITE_TRANSCRIBE_MODEL,
+    });
+  }
+  return isSpeechRecognitionSupported() ? createSpeechRecognitionTranscriber() : null;
+};
@@ -0,0 +1,106 @@
+import type { SearchResult } from '../lib/search';
+import type { ChatErrorKind } from '../lib/errors';
+
+export type MessageStatus = 'streaming' | 'complete' | 'stopped' | 'error';
+
+export interface Message {
+  id: string;
+  // The message this one answers or follows; '' for the first turn. Siblings are alternative branches
+  parentId?: string;
+  content: string;
+  sender: 'user' | 'ai';
+  timestamp: Date;
+  attachments?: MessageAttachment[];
+  // AI messages only: set while tokens are still arriving
+  status?: MessageStatus;
+  // AI messages only: the model that produced the reply
+  model?: string;
+  // AI messages only: search results the reply was grounded on, in citation order
+  sources?: SearchResult[];
+  // AI messages only: the model's reasoning, shown separately and never sent back as history
+  reasoning?: MessageReasoning;
+  // User messages only: the composer modes it was sent with, reused when regenerating
+  options?: SendOptions;
+  // AI messages only: why the reply failed, when status is 'error'
+  error?: MessageError;
+  // AI messages only: size and timing of the reply
+  stats?: MessageStats;
+}
+
+export interface MessageStats {
+  inputTokens: number;
+  outputTokens: number;
+  // Time from sending the request to the first streamed token
+  latencyMs?: number;
+  // Time from sending the request to the end of the stream
+  durationMs?: number;
+  // Set when the service reported no usage and the counts were estimated locally
+  estimated?: boolean;
+}
+
+export interface MessageError {
+  kind: ChatErrorKind;
+  // The underlying error text, shown as detail under the kind's description
+  message: string;
+}
+
+// A file sent with a message; its bytes live in the attachments store under `hash`
+export interface MessageAttachment {
+  // SHA-256 of the file contents, hex encoded
+  hash: string;
+  name: string;
+  type: string;
+  size: number;
+}
+
+export interface MessageReasoning {
+  text: string;
+  // Time from the first reasoning token to the first answer token
+  durationMs?: number;
+}
+
+// Composer modes that apply to a single send
+export interface SendOptions {
+  search?: boolean;
+  // Ask the model to reason before answering
+  think?: boolean;
+  // Write the reply into the conversation's canvas artifact
+  canvas?: boolean;
+}
+
+// Per-conversation generation options; unset fields fall back to provider defaults
+export interface GenerationSettings {
+  model?: string;
+  systemPrompt?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface ArtifactVersion {
+  content: string;
+  createdAt: Date;
+  // Model revisions come from a reply; user versions from editing in the panel
+  author: 'ai' | 'user';
+  messageId?: string;
+}
+
+// The editable file shown in the canvas panel; each revision is kept as a version
+export interface Artifact {
+  // May be empty; the canvas panel shows a placeholder instead
+  title: string;
+  language: string;
+  versions: ArtifactVersion[];
+}
+
+export interface Conversation {
+  id: string;
+  // Set when the user renames the chat; otherwise derived from the first message
+  title?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  messages: Message[];
+  settings?: GenerationSettings;
+  artifact?: Artifact;
+  // Selected child for each parent id, when not the newest
+  activeChildren?: Record<string, string>;
+}
@@ -0,0 +1,19 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // puter (default), openai, anthropic or mock
+  readonly VITE_CHAT_PROVIDER?: string;
+  readonly VITE_CHAT_BASE_URL?: string;
+  readonly VITE_CHAT_API_KEY?: string;
+  readonly VITE_CHAT_MODEL?: string;
+  // OpenAI-compatible /audio/transcriptions URL; browser speech recognition is used when unset
+  readonly VITE_TRANSCRIBE_URL?: string;
+  readonly VITE_TRANSCRIBE_API_KEY?: string;
+  readonly VITE_TRANSCRIBE_MODEL?: string;
+  // SearxNG-compatible search instance; Search mode uses a small offline corpus when unset
+  readonly VITE_SEARCH_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -1,3 +1,6 @@
+// Theme colors are RGB channels in CSS variables (see src/index.css), so opacity modifiers like bg-surface/80 work
+const token = (name) => `rgb(var(--color-${name}) / <alpha-value>)`;
+
 /** @type {import('tailwindcss').Config} */
 export default {
   content: [
@@ -5,7 +8,38 @@ export default {
     "./src/**/*.{js,ts,jsx,tsx}",
   ],
   theme: {
-    extend: {},
+    extend: {
+      colors: {
+        surface: {
+          DEFAULT: token('surface'),
+          raised: token('surface-raised'),
+          hover: token('surface-hover'),
+          sunken: token('surface-sunken'),
+        },
+        code: token('code'),
+        line: {
+          DEFAULT: token('line'),
+          strong: token('line-strong'),
+          focus: token('line-focus'),
+        },
+        fg: {
+          DEFAULT: token('fg'),
+          soft: token('fg-soft'),
+          muted: token('fg-muted'),
+          subtle: token('fg-subtle'),
+        },
+        accent: token('accent'),
+        'on-accent': token('on-accent'),
+        mode: {
+          search: token('mode-search'),
+          think: token('mode-think'),
+          canvas: token('mode-canvas'),
+        },
+      },
+      backgroundImage: {
+        app: 'var(--app-background)',
+      },
+    },
   },
   plugins: [],
-}
\ No newline at end of file
+}